@@ -13,12 +13,45 @@ CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
 CREATE TABLE merchants (
     id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
     name VARCHAR(255) NOT NULL,
-    email VARCHAR(255) UNIQUE NOT NULL,
+    email VARCHAR(255) UNIQUE, -- unknown for merchants auto-created from a scanned VPA
     phone VARCHAR(20),
-    upi_id VARCHAR(255) NOT NULL,
+    upi_id VARCHAR(255) UNIQUE NOT NULL, -- stored lower-case
     business_type VARCHAR(100),
     address TEXT,
     verified BOOLEAN DEFAULT FALSE,
+    webhook_secret VARCHAR(255), -- signs outbound webhooks; created with the first endpoint
+    fee_overrides JSONB, -- per-merchant changes to the default fee schedule
+    payout_provider VARCHAR(20), -- 'cashfree', 'razorpayx', 'mock'; NULL uses the default provider
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Quotes table (exchange-rate quotes locked for a limited time)
+CREATE TABLE quotes (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    from_currency VARCHAR(10) NOT NULL,
+    to_currency VARCHAR(10) NOT NULL,
+    rate DECIMAL(15, 8) NOT NULL,
+    amount_inr DECIMAL(15, 2) NOT NULL,
+    crypto_amount DECIMAL(20, 8) NOT NULL,
+    fees JSONB DEFAULT '[]',
+    merchant_id UUID REFERENCES merchants(id), -- set when the fees were priced for a specific merchant
+    wallet_address VARCHAR(255),
+    signature VARCHAR(64) NOT NULL, -- HMAC-SHA256 over the quoted terms
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Payment Links table (merchant-created payment requests with a hosted checkout)
+CREATE TABLE payment_links (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    merchant_id UUID NOT NULL REFERENCES merchants(id),
+    amount_inr DECIMAL(15, 2) NOT NULL,
+    description TEXT,
+    multi_use BOOLEAN DEFAULT FALSE, -- single-use links close once a payment claims them as its deposit confirms
+    status VARCHAR(20) NOT NULL DEFAULT 'open', -- 'open', 'paid'; open links past expires_at read as 'expired'
+    paid_count INTEGER NOT NULL DEFAULT 0,
+    expires_at TIMESTAMP WITH TIME ZONE,
     created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
 );
@@ -30,28 +63,106 @@ CREATE TABLE payments (
     amount_inr DECIMAL(15, 2) NOT NULL,
     stablecoin_amount DECIMAL(20, 8) NOT NULL,
     exchange_rate DECIMAL(10, 4) NOT NULL,
+    fees JSONB NOT NULL DEFAULT '[]', -- itemized INR fees from the quote, charged on top of amount_inr
     wallet_address VARCHAR(255) NOT NULL,
     merchant_upi_id VARCHAR(255) NOT NULL,
-    status VARCHAR(20) NOT NULL DEFAULT 'pending',
-    aptos_transaction_hash VARCHAR(255),
+    asset VARCHAR(10) NOT NULL DEFAULT 'USDC', -- stablecoin the deposit is expected in
+    quote_id UUID UNIQUE REFERENCES quotes(id), -- a quote can back only one payment
+    payment_link_id UUID REFERENCES payment_links(id), -- set when paid through a merchant payment link
+    payment_link_claimed_at TIMESTAMP WITH TIME ZONE, -- set once the payment has been counted against its link
+    status VARCHAR(20) NOT NULL DEFAULT 'pending', -- 'pending', 'awaiting_topup', 'confirmed', 'payout_initiated', 'completed', 'failed', 'refunded', 'expired'
+    aptos_transaction_hash VARCHAR(255) UNIQUE, -- a deposit can only back one payment
+    expires_at TIMESTAMP WITH TIME ZONE, -- pending payments are expired by the sweeper after this
+    amount_received DECIMAL(20, 8) NOT NULL DEFAULT 0, -- total deposited so far, across top-ups
+    risk_decision VARCHAR(10) NOT NULL DEFAULT 'allow', -- 'allow', 'hold' (payout waits for review), 'block'
+    risk_reasons JSONB NOT NULL DEFAULT '[]', -- rules that triggered the decision
+    risk_reviewed_at TIMESTAMP WITH TIME ZONE,
+    risk_reviewed_by VARCHAR(255),
     upi_payout_id UUID,
     failure_reason TEXT,
     created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
 );
 
--- UPI Payouts table
+-- Payment Deposits table (every escrow deposit credited to a payment)
+CREATE TABLE payment_deposits (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    payment_id UUID NOT NULL REFERENCES payments(id),
+    aptos_transaction_hash VARCHAR(255) UNIQUE NOT NULL, -- a deposit is credited once
+    amount DECIMAL(20, 8) NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Payout Jobs table (durable queue of merchant payouts)
+CREATE TABLE payout_jobs (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    payment_id UUID UNIQUE NOT NULL REFERENCES payments(id),
+    status VARCHAR(20) NOT NULL DEFAULT 'queued', -- 'held' (payment on risk hold), 'queued', 'processing', 'succeeded', 'dead'
+    attempts INTEGER NOT NULL DEFAULT 0,
+    max_attempts INTEGER NOT NULL DEFAULT 5,
+    next_run_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    locked_at TIMESTAMP WITH TIME ZONE,
+    last_error TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- UPI Payouts table (one row per payout attempt sent to the provider)
 CREATE TABLE upi_payouts (
     id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
     payment_id UUID REFERENCES payments(id),
-    payout_id VARCHAR(255) UNIQUE NOT NULL,
+    payout_id VARCHAR(255) UNIQUE NOT NULL, -- idempotency reference sent to the provider, derived from the payment and attempt number
+    attempt_number INTEGER NOT NULL DEFAULT 1, -- attempt within the payment, counting from 1
     amount DECIMAL(15, 2) NOT NULL,
     merchant_upi_id VARCHAR(255) NOT NULL,
+    provider VARCHAR(20), -- payout provider that made the payout; NULL for the default provider
     status VARCHAR(20) NOT NULL DEFAULT 'pending',
     provider_transaction_id VARCHAR(255),
     failure_reason TEXT,
     provider_response JSONB,
     created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (payment_id, attempt_number)
+);
+
+-- UPI Webhook Events table (deduplicates provider webhook deliveries)
+CREATE TABLE upi_webhook_events (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    event_id VARCHAR(255) UNIQUE NOT NULL, -- provider event id
+    payout_id VARCHAR(255) NOT NULL,
+    status VARCHAR(20) NOT NULL,
+    payload JSONB,
+    outcome TEXT,
+    processed_at TIMESTAMP WITH TIME ZONE,
+    received_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Refunds table (stablecoin returned from escrow to the paying wallet)
+CREATE TABLE refunds (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    payment_id UUID NOT NULL REFERENCES payments(id),
+    kind VARCHAR(20) NOT NULL DEFAULT 'full', -- 'full' or 'excess' (overpaid part of a deposit)
+    asset VARCHAR(10) NOT NULL,
+    gross_amount DECIMAL(20, 8) NOT NULL,
+    fee_amount DECIMAL(20, 8) NOT NULL DEFAULT 0,
+    amount DECIMAL(20, 8) NOT NULL, -- amount actually sent back
+    recipient_address VARCHAR(255) NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending', -- 'pending', 'submitted', 'completed', 'failed'
+    aptos_transaction_hash VARCHAR(255),
+    reason TEXT NOT NULL,
+    initiated_by VARCHAR(100) NOT NULL, -- e.g. 'payout_queue', 'operator' or 'refund_reconciler'
+    failure_reason TEXT,
+    attempts INTEGER NOT NULL DEFAULT 0, -- times the refund has been sent
+    next_attempt_at TIMESTAMP WITH TIME ZONE, -- when a failed refund is sent again; NULL once it is no longer retried
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (payment_id, kind) -- at most one refund of each kind per payment
+);
+
+-- Indexer Cursors table (last fully processed ledger version per indexer)
+CREATE TABLE indexer_cursors (
+    name VARCHAR(100) PRIMARY KEY,
+    last_version BIGINT NOT NULL DEFAULT 0,
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
 );
 
@@ -62,18 +173,29 @@ CREATE TABLE exchange_rates (
     to_currency VARCHAR(10) NOT NULL,
     rate DECIMAL(15, 8) NOT NULL,
     source VARCHAR(50) NOT NULL,
+    -- Individual provider quotes behind an aggregated rate, with whether each was accepted
+    sources JSONB NOT NULL DEFAULT '[]',
     created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
 );
 
--- Transaction Events table (for blockchain events)
+-- Transaction Events table (for blockchain events and payment status transitions)
 CREATE TABLE transaction_events (
     id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
     payment_id UUID REFERENCES payments(id),
-    event_type VARCHAR(50) NOT NULL,
+    event_type VARCHAR(50) NOT NULL, -- 'status_transition' or a blockchain event type
     blockchain_hash VARCHAR(255),
     block_number BIGINT,
+    ledger_version BIGINT, -- Aptos ledger version, set for indexed chain events
+    previous_status VARCHAR(20),
+    new_status VARCHAR(20),
+    actor VARCHAR(100), -- who triggered the transition, e.g. 'api', 'upi_webhook'
+    reason TEXT,
     event_data JSONB,
     processed BOOLEAN DEFAULT FALSE,
+    attempts INTEGER NOT NULL DEFAULT 0, -- failed attempts to settle an escrow deposit
+    next_attempt_at TIMESTAMP WITH TIME ZONE, -- escrow deposits that failed are retried after this
+    last_error TEXT,
+    review_reason VARCHAR(20), -- escrow deposits left for operator review: 'unmatched' or 'failed'
     created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
 );
 
@@ -81,30 +203,153 @@ CREATE TABLE transaction_events (
 CREATE TABLE notifications (
     id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
     payment_id UUID REFERENCES payments(id),
+    event_type VARCHAR(50) NOT NULL, -- 'payment_confirmed', 'payout_completed', 'refund_issued'
     recipient_type VARCHAR(20) NOT NULL, -- 'user' or 'merchant'
     recipient_id VARCHAR(255) NOT NULL, -- wallet address or merchant id
+    recipient_address TEXT NOT NULL, -- email address, phone number or push subscription endpoint
     notification_type VARCHAR(50) NOT NULL, -- 'email', 'push', 'sms'
     title VARCHAR(255) NOT NULL,
     message TEXT NOT NULL,
-    status VARCHAR(20) DEFAULT 'pending', -- 'pending', 'sent', 'failed'
+    status VARCHAR(20) DEFAULT 'pending', -- 'pending', 'sending', 'sent', 'failed'
+    attempts INTEGER NOT NULL DEFAULT 0,
+    max_attempts INTEGER NOT NULL DEFAULT 5,
+    next_attempt_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    locked_at TIMESTAMP WITH TIME ZONE,
+    last_error TEXT,
     sent_at TIMESTAMP WITH TIME ZONE,
     created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
 );
 
+-- Push Subscriptions table (browsers that receive Web Push for a wallet)
+CREATE TABLE push_subscriptions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    wallet_address VARCHAR(66) NOT NULL,
+    endpoint TEXT UNIQUE NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
 -- API Keys table (for merchant API access)
 CREATE TABLE api_keys (
     id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
     merchant_id UUID REFERENCES merchants(id),
     key_name VARCHAR(100) NOT NULL,
     api_key VARCHAR(255) UNIQUE NOT NULL,
-    api_secret VARCHAR(255) NOT NULL,
+    api_secret VARCHAR(255) NOT NULL, -- random signing secret, AES-GCM encrypted with a key derived from API_KEY_MASTER_SECRET
     permissions JSONB DEFAULT '[]',
     active BOOLEAN DEFAULT TRUE,
     last_used_at TIMESTAMP WITH TIME ZONE,
     expires_at TIMESTAMP WITH TIME ZONE,
+    revoked_at TIMESTAMP WITH TIME ZONE,
     created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
 );
 
+-- API Key Nonces table (replay protection for signed merchant requests)
+CREATE TABLE api_key_nonces (
+    api_key_id UUID NOT NULL REFERENCES api_keys(id) ON DELETE CASCADE,
+    nonce VARCHAR(255) NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (api_key_id, nonce)
+);
+
+-- Security Events table (suspicious activity kept for later review)
+CREATE TABLE security_events (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    event_type VARCHAR(50) NOT NULL, -- e.g. 'transaction_hash_replay', 'screening_blocked'
+    payment_id UUID REFERENCES payments(id),
+    wallet_address VARCHAR(255),
+    ip_address VARCHAR(45),
+    details JSONB DEFAULT '{}',
+    reviewed BOOLEAN DEFAULT FALSE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Wallet Auth Challenges table (sign-in nonces issued to wallets)
+CREATE TABLE wallet_auth_challenges (
+    nonce VARCHAR(64) PRIMARY KEY,
+    wallet_address VARCHAR(66) NOT NULL,
+    message TEXT NOT NULL,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    used_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Wallet Risk Profiles table (limit tier per wallet; wallets without a row are 'basic')
+CREATE TABLE wallet_risk_profiles (
+    wallet_address VARCHAR(255) PRIMARY KEY, -- stored lower-case
+    tier VARCHAR(20) NOT NULL DEFAULT 'basic', -- 'basic', 'verified', 'trusted'
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Screening Entries table (denylisted payer wallets and payee VPAs)
+CREATE TABLE screening_entries (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    list_type VARCHAR(10) NOT NULL, -- 'wallet', 'vpa'
+    match_type VARCHAR(10) NOT NULL DEFAULT 'exact', -- 'exact', 'handle', 'pattern'
+    value VARCHAR(255) NOT NULL, -- normalized address, VPA or handle, or a POSIX regex
+    reason TEXT,
+    created_by VARCHAR(255),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(list_type, match_type, value)
+);
+
+-- Webhook Endpoints table (merchant URLs that receive payment events)
+CREATE TABLE webhook_endpoints (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    merchant_id UUID NOT NULL REFERENCES merchants(id),
+    url TEXT NOT NULL,
+    description TEXT,
+    active BOOLEAN DEFAULT TRUE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Webhook Events table (outbox of events to deliver, one row per endpoint)
+CREATE TABLE webhook_events (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    endpoint_id UUID NOT NULL REFERENCES webhook_endpoints(id),
+    merchant_id UUID NOT NULL REFERENCES merchants(id),
+    payment_id UUID REFERENCES payments(id),
+    event_type VARCHAR(50) NOT NULL, -- 'payment.<status>'
+    payload JSONB NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending', -- 'pending', 'delivering', 'delivered', 'failed'
+    attempts INTEGER NOT NULL DEFAULT 0,
+    max_attempts INTEGER NOT NULL DEFAULT 8,
+    next_attempt_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    locked_at TIMESTAMP WITH TIME ZONE,
+    last_error TEXT,
+    delivered_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Webhook Deliveries table (log of every delivery attempt)
+CREATE TABLE webhook_deliveries (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    event_id UUID NOT NULL REFERENCES webhook_events(id),
+    attempt_number INTEGER NOT NULL,
+    url TEXT NOT NULL,
+    response_status INTEGER, -- response bodies are never stored
+    error TEXT,
+    duration_ms INTEGER NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Idempotency Keys table (stores the first response for retried requests)
+CREATE TABLE idempotency_keys (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    scope VARCHAR(100) NOT NULL, -- route the key applies to, e.g. 'payment:initiate'
+    idempotency_key VARCHAR(255) NOT NULL,
+    request_fingerprint VARCHAR(64) NOT NULL, -- sha256 of method, path and body
+    status VARCHAR(20) NOT NULL DEFAULT 'in_progress', -- 'in_progress', 'completed'
+    response_status INTEGER,
+    response_body JSONB,
+    locked_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP, -- when the in-progress request claimed the key; stale claims are taken over
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    completed_at TIMESTAMP WITH TIME ZONE,
+    UNIQUE (scope, idempotency_key)
+);
+
 -- Indexes for better performance
 CREATE INDEX idx_payments_wallet_address ON payments(wallet_address);
 CREATE INDEX idx_payments_merchant_id ON payments(merchant_id);
@@ -112,12 +357,45 @@ CREATE INDEX idx_payments_status ON payments(status);
 CREATE INDEX idx_payments_created_at ON payments(created_at);
 CREATE INDEX idx_upi_payouts_payout_id ON upi_payouts(payout_id);
 CREATE INDEX idx_upi_payouts_status ON upi_payouts(status);
+CREATE INDEX idx_upi_payouts_payment_id ON upi_payouts(payment_id);
+CREATE INDEX idx_payments_upi_payout_id ON payments(upi_payout_id);
+CREATE INDEX idx_upi_webhook_events_payout_id ON upi_webhook_events(payout_id);
+CREATE INDEX idx_payments_pending_expiry ON payments(expires_at) WHERE status IN ('pending', 'awaiting_topup');
+CREATE INDEX idx_payments_expired_with_deposit ON payments(updated_at) WHERE status = 'expired' AND amount_received > 0;
+CREATE INDEX idx_payment_deposits_payment_id ON payment_deposits(payment_id);
+CREATE INDEX idx_refunds_status ON refunds(status);
+CREATE INDEX idx_refunds_retry ON refunds(status, next_attempt_at);
+CREATE INDEX idx_payout_jobs_due ON payout_jobs(status, next_run_at);
 CREATE INDEX idx_transaction_events_payment_id ON transaction_events(payment_id);
 CREATE INDEX idx_transaction_events_processed ON transaction_events(processed);
+CREATE INDEX idx_transaction_events_type ON transaction_events(event_type);
+CREATE INDEX idx_transaction_events_review ON transaction_events(review_reason) WHERE review_reason IS NOT NULL;
+-- An indexed escrow deposit is recorded once, however often its version is re-read
+CREATE UNIQUE INDEX idx_transaction_events_escrow_deposit ON transaction_events(blockchain_hash)
+    WHERE event_type = 'escrow_deposit';
 CREATE INDEX idx_exchange_rates_currencies ON exchange_rates(from_currency, to_currency);
 CREATE INDEX idx_exchange_rates_created_at ON exchange_rates(created_at);
+CREATE INDEX idx_exchange_rates_pair_created_at ON exchange_rates(from_currency, to_currency, created_at);
 CREATE INDEX idx_notifications_recipient ON notifications(recipient_type, recipient_id);
 CREATE INDEX idx_notifications_status ON notifications(status);
+CREATE INDEX idx_notifications_due ON notifications(status, next_attempt_at);
+CREATE INDEX idx_push_subscriptions_wallet_address ON push_subscriptions(wallet_address);
+CREATE INDEX idx_security_events_type ON security_events(event_type);
+CREATE INDEX idx_security_events_reviewed ON security_events(reviewed);
+CREATE INDEX idx_quotes_expires_at ON quotes(expires_at);
+CREATE INDEX idx_idempotency_keys_created_at ON idempotency_keys(created_at);
+CREATE INDEX idx_api_keys_merchant_id ON api_keys(merchant_id);
+CREATE INDEX idx_api_key_nonces_created_at ON api_key_nonces(created_at);
+CREATE INDEX idx_wallet_auth_challenges_expires_at ON wallet_auth_challenges(expires_at);
+CREATE INDEX idx_payment_links_merchant_id ON payment_links(merchant_id);
+CREATE INDEX idx_payments_payment_link_id ON payments(payment_link_id);
+CREATE INDEX idx_payments_wallet_address_lower ON payments(LOWER(wallet_address), created_at);
+CREATE INDEX idx_payments_merchant_upi_id ON payments(merchant_upi_id, created_at);
+CREATE INDEX idx_payments_risk_decision ON payments(risk_decision) WHERE risk_decision = 'hold';
+CREATE INDEX idx_webhook_endpoints_merchant_id ON webhook_endpoints(merchant_id);
+CREATE INDEX idx_webhook_events_due ON webhook_events(status, next_attempt_at);
+CREATE INDEX idx_webhook_events_merchant_id ON webhook_events(merchant_id, created_at);
+CREATE INDEX idx_webhook_deliveries_event_id ON webhook_deliveries(event_id);
 
 -- Triggers for updated_at timestamps
 CREATE OR REPLACE FUNCTION update_updated_at_column()
@@ -137,6 +415,27 @@ CREATE TRIGGER update_payments_updated_at BEFORE UPDATE ON payments
 CREATE TRIGGER update_upi_payouts_updated_at BEFORE UPDATE ON upi_payouts
     FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
+CREATE TRIGGER update_indexer_cursors_updated_at BEFORE UPDATE ON indexer_cursors
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_refunds_updated_at BEFORE UPDATE ON refunds
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_payout_jobs_updated_at BEFORE UPDATE ON payout_jobs
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_payment_links_updated_at BEFORE UPDATE ON payment_links
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_webhook_endpoints_updated_at BEFORE UPDATE ON webhook_endpoints
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_webhook_events_updated_at BEFORE UPDATE ON webhook_events
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_wallet_risk_profiles_updated_at BEFORE UPDATE ON wallet_risk_profiles
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
 -- Insert sample merchants for testing
 INSERT INTO merchants (name, email, phone, upi_id, business_type, verified) VALUES
 ('Demo Coffee Shop', 'coffee@demo.com', '+91-9876543210', 'coffee@paytm', 'Food & Beverage', true),
@@ -0,0 +1,10 @@
+import { Pool } from 'pg';
+
+// Shared connection pool for all services
+export const db = new Pool({
+  host: process.env.DB_HOST || 'localhost',
+  port: parseInt(process.env.DB_PORT || '5432'),
+  database: process.env.DB_NAME || 'aptpay',
+  user: process.env.DB_USER || 'postgres',
+  password: process.env.DB_PASSWORD || 'password',
+});
@@ -0,0 +1,116 @@
+import { Request, Response, NextFunction } from 'express';
+import { ApiKeyService, isApiKeyPermission } from '../services/ApiKeyService';
+import { MerchantService } from '../services/MerchantService';
+import { getApiKey } from '../middleware/merchantAuth';
+import { createError } from '../middleware/errorHandler';
+
+/**
+ * Key management for merchants. Mounted both for operators, with the
+ * merchant in the path, and for merchants signing with their own key.
+ */
+export class ApiKeyController {
+  private apiKeyService: ApiKeyService;
+  private merchantService: MerchantService;
+
+  constructor() {
+    this.apiKeyService = new ApiKeyService();
+    this.merchantService = new MerchantService();
+  }
+
+  createKey = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const merchantId = await this.resolveMerchantId(req, res);
+      const { name, permissions, expiresAt } = req.body;
+
+      if (!name || !Array.isArray(permissions) || permissions.length === 0) {
+        throw createError('Missing required fields', 400);
+      }
+
+      const invalid = permissions.filter(permission => !isApiKeyPermission(permission));
+      if (invalid.length > 0) {
+        throw createError(`Unknown permissions: ${invalid.join(', ')}`, 400);
+      }
+
+      // A merchant key cannot mint a key more powerful than itself
+      const caller = res.locals.apiKey ? getApiKey(res) : undefined;
+      if (caller && permissions.some(permission => !caller.permissions.includes(permission))) {
+        throw createError('Cannot grant permissions the calling key does not have', 403, 'insufficient_permissions');
+      }
+
+      const expiry = expiresAt ? new Date(expiresAt) : undefined;
+      if (expiry && (isNaN(expiry.getTime()) || expiry.getTime() <= Date.now())) {
+        throw createError('expiresAt must be a future date', 400);
+      }
+
+      const apiKey = await this.apiKeyService.createKey(merchantId, {
+        name,
+        permissions,
+        expiresAt: expiry
+      });
+
+      res.status(201).json({
+        success: true,
+        data: apiKey
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  listKeys = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const merchantId = await this.resolveMerchantId(req, res);
+
+      const apiKeys = await this.apiKeyService.listKeys(merchantId);
+
+      res.json({
+        success: true,
+        data: apiKeys
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  rotateKey = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const merchantId = await this.resolveMerchantId(req, res);
+
+      const apiKey = await this.apiKeyService.rotateKey(merchantId, req.params.keyId);
+
+      res.status(201).json({
+        success: true,
+        data: apiKey
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  revokeKey = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const merchantId = await this.resolveMerchantId(req, res);
+
+      const apiKey = await this.apiKeyService.revokeKey(merchantId, req.params.keyId);
+
+      res.json({
+        success: true,
+        data: apiKey
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  private resolveMerchantId = async (req: Request, res: Response): Promise<string> => {
+    if (res.locals.apiKey) {
+      return getApiKey(res).merchantId;
+    }
+
+    const merchant = await this.merchantService.getMerchantById(req.params.merchantId);
+    if (!merchant) {
+      throw createError('Merchant not found', 404);
+    }
+    return merchant.id;
+  };
+}
@@ -0,0 +1,55 @@
+import { Request, Response, NextFunction } from 'express';
+import { WalletAuthService } from '../services/WalletAuthService';
+import { createError } from '../middleware/errorHandler';
+
+export class AuthController {
+  private walletAuthService: WalletAuthService;
+
+  constructor() {
+    this.walletAuthService = new WalletAuthService();
+  }
+
+  createChallenge = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { walletAddress } = req.body;
+
+      if (!walletAddress) {
+        throw createError('Missing required fields', 400);
+      }
+
+      const challenge = await this.walletAuthService.createChallenge(walletAddress);
+
+      res.status(201).json({
+        success: true,
+        data: challenge
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  verifyChallenge = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { walletAddress, nonce, publicKey, signature, fullMessage } = req.body;
+
+      if (!walletAddress || !nonce || !publicKey || !signature || !fullMessage) {
+        throw createError('Missing required fields', 400);
+      }
+
+      const session = await this.walletAuthService.signIn({
+        walletAddress,
+        nonce,
+        publicKey,
+        signature,
+        fullMessage
+      });
+
+      res.json({
+        success: true,
+        data: session
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+}
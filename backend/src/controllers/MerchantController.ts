@@ -0,0 +1,119 @@
+import { Request, Response, NextFunction } from 'express';
+import { MerchantService } from '../services/MerchantService';
+import { createError } from '../middleware/errorHandler';
+
+export class MerchantController {
+  private merchantService: MerchantService;
+
+  constructor() {
+    this.merchantService = new MerchantService();
+  }
+
+  createMerchant = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { name, email, phone, upiId, businessType, address, verified, feeOverrides, payoutProvider } = req.body;
+
+      if (!name || !upiId) {
+        throw createError('Missing required fields', 400);
+      }
+
+      const merchant = await this.merchantService.createMerchant({
+        name,
+        email,
+        phone,
+        upiId,
+        businessType,
+        address,
+        verified,
+        feeOverrides,
+        payoutProvider
+      });
+
+      res.status(201).json({
+        success: true,
+        data: merchant
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  listMerchants = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { page = 1, limit = 20, verified } = req.query;
+
+      const merchants = await this.merchantService.listMerchants(
+        parseInt(page as string),
+        parseInt(limit as string),
+        { verified: verified === undefined ? undefined : verified === 'true' }
+      );
+
+      res.json({
+        success: true,
+        data: merchants
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  getMerchant = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { merchantId } = req.params;
+
+      // Accept either the merchant id or its VPA
+      const merchant = merchantId.includes('@')
+        ? await this.merchantService.getMerchantByUpiId(merchantId)
+        : await this.merchantService.getMerchantById(merchantId);
+
+      if (!merchant) {
+        throw createError('Merchant not found', 404);
+      }
+
+      res.json({
+        success: true,
+        data: merchant
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  updateMerchant = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { merchantId } = req.params;
+      const { name, email, phone, upiId, businessType, address, verified, feeOverrides, payoutProvider } = req.body;
+
+      const merchant = await this.merchantService.updateMerchant(merchantId, {
+        name,
+        email,
+        phone,
+        upiId,
+        businessType,
+        address,
+        verified,
+        feeOverrides,
+        payoutProvider
+      });
+
+      res.json({
+        success: true,
+        data: merchant
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  deleteMerchant = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { merchantId } = req.params;
+
+      await this.merchantService.deleteMerchant(merchantId);
+
+      res.status(204).send();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
@@ -0,0 +1,74 @@
+import { Request, Response, NextFunction } from 'express';
+import { NotificationService, NotificationStatus } from '../services/NotificationService';
+import { createError } from '../middleware/errorHandler';
+
+const NOTIFICATION_STATUSES: NotificationStatus[] = ['pending', 'sending', 'sent', 'failed'];
+
+export class NotificationController {
+  private notificationService: NotificationService;
+
+  constructor() {
+    this.notificationService = new NotificationService();
+  }
+
+  subscribePush = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { endpoint } = req.body;
+
+      if (!endpoint) {
+        throw createError('Missing required fields', 400);
+      }
+
+      await this.notificationService.subscribePush(res.locals.walletAddress, endpoint);
+
+      res.status(201).json({
+        success: true,
+        data: { endpoint }
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  unsubscribePush = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { endpoint } = req.body;
+
+      if (!endpoint) {
+        throw createError('Missing required fields', 400);
+      }
+
+      await this.notificationService.unsubscribePush(res.locals.walletAddress, endpoint);
+
+      res.status(204).send();
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  listNotifications = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { page = 1, limit = 20, status, paymentId } = req.query;
+
+      if (status && !NOTIFICATION_STATUSES.includes(status as NotificationStatus)) {
+        throw createError(`status must be one of ${NOTIFICATION_STATUSES.join(', ')}`, 400);
+      }
+
+      const notifications = await this.notificationService.listNotifications(
+        parseInt(page as string),
+        parseInt(limit as string),
+        {
+          status: status as NotificationStatus | undefined,
+          paymentId: paymentId as string | undefined
+        }
+      );
+
+      res.json({
+        success: true,
+        data: notifications
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+}
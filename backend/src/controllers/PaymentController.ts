@@ -1,50 +1,163 @@
 import { Request, Response, NextFunction } from 'express';
 import { PaymentService } from '../services/PaymentService';
-import { AptosService } from '../services/AptosService';
-import { OracleService } from '../services/OracleService';
-import { createError } from '../middleware/errorHandler';
+import { AptosService, DepositVerificationError } from '../services/AptosService';
+import { QuoteService } from '../services/QuoteService';
+import { SecurityEventService } from '../services/SecurityEventService';
+import { PaymentExpiryService } from '../services/PaymentExpiryService';
+import { DepositSettlementService } from '../services/DepositSettlementService';
+import { MerchantService, isValidVpa, normalizeVpa } from '../services/MerchantService';
+import { PaymentLinkService } from '../services/PaymentLinkService';
+import { RiskAssessment, RiskService } from '../services/RiskService';
+import { ScreeningService } from '../services/ScreeningService';
+import { AppError, createError } from '../middleware/errorHandler';
+import { getApiKey } from '../middleware/merchantAuth';
+import { isSessionWallet } from '../middleware/walletAuth';
 
 export class PaymentController {
   private paymentService: PaymentService;
   private aptosService: AptosService;
-  private oracleService: OracleService;
+  private quoteService: QuoteService;
+  private securityEventService: SecurityEventService;
+  private paymentExpiryService: PaymentExpiryService;
+  private depositSettlementService: DepositSettlementService;
+  private merchantService: MerchantService;
+  private paymentLinkService: PaymentLinkService;
+  private riskService: RiskService;
+  private screeningService: ScreeningService;
 
   constructor() {
     this.paymentService = new PaymentService();
     this.aptosService = new AptosService();
-    this.oracleService = new OracleService();
+    this.quoteService = new QuoteService();
+    this.securityEventService = new SecurityEventService();
+    this.paymentExpiryService = new PaymentExpiryService();
+    this.depositSettlementService = new DepositSettlementService();
+    this.merchantService = new MerchantService();
+    this.paymentLinkService = new PaymentLinkService();
+    this.riskService = new RiskService();
+    this.screeningService = new ScreeningService();
   }
 
+  createQuote = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { amountINR, asset, merchantId, walletAddress } = req.body;
+      const amount = Number(amountINR);
+
+      if (!amountINR || !Number.isFinite(amount) || amount <= 0) {
+        throw createError('A positive amountINR is required', 400);
+      }
+
+      const quote = await this.quoteService.createQuote({
+        amountINR: amount,
+        asset,
+        merchantId,
+        walletAddress
+      });
+
+      res.json({
+        success: true,
+        data: quote
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
   initiatePayment = async (req: Request, res: Response, next: NextFunction) => {
     try {
-      const { merchantId, amountINR, walletAddress, merchantUpiId } = req.body;
+      const { merchantId, merchantName, quoteId, walletAddress, merchantUpiId, paymentLinkId } = req.body;
 
-      if (!merchantId || !amountINR || !walletAddress || !merchantUpiId) {
+      if ((!merchantId && !paymentLinkId) || !quoteId || !walletAddress) {
         throw createError('Missing required fields', 400);
       }
 
-      // Get current exchange rate
-      const exchangeRate = await this.oracleService.getExchangeRate('USDC', 'INR');
-      const stablecoinAmount = amountINR / exchangeRate;
+      // Checked before anything is looked up, since resolving the merchant can create one
+      if (merchantUpiId && (typeof merchantUpiId !== 'string' || !isValidVpa(normalizeVpa(merchantUpiId)))) {
+        throw createError('Invalid UPI ID', 400, 'invalid_vpa');
+      }
+
+      // The price was fixed when the quote was issued
+      const quote = await this.quoteService.getValidQuote(quoteId, walletAddress);
+
+      // Payment links fix the merchant and amount
+      const paymentLink = paymentLinkId
+        ? await this.paymentLinkService.getPayableLink(paymentLinkId, quote.amountINR)
+        : undefined;
+
+      // merchantId is a merchant id or, for scanned QR codes, the payee VPA
+      const merchant = await this.merchantService.resolveMerchant(paymentLink?.merchantId || merchantId, merchantName);
+
+      // Fees were priced for the quote's merchant, so the quote can't pay a merchant on another schedule
+      if (quote.merchantId ? quote.merchantId !== merchant.id : merchant.feeOverrides) {
+        throw createError('Quote was issued for a different merchant', 400, 'quote_merchant_mismatch');
+      }
+
+      // Verified merchants and payment links are only paid out to the merchant's registered VPA
+      const payoutUpiId = merchantUpiId && !paymentLink ? normalizeVpa(merchantUpiId) : merchant.upiId;
+      if (merchant.verified && payoutUpiId !== merchant.upiId) {
+        throw createError('UPI ID does not match the verified merchant', 400, 'merchant_vpa_mismatch');
+      }
+
+      // Denylisted payers and payees are turned away before any deposit is asked for
+      const screeningSubject = { walletAddress, vpa: payoutUpiId };
+      const screening = await this.screeningService.screen(screeningSubject);
+      if (screening.blocked) {
+        await this.screeningService.recordBlocked(screeningSubject, screening, {
+          stage: 'payment',
+          merchantId: merchant.id,
+          ipAddress: req.ip
+        });
+      }
+      this.screeningService.assertNotBlocked(screening);
 
-      // Create payment record
+      // Create payment record, re-checking risk now that the payee is known. The check runs under a
+      // per-wallet lock so concurrent payments count towards each other's limits; a hold lets the
+      // payment through but holds its payout
       const payment = await this.paymentService.createPayment({
-        merchantId,
-        amountINR,
-        stablecoinAmount,
-        exchangeRate,
+        merchantId: merchant.id,
+        amountINR: quote.amountINR,
+        stablecoinAmount: quote.cryptoAmount,
+        exchangeRate: quote.rate,
+        fees: quote.fees,
         walletAddress,
-        merchantUpiId,
-        status: 'pending'
+        merchantUpiId: payoutUpiId,
+        asset: quote.fromCurrency,
+        quoteId: quote.id,
+        paymentLinkId: paymentLink?.id,
+        expiresAt: this.paymentExpiryService.getExpiryFor(quote.expiresAt)
+      }, async client => {
+        const risk = await this.riskService.assessForCreation(client, {
+          walletAddress,
+          amountINR: quote.amountINR,
+          merchant,
+          merchantUpiId: payoutUpiId
+        });
+        if (risk.decision === 'block') {
+          await this.recordBlockedPayment(req, walletAddress, merchant.id, risk);
+        }
+        this.riskService.assertNotBlocked(risk);
+        return risk;
       });
 
       res.json({
         success: true,
         data: {
           transactionId: payment.id,
-          amountINR,
-          stablecoinAmount,
-          exchangeRate,
+          quoteId: quote.id,
+          merchant: {
+            id: merchant.id,
+            name: merchant.name,
+            upiId: merchant.upiId,
+            verified: merchant.verified
+          },
+          merchantVerified: merchant.verified,
+          amountINR: payment.amountINR,
+          stablecoinAmount: payment.stablecoinAmount,
+          exchangeRate: payment.exchangeRate,
+          fees: payment.fees,
+          asset: payment.asset,
+          riskDecision: payment.riskDecision,
+          expiresAt: payment.expiresAt,
           escrowAddress: process.env.APTOS_ESCROW_ADDRESS
         }
       });
@@ -59,13 +172,21 @@ export class PaymentController {
       
       const payment = await this.paymentService.getPaymentById(transactionId);
       
-      if (!payment) {
+      // Other wallets' payments are reported as missing rather than forbidden
+      if (!payment || !isSessionWallet(res, payment.walletAddress)) {
         throw createError('Payment not found', 404);
       }
 
+      const timeline = await this.paymentService.getPaymentTimeline(transactionId);
+      const merchant = await this.merchantService.getMerchantById(payment.merchantId);
+
       res.json({
         success: true,
-        data: payment
+        data: {
+          ...payment,
+          merchantVerified: merchant?.verified ?? false,
+          timeline
+        }
       });
     } catch (error) {
       next(error);
@@ -80,15 +201,55 @@ export class PaymentController {
         throw createError('Missing required fields', 400);
       }
 
-      // Verify transaction on Aptos blockchain
-      const isValid = await this.aptosService.verifyTransaction(aptosTransactionHash);
-      
-      if (!isValid) {
-        throw createError('Invalid transaction', 400);
+      const existing = await this.paymentService.getPaymentById(transactionId);
+
+      if (!existing || !isSessionWallet(res, existing.walletAddress)) {
+        throw createError('Payment not found', 404);
       }
 
-      // Update payment status
-      const payment = await this.paymentService.updatePaymentStatus(transactionId, 'confirmed', aptosTransactionHash);
+      // One on-chain deposit can only ever back one payment
+      const claimedBy = await this.paymentService.getPaymentByTransactionHash(aptosTransactionHash);
+
+      if (claimedBy && claimedBy.id !== transactionId) {
+        await this.recordHashReplay(req, existing.id, existing.walletAddress, aptosTransactionHash, claimedBy.id);
+        throw createError('Aptos transaction has already been used for another payment', 409, 'transaction_hash_reused');
+      }
+
+      // The escrow indexer may already have settled the payment with this transaction
+      if (claimedBy && existing.status !== 'pending' && existing.status !== 'awaiting_topup') {
+        return res.json({
+          success: true,
+          data: existing
+        });
+      }
+
+      // Verify the deposit on Aptos blockchain against the payment record. Short
+      // deposits are not rejected here; settlement puts them in awaiting_topup.
+      const verification = await this.aptosService.verifyDeposit(aptosTransactionHash, {
+        sender: existing.walletAddress,
+        asset: existing.asset,
+        minAmount: 0
+      });
+
+      if (!verification.valid) {
+        throw new DepositVerificationError(verification);
+      }
+
+      // The unique index on the hash still guards against concurrent replays
+      let payment;
+      try {
+        payment = await this.depositSettlementService.applyDeposit(
+          existing,
+          aptosTransactionHash,
+          verification.amountReceived as number,
+          'api'
+        );
+      } catch (error) {
+        if ((error as AppError).code === 'transaction_hash_reused') {
+          await this.recordHashReplay(req, existing.id, existing.walletAddress, aptosTransactionHash);
+        }
+        throw error;
+      }
 
       res.json({
         success: true,
@@ -99,15 +260,78 @@ export class PaymentController {
     }
   };
 
+  private recordHashReplay = async (
+    req: Request,
+    paymentId: string,
+    walletAddress: string,
+    aptosTransactionHash: string,
+    originalPaymentId?: string
+  ) => {
+    try {
+      await this.securityEventService.record({
+        eventType: 'transaction_hash_replay',
+        paymentId,
+        walletAddress,
+        ipAddress: req.ip,
+        details: { aptosTransactionHash, originalPaymentId }
+      });
+    } catch (error) {
+      console.error('Error recording security event:', error);
+    }
+  };
+
+  private recordBlockedPayment = async (
+    req: Request,
+    walletAddress: string,
+    merchantId: string,
+    risk: RiskAssessment
+  ) => {
+    try {
+      await this.securityEventService.record({
+        eventType: 'payment_blocked',
+        walletAddress,
+        ipAddress: req.ip,
+        details: { merchantId, reasons: risk.reasons }
+      });
+    } catch (error) {
+      console.error('Error recording security event:', error);
+    }
+  };
+
   getPaymentHistory = async (req: Request, res: Response, next: NextFunction) => {
     try {
       const { walletAddress } = req.params;
-      const { page = 1, limit = 10 } = req.query;
+      const { page = 1, limit = 10, includeExpired } = req.query;
+
+      if (!isSessionWallet(res, walletAddress)) {
+        throw createError('Payment history is only available to the signed-in wallet', 403);
+      }
 
       const payments = await this.paymentService.getPaymentHistory(
         walletAddress,
         parseInt(page as string),
-        parseInt(limit as string)
+        parseInt(limit as string),
+        { includeExpired: includeExpired === 'true' }
+      );
+
+      res.json({
+        success: true,
+        data: payments
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  getMerchantPaymentHistory = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { page = 1, limit = 10, includeExpired } = req.query;
+
+      const payments = await this.paymentService.getMerchantPaymentHistory(
+        getApiKey(res).merchantId,
+        parseInt(page as string),
+        parseInt(limit as string),
+        { includeExpired: includeExpired === 'true' }
       );
 
       res.json({
@@ -0,0 +1,103 @@
+import { Request, Response, NextFunction } from 'express';
+import { PaymentLink, PaymentLinkService } from '../services/PaymentLinkService';
+import { MerchantService } from '../services/MerchantService';
+import { getApiKey } from '../middleware/merchantAuth';
+import { createError } from '../middleware/errorHandler';
+
+export class PaymentLinkController {
+  private paymentLinkService: PaymentLinkService;
+  private merchantService: MerchantService;
+
+  constructor() {
+    this.paymentLinkService = new PaymentLinkService();
+    this.merchantService = new MerchantService();
+  }
+
+  createLink = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { amountINR, description, multiUse, expiresAt } = req.body;
+
+      if (typeof amountINR !== 'number' || !(amountINR > 0)) {
+        throw createError('amountINR must be a positive number', 400);
+      }
+
+      const expiry = expiresAt ? new Date(expiresAt) : undefined;
+      if (expiry && (isNaN(expiry.getTime()) || expiry.getTime() <= Date.now())) {
+        throw createError('expiresAt must be a future date', 400);
+      }
+
+      const link = await this.paymentLinkService.createLink(getApiKey(res).merchantId, {
+        amountINR: Number(amountINR.toFixed(2)),
+        description,
+        multiUse: multiUse === true,
+        expiresAt: expiry
+      });
+
+      res.status(201).json({
+        success: true,
+        data: this.withCheckoutUrl(link)
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  listLinks = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { page = 1, limit = 20 } = req.query;
+
+      const result = await this.paymentLinkService.listLinks(
+        getApiKey(res).merchantId,
+        parseInt(page as string),
+        parseInt(limit as string)
+      );
+
+      res.json({
+        success: true,
+        data: {
+          ...result,
+          links: result.links.map(link => this.withCheckoutUrl(link))
+        }
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  // Public: the hosted checkout renders from this
+  getLink = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { linkId } = req.params;
+
+      const link = await this.paymentLinkService.getLinkById(linkId);
+
+      if (!link) {
+        throw createError('Payment link not found', 404);
+      }
+
+      const merchant = await this.merchantService.getMerchantById(link.merchantId);
+
+      res.json({
+        success: true,
+        data: {
+          ...this.withCheckoutUrl(link),
+          merchant: merchant && {
+            id: merchant.id,
+            name: merchant.name,
+            upiId: merchant.upiId,
+            verified: merchant.verified
+          }
+        }
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  private withCheckoutUrl(link: PaymentLink) {
+    return {
+      ...link,
+      checkoutUrl: this.paymentLinkService.getCheckoutUrl(link)
+    };
+  }
+}
@@ -0,0 +1,51 @@
+import { Request, Response, NextFunction } from 'express';
+import { OracleService } from '../services/OracleService';
+import { createError } from '../middleware/errorHandler';
+
+export class RatesController {
+  private oracleService: OracleService;
+
+  constructor() {
+    this.oracleService = new OracleService();
+  }
+
+  listRates = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const rates = await this.oracleService.listRates();
+
+      res.json({
+        success: true,
+        data: rates
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  getHistory = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { pair, from, to, interval } = req.query;
+
+      // Pairs are written with a dash in URLs, e.g. USDC-INR
+      const match = typeof pair === 'string' ? /^([A-Za-z]{2,10})-([A-Za-z]{2,10})$/.exec(pair) : null;
+      if (!match) {
+        throw createError('pair is required, e.g. USDC-INR', 400);
+      }
+
+      const history = await this.oracleService.getRateHistory(
+        match[1].toUpperCase(),
+        match[2].toUpperCase(),
+        typeof interval === 'string' ? interval : undefined,
+        typeof from === 'string' ? new Date(from) : undefined,
+        typeof to === 'string' ? new Date(to) : undefined
+      );
+
+      res.json({
+        success: true,
+        data: history
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+}
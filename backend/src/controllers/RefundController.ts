@@ -0,0 +1,73 @@
+import { Request, Response, NextFunction } from 'express';
+import { RefundService } from '../services/RefundService';
+import { EscrowIndexerService } from '../services/EscrowIndexerService';
+import { createError } from '../middleware/errorHandler';
+
+export class RefundController {
+  private refundService: RefundService;
+  private escrowIndexerService: EscrowIndexerService;
+
+  constructor() {
+    this.refundService = new RefundService();
+    this.escrowIndexerService = new EscrowIndexerService();
+  }
+
+  createRefund = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { transactionId, reason } = req.body;
+
+      if (!transactionId || !reason) {
+        throw createError('Missing required fields', 400);
+      }
+
+      const refund = await this.refundService.refundPayment(transactionId, {
+        actor: 'operator',
+        reason
+      });
+
+      res.json({
+        success: true,
+        data: refund
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  getRefund = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { transactionId } = req.params;
+
+      const refund = await this.refundService.getRefundByPaymentId(transactionId);
+
+      if (!refund) {
+        throw createError('Refund not found', 404);
+      }
+
+      res.json({
+        success: true,
+        data: refund
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  listDepositsForReview = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { page = 1, limit = 20 } = req.query;
+
+      const deposits = await this.escrowIndexerService.listDepositsForReview(
+        parseInt(page as string),
+        parseInt(limit as string)
+      );
+
+      res.json({
+        success: true,
+        data: deposits
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+}
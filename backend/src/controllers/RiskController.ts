@@ -0,0 +1,111 @@
+import { Request, Response, NextFunction } from 'express';
+import { RiskService, WalletTier } from '../services/RiskService';
+import { PaymentService } from '../services/PaymentService';
+import { createError } from '../middleware/errorHandler';
+
+// Payments whose hold can still be rejected by failing them
+const REJECTABLE_STATUSES = ['pending', 'awaiting_topup', 'confirmed'];
+
+export class RiskController {
+  private riskService: RiskService;
+  private paymentService: PaymentService;
+
+  constructor() {
+    this.riskService = new RiskService();
+    this.paymentService = new PaymentService();
+  }
+
+  listHeldPayments = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { page = 1, limit = 20 } = req.query;
+
+      const payments = await this.paymentService.getHeldPayments(
+        parseInt(page as string),
+        parseInt(limit as string)
+      );
+
+      res.json({
+        success: true,
+        data: payments
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  releasePayment = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { paymentId } = req.params;
+      const { reviewer } = req.body;
+
+      await this.riskService.releaseHold(paymentId, reviewer || 'admin');
+
+      res.json({
+        success: true,
+        data: await this.paymentService.getPaymentById(paymentId)
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  rejectPayment = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { paymentId } = req.params;
+      const { reviewer, reason } = req.body;
+
+      await this.riskService.rejectHold(paymentId, reviewer || 'admin');
+
+      // Failed payments with a deposit can then be refunded through the refunds API
+      let payment = await this.paymentService.getPaymentById(paymentId);
+      if (payment && REJECTABLE_STATUSES.includes(payment.status)) {
+        payment = await this.paymentService.updatePaymentStatus(paymentId, 'failed', {
+          actor: 'admin',
+          reason: `Rejected in risk review${reason ? `: ${reason}` : ''}`
+        });
+      }
+
+      res.json({
+        success: true,
+        data: payment
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  getWalletTier = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { walletAddress } = req.params;
+
+      const tier = await this.riskService.getWalletTier(walletAddress);
+
+      res.json({
+        success: true,
+        data: { walletAddress, tier, limits: this.riskService.getTierLimits(tier) }
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  setWalletTier = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { walletAddress } = req.params;
+      const { tier } = req.body;
+
+      if (!tier) {
+        throw createError('Missing required fields', 400);
+      }
+
+      await this.riskService.setWalletTier(walletAddress, tier as WalletTier);
+
+      res.json({
+        success: true,
+        data: { walletAddress, tier, limits: this.riskService.getTierLimits(tier) }
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+}
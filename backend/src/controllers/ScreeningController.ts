@@ -0,0 +1,112 @@
+import { Request, Response, NextFunction } from 'express';
+import { ScreeningListType, ScreeningMatchType, ScreeningService } from '../services/ScreeningService';
+import { SecurityEventService } from '../services/SecurityEventService';
+import { createError } from '../middleware/errorHandler';
+
+export class ScreeningController {
+  private screeningService: ScreeningService;
+  private securityEventService: SecurityEventService;
+
+  constructor() {
+    this.screeningService = new ScreeningService();
+    this.securityEventService = new SecurityEventService();
+  }
+
+  listEntries = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { page = 1, limit = 50, listType } = req.query;
+
+      const entries = await this.screeningService.listEntries(
+        parseInt(page as string),
+        parseInt(limit as string),
+        { listType: listType as ScreeningListType | undefined }
+      );
+
+      res.json({
+        success: true,
+        data: entries
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  addEntry = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { listType, matchType, value, reason, createdBy } = req.body;
+
+      if (!listType || !value) {
+        throw createError('Missing required fields', 400);
+      }
+
+      const entry = await this.screeningService.addEntry({
+        listType: listType as ScreeningListType,
+        matchType: matchType as ScreeningMatchType | undefined,
+        value,
+        reason,
+        createdBy: createdBy || 'admin'
+      });
+
+      res.status(201).json({
+        success: true,
+        data: entry
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  removeEntry = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { entryId } = req.params;
+
+      await this.screeningService.removeEntry(entryId);
+
+      res.json({
+        success: true,
+        data: { id: entryId }
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  // Dry run against the current lists; nothing is logged
+  check = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { walletAddress, vpa } = req.body;
+
+      if (!walletAddress && !vpa) {
+        throw createError('walletAddress or vpa is required', 400);
+      }
+
+      const result = await this.screeningService.screen({ walletAddress, vpa });
+
+      res.json({
+        success: true,
+        data: result
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  listBlockedAttempts = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { page = 1, limit = 20 } = req.query;
+
+      const events = await this.securityEventService.listEvents(
+        parseInt(page as string),
+        parseInt(limit as string),
+        { eventType: 'screening_blocked' }
+      );
+
+      res.json({
+        success: true,
+        data: events
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+}
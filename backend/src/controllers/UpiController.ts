@@ -1,53 +1,88 @@
 import { Request, Response, NextFunction } from 'express';
 import { UpiService } from '../services/UpiService';
 import { PaymentService } from '../services/PaymentService';
+import { PayoutQueueService } from '../services/PayoutQueueService';
+import { UpiWebhookEventService } from '../services/UpiWebhookEventService';
+import { isValidVpa, normalizeVpa } from '../services/MerchantService';
+import { PayoutProviderName } from '../services/PayoutProviders';
 import { createError } from '../middleware/errorHandler';
+import { getApiKey } from '../middleware/merchantAuth';
 
 export class UpiController {
   private upiService: UpiService;
   private paymentService: PaymentService;
+  private payoutQueueService: PayoutQueueService;
+  private webhookEventService: UpiWebhookEventService;
 
   constructor() {
     this.upiService = new UpiService();
     this.paymentService = new PaymentService();
+    this.payoutQueueService = new PayoutQueueService();
+    this.webhookEventService = new UpiWebhookEventService();
   }
 
   initiateUpiPayout = async (req: Request, res: Response, next: NextFunction) => {
     try {
-      const { transactionId, merchantUpiId, amountINR } = req.body;
+      const { transactionId } = req.body;
 
-      if (!transactionId || !merchantUpiId || !amountINR) {
+      if (!transactionId) {
         throw createError('Missing required fields', 400);
       }
 
       // Verify payment exists and is confirmed
       const payment = await this.paymentService.getPaymentById(transactionId);
       
-      if (!payment) {
+      // Other merchants' payments are reported as missing rather than forbidden
+      if (!payment || payment.merchantId !== getApiKey(res).merchantId) {
         throw createError('Payment not found', 404);
       }
 
-      if (payment.status !== 'confirmed') {
-        throw createError('Payment not confirmed yet', 400);
+      // Payouts are normally queued on confirmation; this only makes sure a job exists
+      let job = await this.payoutQueueService.getJobByPaymentId(transactionId);
+
+      if (!job) {
+        if (payment.status !== 'confirmed') {
+          throw createError('Payment not confirmed yet', 400);
+        }
+        job = await this.payoutQueueService.enqueue(transactionId);
       }
 
-      // Initiate UPI payout
-      const payout = await this.upiService.initiatePayout({
-        transactionId,
-        merchantUpiId,
-        amount: amountINR,
-        currency: 'INR'
+      res.status(202).json({
+        success: true,
+        data: {
+          jobId: job.id,
+          status: job.status,
+          attempts: job.attempts,
+          message: 'UPI payout queued'
+        }
       });
+    } catch (error) {
+      next(error);
+    }
+  };
 
-      // Update payment with payout info
-      await this.paymentService.updatePaymentPayout(transactionId, payout.payoutId);
+  getPayoutJob = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { transactionId } = req.params;
+
+      const payment = await this.paymentService.getPaymentById(transactionId);
+      if (!payment || payment.merchantId !== getApiKey(res).merchantId) {
+        throw createError('Payout job not found', 404);
+      }
+
+      const job = await this.payoutQueueService.getJobByPaymentId(transactionId);
+
+      if (!job) {
+        throw createError('Payout job not found', 404);
+      }
+
+      const attempts = await this.payoutQueueService.getAttempts(transactionId);
 
       res.json({
         success: true,
         data: {
-          payoutId: payout.payoutId,
-          status: payout.status,
-          message: 'UPI payout initiated successfully'
+          ...job,
+          attempts
         }
       });
     } catch (error) {
@@ -55,9 +90,70 @@ export class UpiController {
     }
   };
 
+  getDeadLetterPayouts = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { page = 1, limit = 20 } = req.query;
+
+      const result = await this.payoutQueueService.getDeadJobs(
+        parseInt(page as string),
+        parseInt(limit as string)
+      );
+
+      res.json({
+        success: true,
+        data: result
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  verifyVpa = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const vpa = normalizeVpa(req.params.vpa);
+
+      if (!isValidVpa(vpa)) {
+        throw createError('Invalid UPI ID', 400, 'invalid_vpa');
+      }
+
+      const beneficiary = await this.upiService.verifyBeneficiary(vpa);
+
+      if (!beneficiary) {
+        throw createError('UPI ID verification is unavailable, please try again later', 503, 'vpa_verification_unavailable');
+      }
+
+      res.json({
+        success: true,
+        data: beneficiary
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  getPayoutBalance = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { provider } = req.query;
+
+      const balance = await this.upiService.getBalance(provider as PayoutProviderName | undefined);
+
+      res.json({
+        success: true,
+        data: balance
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
   getUpiPayoutStatus = async (req: Request, res: Response, next: NextFunction) => {
     try {
       const { payoutId } = req.params;
+
+      const payment = await this.paymentService.getPaymentByPayoutId(payoutId);
+      if (!payment || payment.merchantId !== getApiKey(res).merchantId) {
+        throw createError('Payout not found', 404);
+      }
       
       const payoutStatus = await this.upiService.getPayoutStatus(payoutId);
       
@@ -76,30 +172,79 @@ export class UpiController {
 
   handleUpiWebhook = async (req: Request, res: Response, next: NextFunction) => {
     try {
-      const { payoutId, status, transactionId } = req.body;
-
-      // Verify webhook signature (implement based on UPI provider)
-      // const isValidSignature = this.upiService.verifyWebhookSignature(req);
-      // if (!isValidSignature) {
-      //   throw createError('Invalid webhook signature', 401);
-      // }
-
-      // Update payment status based on UPI payout status
-      let paymentStatus = 'pending';
-      if (status === 'SUCCESS') {
-        paymentStatus = 'completed';
-      } else if (status === 'FAILED') {
-        paymentStatus = 'failed';
+      // The route is mounted with a raw body parser so the signature covers the exact bytes sent
+      const rawBody: Buffer = Buffer.isBuffer(req.body) ? req.body : Buffer.from('');
+
+      // Each provider signs and shapes its webhooks differently; events come back in our terms
+      const { eventId, payoutId, status, failureReason, providerTransactionId, payload } =
+        await this.upiService.parseWebhook(req.params.provider, rawBody, name => req.get(name));
+
+      const isNewEvent = await this.webhookEventService.recordEvent(eventId, payoutId, status, payload);
+
+      if (!isNewEvent) {
+        res.json({
+          success: true,
+          message: 'Webhook already processed'
+        });
+        return;
       }
 
-      await this.paymentService.updatePaymentStatus(transactionId, paymentStatus);
+      let outcome: string;
+      try {
+        outcome = await this.applyPayoutUpdate(payoutId, status, failureReason, providerTransactionId);
+        await this.webhookEventService.markProcessed(eventId, outcome);
+      } catch (error) {
+        await this.webhookEventService.release(eventId);
+        throw error;
+      }
 
       res.json({
         success: true,
-        message: 'Webhook processed successfully'
+        message: outcome
       });
     } catch (error) {
       next(error);
     }
   };
+
+  private applyPayoutUpdate = async (
+    payoutId: string,
+    status: string,
+    failureReason?: string,
+    providerTransactionId?: string
+  ): Promise<string> => {
+    // Only trust the payout id we stored ourselves, never a client-supplied payment id
+    const payment = await this.paymentService.getPaymentByPayoutId(payoutId);
+
+    if (!payment) {
+      console.warn(`UPI webhook for unknown or superseded payout ${payoutId}`);
+      return 'Payout not found, ignored';
+    }
+
+    const isFinal = status === 'SUCCESS' || status === 'FAILED';
+
+    // The payout was sent but the queue hasn't recorded it as initiated yet
+    if (isFinal && payment.status === 'confirmed') {
+      const attempt = (await this.payoutQueueService.getAttempts(payment.id))
+        .find(attempt => attempt.payoutId === payoutId);
+      if (attempt?.status === 'pending') {
+        // Released rather than processed, so that the provider's redelivery is applied
+        throw createError('Payout is not ready for this update yet', 409, 'payout_in_flight');
+      }
+    }
+
+    // Pending payouts and late deliveries for payments that moved on leave the payment where it is
+    if (payment.status !== 'payout_initiated' || !isFinal) {
+      return `No transition for ${status} while payment is ${payment.status}`;
+    }
+
+    if (status === 'SUCCESS') {
+      await this.payoutQueueService.completePayout(payment.id, payoutId, providerTransactionId, 'upi_webhook');
+      return 'Payment completed';
+    }
+
+    // Retried by the payout queue until attempts run out
+    await this.payoutQueueService.handlePayoutFailure(payment.id, payoutId, failureReason || 'Payout failed');
+    return 'Payout failure recorded';
+  };
 }
\ No newline at end of file
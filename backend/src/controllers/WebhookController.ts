@@ -0,0 +1,131 @@
+import { Request, Response, NextFunction } from 'express';
+import { WebhookEventStatus, WebhookService } from '../services/WebhookService';
+import { getApiKey } from '../middleware/merchantAuth';
+import { createError } from '../middleware/errorHandler';
+
+const EVENT_STATUSES: WebhookEventStatus[] = ['pending', 'delivering', 'delivered', 'failed'];
+
+export class WebhookController {
+  private webhookService: WebhookService;
+
+  constructor() {
+    this.webhookService = new WebhookService();
+  }
+
+  createEndpoint = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { url, description } = req.body;
+
+      if (!url) {
+        throw createError('Missing required fields', 400);
+      }
+
+      const { endpoint, secret } = await this.webhookService.createEndpoint(getApiKey(res).merchantId, {
+        url,
+        description
+      });
+
+      res.status(201).json({
+        success: true,
+        data: {
+          ...endpoint,
+          signingSecret: secret
+        }
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  listEndpoints = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const endpoints = await this.webhookService.listEndpoints(getApiKey(res).merchantId);
+
+      res.json({
+        success: true,
+        data: endpoints
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  disableEndpoint = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const endpoint = await this.webhookService.disableEndpoint(getApiKey(res).merchantId, req.params.endpointId);
+
+      res.json({
+        success: true,
+        data: endpoint
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  rotateSecret = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const secret = await this.webhookService.rotateSigningSecret(getApiKey(res).merchantId);
+
+      res.json({
+        success: true,
+        data: { signingSecret: secret }
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  listEvents = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { page = 1, limit = 20, status, paymentId } = req.query;
+
+      if (status && !EVENT_STATUSES.includes(status as WebhookEventStatus)) {
+        throw createError(`status must be one of ${EVENT_STATUSES.join(', ')}`, 400);
+      }
+
+      const events = await this.webhookService.listEvents(
+        getApiKey(res).merchantId,
+        parseInt(page as string),
+        parseInt(limit as string),
+        {
+          status: status as WebhookEventStatus | undefined,
+          paymentId: paymentId as string | undefined
+        }
+      );
+
+      res.json({
+        success: true,
+        data: events
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  getDeliveries = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const deliveries = await this.webhookService.getDeliveries(getApiKey(res).merchantId, req.params.eventId);
+
+      res.json({
+        success: true,
+        data: deliveries
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  redeliverEvent = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const delivery = await this.webhookService.redeliver(getApiKey(res).merchantId, req.params.eventId);
+
+      res.json({
+        success: true,
+        data: delivery
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+}
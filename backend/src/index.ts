@@ -3,8 +3,25 @@ import cors from 'cors';
 import dotenv from 'dotenv';
 import paymentRoutes from './routes/payment';
 import upiRoutes from './routes/upi';
+import refundRoutes from './routes/refund';
+import merchantRoutes from './routes/merchant';
+import apiKeyRoutes from './routes/apiKey';
+import authRoutes from './routes/auth';
+import paymentLinkRoutes from './routes/paymentLink';
+import webhookRoutes from './routes/webhook';
+import notificationRoutes from './routes/notification';
+import ratesRoutes from './routes/rates';
+import riskRoutes from './routes/risk';
+import screeningRoutes from './routes/screening';
 import { errorHandler } from './middleware/errorHandler';
 import { logger } from './middleware/logger';
+import { captureRawBody } from './middleware/merchantAuth';
+import { PayoutWorker } from './workers/PayoutWorker';
+import { EscrowIndexerWorker } from './workers/EscrowIndexerWorker';
+import { PaymentExpiryWorker } from './workers/PaymentExpiryWorker';
+import { WebhookWorker } from './workers/WebhookWorker';
+import { NotificationWorker } from './workers/NotificationWorker';
+import { RefundWorker } from './workers/RefundWorker';
 
 // Load environment variables
 dotenv.config();
@@ -14,7 +31,9 @@ const PORT = process.env.PORT || 3001;
 
 // Middleware
 app.use(cors());
-app.use(express.json());
+// Webhooks are signed over the raw body, so parse it before the JSON parser can
+app.use('/api/upi/webhook', express.raw({ type: '*/*' }));
+app.use(express.json({ verify: captureRawBody }));
 app.use(logger);
 
 // Health check endpoint
@@ -25,6 +44,16 @@ app.get('/health', (req, res) => {
 // API Routes
 app.use('/api/payment', paymentRoutes);
 app.use('/api/upi', upiRoutes);
+app.use('/api/refunds', refundRoutes);
+app.use('/api/merchants', merchantRoutes);
+app.use('/api/api-keys', apiKeyRoutes);
+app.use('/api/auth', authRoutes);
+app.use('/api/payment-links', paymentLinkRoutes);
+app.use('/api/webhooks', webhookRoutes);
+app.use('/api/notifications', notificationRoutes);
+app.use('/api/rates', ratesRoutes);
+app.use('/api/risk', riskRoutes);
+app.use('/api/screening', screeningRoutes);
 
 // Error handling middleware
 app.use(errorHandler);
@@ -37,6 +66,30 @@ app.use('*', (req, res) => {
 app.listen(PORT, () => {
   console.log(`🚀 AptPay Backend Server running on port ${PORT}`);
   console.log(`📊 Health check: http://localhost:${PORT}/health`);
+
+  if (process.env.PAYOUT_WORKER_ENABLED !== 'false') {
+    new PayoutWorker().start();
+  }
+
+  if (process.env.ESCROW_INDEXER_ENABLED !== 'false') {
+    new EscrowIndexerWorker().start();
+  }
+
+  if (process.env.PAYMENT_SWEEPER_ENABLED !== 'false') {
+    new PaymentExpiryWorker().start();
+  }
+
+  if (process.env.WEBHOOK_WORKER_ENABLED !== 'false') {
+    new WebhookWorker().start();
+  }
+
+  if (process.env.NOTIFICATION_WORKER_ENABLED !== 'false') {
+    new NotificationWorker().start();
+  }
+
+  if (process.env.REFUND_WORKER_ENABLED !== 'false') {
+    new RefundWorker().start();
+  }
 });
 
 export default app;
\ No newline at end of file
@@ -0,0 +1,26 @@
+import { Request, Response, NextFunction } from 'express';
+import crypto from 'crypto';
+import { createError } from './errorHandler';
+
+/**
+ * Guard for operator-only routes. Requests must carry the shared
+ * `ADMIN_API_TOKEN` in the `X-Admin-Token` header.
+ */
+export const adminAuth = (req: Request, res: Response, next: NextFunction) => {
+  const expected = process.env.ADMIN_API_TOKEN;
+  const provided = req.get('X-Admin-Token');
+
+  if (!expected) {
+    return next(createError('Admin API is not configured', 503));
+  }
+
+  // Digests are always the same length, so timingSafeEqual can't throw on multibyte input
+  const digest = (value: string) => crypto.createHash('sha256').update(value).digest();
+  const isValid = !!provided && crypto.timingSafeEqual(digest(provided), digest(expected));
+
+  if (!isValid) {
+    return next(createError('Unauthorized', 401));
+  }
+
+  next();
+};
@@ -3,6 +3,8 @@ import { Request, Response, NextFunction } from 'express';
 export interface AppError extends Error {
   statusCode?: number;
   isOperational?: boolean;
+  // Machine-readable reason, returned to clients alongside the message
+  code?: string;
 }
 
 export const errorHandler = (
@@ -20,14 +22,16 @@ export const errorHandler = (
   res.status(statusCode).json({
     error: {
       message,
+      ...(err.code && { code: err.code }),
       ...(process.env.NODE_ENV === 'development' && { stack: err.stack })
     }
   });
 };
 
-export const createError = (message: string, statusCode: number = 500): AppError => {
+export const createError = (message: string, statusCode: number = 500, code?: string): AppError => {
   const error = new Error(message) as AppError;
   error.statusCode = statusCode;
   error.isOperational = true;
+  error.code = code;
   return error;
 };
\ No newline at end of file
@@ -0,0 +1,85 @@
+import { Request, Response, NextFunction } from 'express';
+import crypto from 'crypto';
+import { IdempotencyService } from '../services/IdempotencyService';
+import { createError } from './errorHandler';
+
+const idempotencyService = new IdempotencyService();
+
+const MAX_KEY_LENGTH = 255;
+
+// JSON.stringify with sorted object keys so that field order does not change the fingerprint
+const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+
+  return JSON.stringify(value) ?? 'null';
+};
+
+const fingerprintRequest = (req: Request): string => {
+  return crypto
+    .createHash('sha256')
+    .update(`${req.method} ${req.baseUrl}${req.path}\n${stableStringify(req.body ?? {})}`)
+    .digest('hex');
+};
+
+/**
+ * Honour the `Idempotency-Key` header: the first response for a key is
+ * stored and replayed for retries with the same body, while a retry with a
+ * different body is rejected with 409. Requests without the header pass through.
+ */
+export const idempotency = (scope: string) => {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const key = req.get('Idempotency-Key');
+
+    if (!key) {
+      return next();
+    }
+
+    try {
+      if (key.length > MAX_KEY_LENGTH) {
+        throw createError(`Idempotency-Key must be at most ${MAX_KEY_LENGTH} characters`, 400);
+      }
+
+      const fingerprint = fingerprintRequest(req);
+      const existing = await idempotencyService.claim(scope, key, fingerprint);
+
+      if (existing) {
+        if (existing.fingerprint !== fingerprint) {
+          throw createError('Idempotency-Key was already used with a different request body', 409);
+        }
+
+        if (existing.status === 'in_progress') {
+          throw createError('A request with this Idempotency-Key is still being processed', 409);
+        }
+
+        res.set('Idempotent-Replayed', 'true');
+        res.status(existing.responseStatus || 200).json(existing.responseBody);
+        return;
+      }
+
+      // Capture the first response so that retries can replay it
+      const originalJson = res.json.bind(res);
+      res.json = (body: unknown) => {
+        const statusCode = res.statusCode;
+        const settle = statusCode >= 500
+          ? idempotencyService.release(scope, key)
+          : idempotencyService.complete(scope, key, statusCode, body);
+
+        settle.catch(error => console.error('Error storing idempotent response:', error));
+        return originalJson(body);
+      };
+
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+};
@@ -0,0 +1,57 @@
+import { Request, Response, NextFunction } from 'express';
+import { IncomingMessage } from 'http';
+import { ApiKey, ApiKeyPermission, ApiKeyService } from '../services/ApiKeyService';
+import { createError } from './errorHandler';
+
+const apiKeyService = new ApiKeyService();
+
+type RequestWithRawBody = IncomingMessage & { rawBody?: Buffer };
+
+/**
+ * `verify` hook for the JSON body parser that keeps the exact bytes received,
+ * since request signatures are computed over the raw body.
+ */
+export const captureRawBody = (req: IncomingMessage, res: unknown, buf: Buffer) => {
+  (req as RequestWithRawBody).rawBody = buf;
+};
+
+/**
+ * Authenticate a merchant request signed with an API key and require the
+ * given permission. Expects `X-Api-Key`, `X-Timestamp`, `X-Nonce` and
+ * `X-Signature` headers; the key is exposed as `res.locals.apiKey`.
+ */
+export const merchantAuth = (permission: ApiKeyPermission) => {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const apiKey = req.get('X-Api-Key');
+      const timestamp = req.get('X-Timestamp');
+      const nonce = req.get('X-Nonce');
+      const signature = req.get('X-Signature');
+
+      if (!apiKey || !timestamp || !nonce || !signature) {
+        throw createError('Missing API key signature headers', 401);
+      }
+
+      const key = await apiKeyService.authenticate({
+        apiKey,
+        timestamp,
+        nonce,
+        signature,
+        method: req.method,
+        path: req.originalUrl,
+        body: (req as unknown as RequestWithRawBody).rawBody || Buffer.from('')
+      });
+
+      if (!apiKeyService.hasPermission(key, permission)) {
+        throw createError(`API key lacks the ${permission} permission`, 403, 'insufficient_permissions');
+      }
+
+      res.locals.apiKey = key;
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+};
+
+export const getApiKey = (res: Response): ApiKey => res.locals.apiKey as ApiKey;
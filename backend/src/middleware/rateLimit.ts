@@ -0,0 +1,49 @@
+import { Request, Response, NextFunction } from 'express';
+import { createError } from './errorHandler';
+
+interface RateLimitWindow {
+  count: number;
+  resetAt: number;
+}
+
+// Past this many tracked clients, expired windows are swept on the next request
+const SWEEP_THRESHOLD = 10000;
+
+/**
+ * Allow each client IP at most `max` requests per `windowMs` on the routes
+ * it guards, answering 429 with `Retry-After` beyond that. Counts are kept
+ * in memory, so each server instance enforces its own limit.
+ */
+export const rateLimit = (options: { max: number; windowMs: number }) => {
+  const windows = new Map<string, RateLimitWindow>();
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    const now = Date.now();
+    const key = req.ip || 'unknown';
+
+    if (windows.size > SWEEP_THRESHOLD) {
+      for (const [client, window] of windows) {
+        if (window.resetAt <= now) {
+          windows.delete(client);
+        }
+      }
+    }
+
+    let window = windows.get(key);
+    if (!window || window.resetAt <= now) {
+      window = { count: 0, resetAt: now + options.windowMs };
+      windows.set(key, window);
+    }
+
+    window.count += 1;
+    res.setHeader('RateLimit-Limit', options.max);
+    res.setHeader('RateLimit-Remaining', Math.max(options.max - window.count, 0));
+
+    if (window.count > options.max) {
+      res.setHeader('Retry-After', Math.ceil((window.resetAt - now) / 1000));
+      return next(createError('Too many requests, please try again later', 429, 'rate_limited'));
+    }
+
+    next();
+  };
+};
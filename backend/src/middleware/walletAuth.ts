@@ -0,0 +1,35 @@
+import { Request, Response, NextFunction } from 'express';
+import { WalletAuthService } from '../services/WalletAuthService';
+import { normalizeAddress } from '../services/AptosService';
+import { createError } from './errorHandler';
+
+const walletAuthService = new WalletAuthService();
+
+/**
+ * Require a wallet session from `POST /api/auth/verify`, sent as
+ * `Authorization: Bearer <token>`. The wallet is exposed as
+ * `res.locals.walletAddress`.
+ */
+export const walletAuth = (req: Request, res: Response, next: NextFunction) => {
+  const [scheme, token] = (req.get('Authorization') || '').split(' ');
+
+  if (scheme !== 'Bearer' || !token) {
+    return next(createError('Wallet sign-in required', 401));
+  }
+
+  try {
+    res.locals.walletAddress = walletAuthService.verifyToken(token);
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Whether an address from a request or record is the signed-in wallet
+export const isSessionWallet = (res: Response, address: string): boolean => {
+  try {
+    return normalizeAddress(address) === res.locals.walletAddress;
+  } catch {
+    return false;
+  }
+};
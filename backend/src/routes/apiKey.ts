@@ -0,0 +1,20 @@
+import express from 'express';
+import { ApiKeyController } from '../controllers/ApiKeyController';
+import { merchantAuth } from '../middleware/merchantAuth';
+
+const router = express.Router();
+const apiKeyController = new ApiKeyController();
+
+// GET /api/api-keys - List the calling merchant's API keys
+router.get('/', merchantAuth('keys:read'), apiKeyController.listKeys);
+
+// POST /api/api-keys - Create an API key
+router.post('/', merchantAuth('keys:write'), apiKeyController.createKey);
+
+// POST /api/api-keys/:keyId/rotate - Replace an API key, keeping the old one for a grace period
+router.post('/:keyId/rotate', merchantAuth('keys:write'), apiKeyController.rotateKey);
+
+// DELETE /api/api-keys/:keyId - Revoke an API key
+router.delete('/:keyId', merchantAuth('keys:write'), apiKeyController.revokeKey);
+
+export default router;
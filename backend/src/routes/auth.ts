@@ -0,0 +1,13 @@
+import express from 'express';
+import { AuthController } from '../controllers/AuthController';
+
+const router = express.Router();
+const authController = new AuthController();
+
+// POST /api/auth/challenge - Issue a sign-in challenge for a wallet
+router.post('/challenge', authController.createChallenge);
+
+// POST /api/auth/verify - Exchange a signed challenge for a session token
+router.post('/verify', authController.verifyChallenge);
+
+export default router;
@@ -0,0 +1,40 @@
+import express from 'express';
+import { MerchantController } from '../controllers/MerchantController';
+import { ApiKeyController } from '../controllers/ApiKeyController';
+import { adminAuth } from '../middleware/adminAuth';
+
+const router = express.Router();
+const merchantController = new MerchantController();
+const apiKeyController = new ApiKeyController();
+
+// Merchant records, including verification, are managed by operators
+router.use(adminAuth);
+
+// GET /api/merchants - List merchants
+router.get('/', merchantController.listMerchants);
+
+// POST /api/merchants - Create merchant
+router.post('/', merchantController.createMerchant);
+
+// GET /api/merchants/:merchantId - Get merchant by id or UPI ID
+router.get('/:merchantId', merchantController.getMerchant);
+
+// PATCH /api/merchants/:merchantId - Update merchant
+router.patch('/:merchantId', merchantController.updateMerchant);
+
+// DELETE /api/merchants/:merchantId - Delete merchant without payments
+router.delete('/:merchantId', merchantController.deleteMerchant);
+
+// GET /api/merchants/:merchantId/api-keys - List a merchant's API keys
+router.get('/:merchantId/api-keys', apiKeyController.listKeys);
+
+// POST /api/merchants/:merchantId/api-keys - Issue an API key, e.g. a merchant's first
+router.post('/:merchantId/api-keys', apiKeyController.createKey);
+
+// POST /api/merchants/:merchantId/api-keys/:keyId/rotate - Rotate a merchant's API key
+router.post('/:merchantId/api-keys/:keyId/rotate', apiKeyController.rotateKey);
+
+// DELETE /api/merchants/:merchantId/api-keys/:keyId - Revoke a merchant's API key
+router.delete('/:merchantId/api-keys/:keyId', apiKeyController.revokeKey);
+
+export default router;
@@ -0,0 +1,18 @@
+import express from 'express';
+import { NotificationController } from '../controllers/NotificationController';
+import { walletAuth } from '../middleware/walletAuth';
+import { adminAuth } from '../middleware/adminAuth';
+
+const router = express.Router();
+const notificationController = new NotificationController();
+
+// POST /api/notifications/push-subscriptions - Receive Web Push notifications for the signed-in wallet
+router.post('/push-subscriptions', walletAuth, notificationController.subscribePush);
+
+// DELETE /api/notifications/push-subscriptions - Stop Web Push notifications to a browser
+router.delete('/push-subscriptions', walletAuth, notificationController.unsubscribePush);
+
+// GET /api/notifications - List notifications and their delivery status (operators only)
+router.get('/', adminAuth, notificationController.listNotifications);
+
+export default router;
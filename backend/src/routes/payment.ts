@@ -1,19 +1,28 @@
 import express from 'express';
 import { PaymentController } from '../controllers/PaymentController';
+import { idempotency } from '../middleware/idempotency';
+import { merchantAuth } from '../middleware/merchantAuth';
+import { walletAuth } from '../middleware/walletAuth';
 
 const router = express.Router();
 const paymentController = new PaymentController();
 
+// POST /api/payment/quote - Lock an exchange-rate quote
+router.post('/quote', paymentController.createQuote);
+
 // POST /api/payment/initiate - Initiate payment
-router.post('/initiate', paymentController.initiatePayment);
+router.post('/initiate', idempotency('payment:initiate'), paymentController.initiatePayment);
 
 // GET /api/payment/status/:transactionId - Get payment status
-router.get('/status/:transactionId', paymentController.getPaymentStatus);
+router.get('/status/:transactionId', walletAuth, paymentController.getPaymentStatus);
 
 // POST /api/payment/confirm - Confirm payment from blockchain
-router.post('/confirm', paymentController.confirmPayment);
+router.post('/confirm', walletAuth, paymentController.confirmPayment);
 
 // GET /api/payment/history/:walletAddress - Get payment history
-router.get('/history/:walletAddress', paymentController.getPaymentHistory);
+router.get('/history/:walletAddress', walletAuth, paymentController.getPaymentHistory);
+
+// GET /api/payment/merchant/history - Get the calling merchant's payments
+router.get('/merchant/history', merchantAuth('payments:read'), paymentController.getMerchantPaymentHistory);
 
 export default router;
\ No newline at end of file
@@ -0,0 +1,17 @@
+import express from 'express';
+import { PaymentLinkController } from '../controllers/PaymentLinkController';
+import { merchantAuth } from '../middleware/merchantAuth';
+
+const router = express.Router();
+const paymentLinkController = new PaymentLinkController();
+
+// GET /api/payment-links - List the calling merchant's payment links
+router.get('/', merchantAuth('payment_links:read'), paymentLinkController.listLinks);
+
+// POST /api/payment-links - Create a payment link
+router.post('/', merchantAuth('payment_links:write'), paymentLinkController.createLink);
+
+// GET /api/payment-links/:linkId - Get a payment link and its status (open, paid, expired)
+router.get('/:linkId', paymentLinkController.getLink);
+
+export default router;
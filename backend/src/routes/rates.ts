@@ -0,0 +1,13 @@
+import express from 'express';
+import { RatesController } from '../controllers/RatesController';
+
+const router = express.Router();
+const ratesController = new RatesController();
+
+// GET /api/rates - List supported pairs with their current rates and freshness
+router.get('/', ratesController.listRates);
+
+// GET /api/rates/history - OHLC history of a pair, e.g. ?pair=USDC-INR&interval=1h
+router.get('/history', ratesController.getHistory);
+
+export default router;
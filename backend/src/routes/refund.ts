@@ -0,0 +1,20 @@
+import express from 'express';
+import { RefundController } from '../controllers/RefundController';
+import { adminAuth } from '../middleware/adminAuth';
+
+const router = express.Router();
+const refundController = new RefundController();
+
+// Refunds are operator actions
+router.use(adminAuth);
+
+// POST /api/refunds - Refund a failed payment to the paying wallet
+router.post('/', refundController.createRefund);
+
+// GET /api/refunds/deposits - List escrow deposits held for review, which match no payment or kept failing to settle
+router.get('/deposits', refundController.listDepositsForReview);
+
+// GET /api/refunds/:transactionId - Get the refund for a payment
+router.get('/:transactionId', refundController.getRefund);
+
+export default router;
@@ -0,0 +1,26 @@
+import express from 'express';
+import { RiskController } from '../controllers/RiskController';
+import { adminAuth } from '../middleware/adminAuth';
+
+const router = express.Router();
+const riskController = new RiskController();
+
+// Risk review is an operator task
+router.use(adminAuth);
+
+// GET /api/risk/held-payments - List payments on risk hold
+router.get('/held-payments', riskController.listHeldPayments);
+
+// POST /api/risk/held-payments/:paymentId/release - Release a hold and queue the payout
+router.post('/held-payments/:paymentId/release', riskController.releasePayment);
+
+// POST /api/risk/held-payments/:paymentId/reject - Reject a held payment and fail it
+router.post('/held-payments/:paymentId/reject', riskController.rejectPayment);
+
+// GET /api/risk/wallets/:walletAddress - Get a wallet's limit tier
+router.get('/wallets/:walletAddress', riskController.getWalletTier);
+
+// PUT /api/risk/wallets/:walletAddress - Set a wallet's limit tier
+router.put('/wallets/:walletAddress', riskController.setWalletTier);
+
+export default router;
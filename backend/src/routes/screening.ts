@@ -0,0 +1,26 @@
+import express from 'express';
+import { ScreeningController } from '../controllers/ScreeningController';
+import { adminAuth } from '../middleware/adminAuth';
+
+const router = express.Router();
+const screeningController = new ScreeningController();
+
+// Denylists are managed by operators
+router.use(adminAuth);
+
+// GET /api/screening/entries - List denylist entries, e.g. ?listType=vpa
+router.get('/entries', screeningController.listEntries);
+
+// POST /api/screening/entries - Add a wallet or VPA entry
+router.post('/entries', screeningController.addEntry);
+
+// DELETE /api/screening/entries/:entryId - Remove an entry
+router.delete('/entries/:entryId', screeningController.removeEntry);
+
+// POST /api/screening/check - Screen a wallet and/or VPA without recording anything
+router.post('/check', screeningController.check);
+
+// GET /api/screening/blocked - List blocked attempts with the rules they matched
+router.get('/blocked', screeningController.listBlockedAttempts);
+
+export default router;
@@ -1,16 +1,42 @@
 import express from 'express';
 import { UpiController } from '../controllers/UpiController';
+import { idempotency } from '../middleware/idempotency';
+import { merchantAuth } from '../middleware/merchantAuth';
+import { adminAuth } from '../middleware/adminAuth';
+import { rateLimit } from '../middleware/rateLimit';
 
 const router = express.Router();
 const upiController = new UpiController();
 
-// POST /api/upi/payout - Trigger UPI payout to merchant
-router.post('/payout', upiController.initiateUpiPayout);
+// POST /api/upi/payout - Queue UPI payout to merchant
+router.post('/payout', merchantAuth('payouts:write'), idempotency('upi:payout'), upiController.initiateUpiPayout);
+
+// GET /api/upi/payouts/dead-letter - List payouts that exhausted their retries
+router.get('/payouts/dead-letter', adminAuth, upiController.getDeadLetterPayouts);
+
+// GET /api/upi/balance - Get the payout account balance, e.g. ?provider=razorpayx
+router.get('/balance', adminAuth, upiController.getPayoutBalance);
+
+// GET /api/upi/payouts/:transactionId - Get payout job and attempts for a payment
+router.get('/payouts/:transactionId', merchantAuth('payouts:read'), upiController.getPayoutJob);
+
+// GET /api/upi/verify/:vpa - Look up the name registered for a VPA, to check a scanned QR's payee
+router.get(
+  '/verify/:vpa',
+  rateLimit({
+    max: parseInt(process.env.UPI_VERIFY_RATE_LIMIT || '30'),
+    windowMs: parseInt(process.env.UPI_VERIFY_RATE_WINDOW_MS || '60000')
+  }),
+  upiController.verifyVpa
+);
 
 // GET /api/upi/status/:payoutId - Get UPI payout status
-router.get('/status/:payoutId', upiController.getUpiPayoutStatus);
+router.get('/status/:payoutId', merchantAuth('payouts:read'), upiController.getUpiPayoutStatus);
 
-// POST /api/upi/webhook - Webhook for UPI status updates
+// POST /api/upi/webhook - Webhook for UPI status updates from the default payout provider
 router.post('/webhook', upiController.handleUpiWebhook);
 
+// POST /api/upi/webhook/:provider - Webhook for UPI status updates from a named payout provider
+router.post('/webhook/:provider', upiController.handleUpiWebhook);
+
 export default router;
\ No newline at end of file
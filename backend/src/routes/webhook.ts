@@ -0,0 +1,29 @@
+import express from 'express';
+import { WebhookController } from '../controllers/WebhookController';
+import { merchantAuth } from '../middleware/merchantAuth';
+
+const router = express.Router();
+const webhookController = new WebhookController();
+
+// GET /api/webhooks/endpoints - List the calling merchant's webhook endpoints
+router.get('/endpoints', merchantAuth('webhooks:read'), webhookController.listEndpoints);
+
+// POST /api/webhooks/endpoints - Register a webhook endpoint
+router.post('/endpoints', merchantAuth('webhooks:write'), webhookController.createEndpoint);
+
+// DELETE /api/webhooks/endpoints/:endpointId - Stop sending events to an endpoint
+router.delete('/endpoints/:endpointId', merchantAuth('webhooks:write'), webhookController.disableEndpoint);
+
+// POST /api/webhooks/secret/rotate - Replace the webhook signing secret
+router.post('/secret/rotate', merchantAuth('webhooks:write'), webhookController.rotateSecret);
+
+// GET /api/webhooks/events - List webhook events and their delivery status
+router.get('/events', merchantAuth('webhooks:read'), webhookController.listEvents);
+
+// GET /api/webhooks/events/:eventId/deliveries - Get the delivery log of an event
+router.get('/events/:eventId/deliveries', merchantAuth('webhooks:read'), webhookController.getDeliveries);
+
+// POST /api/webhooks/events/:eventId/redeliver - Deliver an event again now
+router.post('/events/:eventId/redeliver', merchantAuth('webhooks:write'), webhookController.redeliverEvent);
+
+export default router;
@@ -0,0 +1,297 @@
+import { Pool, QueryResultRow } from 'pg';
+import crypto from 'crypto';
+import { validate as isUuid } from 'uuid';
+import { db } from '../config/database';
+import { createError } from '../middleware/errorHandler';
+
+export const API_KEY_PERMISSIONS = [
+  'payments:read',
+  'payouts:read',
+  'payouts:write',
+  'payment_links:read',
+  'payment_links:write',
+  'webhooks:read',
+  'webhooks:write',
+  'keys:read',
+  'keys:write'
+] as const;
+
+export type ApiKeyPermission = typeof API_KEY_PERMISSIONS[number];
+
+export interface ApiKey {
+  id: string;
+  merchantId: string;
+  name: string;
+  apiKey: string;
+  permissions: ApiKeyPermission[];
+  active: boolean;
+  lastUsedAt?: Date;
+  expiresAt?: Date;
+  revokedAt?: Date;
+  createdAt: Date;
+}
+
+// Returned once, when a key is created or rotated
+export interface IssuedApiKey extends ApiKey {
+  apiSecret: string;
+}
+
+export interface CreateApiKeyData {
+  name: string;
+  permissions: ApiKeyPermission[];
+  expiresAt?: Date;
+}
+
+export interface SignedRequest {
+  apiKey: string;
+  timestamp: string;
+  nonce: string;
+  signature: string;
+  method: string;
+  path: string;
+  body: Buffer;
+}
+
+export const isApiKeyPermission = (value: unknown): value is ApiKeyPermission => {
+  return typeof value === 'string' && (API_KEY_PERMISSIONS as readonly string[]).includes(value);
+};
+
+// Format version of stored secrets
+const ENCRYPTED_SECRET_PREFIX = 'v1';
+
+/**
+ * Merchant API keys. A key is a public identifier plus a random secret used
+ * to HMAC-sign requests, shown once when the key is issued. Verifying a
+ * signature needs the secret itself, so it is stored encrypted with a key
+ * derived from `API_KEY_MASTER_SECRET`; without one API keys can be neither
+ * issued nor used.
+ */
+export class ApiKeyService {
+  private db: Pool;
+  private masterSecret?: string;
+  private toleranceSeconds: number;
+  private rotationGraceSeconds: number;
+  private lastNoncePurge = 0;
+
+  constructor() {
+    this.db = db;
+    this.masterSecret = process.env.API_KEY_MASTER_SECRET;
+    this.toleranceSeconds = parseInt(process.env.API_KEY_SIGNATURE_TOLERANCE_SECONDS || '300');
+    // How long a rotated key keeps working so integrations can switch over
+    this.rotationGraceSeconds = parseInt(process.env.API_KEY_ROTATION_GRACE_SECONDS || '3600');
+  }
+
+  async createKey(merchantId: string, data: CreateApiKeyData): Promise<IssuedApiKey> {
+    const apiKey = `apk_${crypto.randomBytes(18).toString('hex')}`;
+    const apiSecret = crypto.randomBytes(32).toString('base64url');
+    const encryptedSecret = this.encryptSecret(apiSecret);
+
+    const query = `
+      INSERT INTO api_keys (merchant_id, key_name, api_key, api_secret, permissions, expires_at)
+      VALUES ($1, $2, $3, $4, $5, $6)
+      RETURNING *
+    `;
+
+    try {
+      const result = await this.db.query(query, [
+        merchantId,
+        data.name,
+        apiKey,
+        encryptedSecret,
+        JSON.stringify(data.permissions),
+        data.expiresAt || null
+      ]);
+      return { ...this.mapRowToApiKey(result.rows[0]), apiSecret };
+    } catch (error) {
+      if ((error as { code?: string }).code === '23503') {
+        throw createError('Merchant not found', 404);
+      }
+      throw error;
+    }
+  }
+
+  async listKeys(merchantId: string): Promise<ApiKey[]> {
+    const result = await this.db.query(
+      'SELECT * FROM api_keys WHERE merchant_id = $1 ORDER BY created_at DESC',
+      [merchantId]
+    );
+    return result.rows.map(row => this.mapRowToApiKey(row));
+  }
+
+  /**
+   * Issue a replacement with the same name, permissions and expiry. The old
+   * key stays valid for the rotation grace period.
+   */
+  async rotateKey(merchantId: string, keyId: string): Promise<IssuedApiKey> {
+    const current = await this.getActiveKey(merchantId, keyId);
+
+    const replacement = await this.createKey(merchantId, {
+      name: current.name,
+      permissions: current.permissions,
+      expiresAt: current.expiresAt
+    });
+
+    const graceEnd = new Date(Date.now() + this.rotationGraceSeconds * 1000);
+    await this.db.query(
+      `UPDATE api_keys SET expires_at = LEAST(COALESCE(expires_at, $1), $1) WHERE id = $2`,
+      [graceEnd, keyId]
+    );
+
+    return replacement;
+  }
+
+  async revokeKey(merchantId: string, keyId: string): Promise<ApiKey> {
+    await this.getActiveKey(merchantId, keyId);
+
+    const result = await this.db.query(
+      `UPDATE api_keys SET active = FALSE, revoked_at = NOW() WHERE id = $1 RETURNING *`,
+      [keyId]
+    );
+    return this.mapRowToApiKey(result.rows[0]);
+  }
+
+  /**
+   * Check a signed request and return the key that signed it. The signature
+   * is an HMAC-SHA256 with the key's secret over
+   * `timestamp \n nonce \n METHOD \n path \n sha256(body)`.
+   */
+  async authenticate(request: SignedRequest): Promise<ApiKey> {
+    this.getEncryptionKey();
+
+    const timestamp = parseInt(request.timestamp);
+    if (!Number.isFinite(timestamp) || Math.abs(Date.now() / 1000 - timestamp) > this.toleranceSeconds) {
+      throw createError('Request timestamp outside the allowed window', 401, 'stale_request');
+    }
+
+    const result = await this.db.query('SELECT * FROM api_keys WHERE api_key = $1', [request.apiKey]);
+    const row = result.rows[0];
+
+    if (!row || !row.active || (row.expires_at && new Date(row.expires_at).getTime() <= Date.now())) {
+      throw createError('Invalid API key', 401, 'invalid_api_key');
+    }
+
+    const secret = this.getSecret(row);
+    if (!secret) {
+      throw createError('Invalid API key', 401, 'invalid_api_key');
+    }
+
+    const expected = Buffer.from(this.sign(secret, request), 'hex');
+    const actual = Buffer.from(request.signature, 'hex');
+    if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+      throw createError('Invalid request signature', 401, 'invalid_signature');
+    }
+
+    await this.consumeNonce(row.id, request.nonce);
+    await this.db.query('UPDATE api_keys SET last_used_at = NOW() WHERE id = $1', [row.id]);
+
+    return this.mapRowToApiKey(row);
+  }
+
+  hasPermission(apiKey: ApiKey, permission: ApiKeyPermission): boolean {
+    return apiKey.permissions.includes(permission);
+  }
+
+  private async getActiveKey(merchantId: string, keyId: string): Promise<ApiKey> {
+    if (!isUuid(keyId)) {
+      throw createError('API key not found', 404);
+    }
+
+    const result = await this.db.query(
+      'SELECT * FROM api_keys WHERE id = $1 AND merchant_id = $2',
+      [keyId, merchantId]
+    );
+
+    if (result.rows.length === 0) {
+      throw createError('API key not found', 404);
+    }
+
+    const apiKey = this.mapRowToApiKey(result.rows[0]);
+    if (!apiKey.active) {
+      throw createError('API key has been revoked', 409, 'api_key_revoked');
+    }
+
+    return apiKey;
+  }
+
+  private getEncryptionKey(): Buffer {
+    if (!this.masterSecret) {
+      throw createError('API keys are not configured', 503);
+    }
+    return crypto.createHash('sha256').update(this.masterSecret).digest();
+  }
+
+  // AES-256-GCM, stored as `v1:<iv>:<auth tag>:<ciphertext>`
+  private encryptSecret(secret: string): string {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', this.getEncryptionKey(), iv);
+    const ciphertext = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+    return [ENCRYPTED_SECRET_PREFIX, iv, cipher.getAuthTag(), ciphertext]
+      .map(part => typeof part === 'string' ? part : part.toString('base64url'))
+      .join(':');
+  }
+
+  /**
+   * The signing secret of a key row, or null when it can't be recovered
+   * (a changed master secret or a tampered row).
+   */
+  private getSecret(row: QueryResultRow): string | null {
+    const [prefix, iv, tag, ciphertext] = String(row.api_secret).split(':');
+
+    if (prefix !== ENCRYPTED_SECRET_PREFIX || !iv || !tag || !ciphertext) {
+      return null;
+    }
+
+    try {
+      const decipher = crypto.createDecipheriv('aes-256-gcm', this.getEncryptionKey(), Buffer.from(iv, 'base64url'), {
+        authTagLength: 16
+      });
+      decipher.setAuthTag(Buffer.from(tag, 'base64url'));
+      return Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64url')), decipher.final()]).toString('utf8');
+    } catch {
+      return null;
+    }
+  }
+
+  private sign(secret: string, request: SignedRequest): string {
+    const bodyHash = crypto.createHash('sha256').update(request.body).digest('hex');
+    const payload = [request.timestamp, request.nonce, request.method.toUpperCase(), request.path, bodyHash].join('\n');
+    return crypto.createHmac('sha256', secret).update(payload).digest('hex');
+  }
+
+  private async consumeNonce(apiKeyId: string, nonce: string): Promise<void> {
+    // Nonces only need to outlive the timestamp window
+    if (Date.now() - this.lastNoncePurge > 60000) {
+      this.lastNoncePurge = Date.now();
+      await this.db.query(
+        `DELETE FROM api_key_nonces WHERE created_at < NOW() - make_interval(secs => $1)`,
+        [this.toleranceSeconds * 2]
+      );
+    }
+
+    const result = await this.db.query(
+      `INSERT INTO api_key_nonces (api_key_id, nonce) VALUES ($1, $2)
+       ON CONFLICT DO NOTHING
+       RETURNING nonce`,
+      [apiKeyId, nonce]
+    );
+
+    if (result.rows.length === 0) {
+      throw createError('Request nonce has already been used', 401, 'nonce_reused');
+    }
+  }
+
+  private mapRowToApiKey(row: QueryResultRow): ApiKey {
+    return {
+      id: row.id,
+      merchantId: row.merchant_id,
+      name: row.key_name,
+      apiKey: row.api_key,
+      permissions: row.permissions || [],
+      active: row.active,
+      lastUsedAt: row.last_used_at || undefined,
+      expiresAt: row.expires_at || undefined,
+      revokedAt: row.revoked_at || undefined,
+      createdAt: row.created_at
+    };
+  }
+}
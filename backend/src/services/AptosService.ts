@@ -1,4 +1,133 @@
-import { Aptos, AptosConfig, Network, Account, Ed25519PrivateKey } from '@aptos-labs/ts-sdk';
+import {
+  Aptos,
+  AptosConfig,
+  Network,
+  Account,
+  AccountAddress,
+  AptosApiError,
+  Ed25519PrivateKey,
+  UserTransactionResponse,
+  WriteSetChangeWriteResource,
+  isPendingTransactionResponse,
+  isUserTransactionResponse
+} from '@aptos-labs/ts-sdk';
+import crypto from 'crypto';
+
+export interface AptosAsset {
+  symbol: string;
+  decimals: number;
+  // Legacy coin type, e.g. 0x1::aptos_coin::AptosCoin
+  coinType?: string;
+  // Fungible asset metadata object address
+  faMetadata?: string;
+}
+
+export const APTOS_ASSETS: Record<string, AptosAsset> = {
+  USDC: {
+    symbol: 'USDC',
+    decimals: 6,
+    coinType: process.env.APTOS_USDC_COIN_TYPE ||
+      '0x498d8926f16eb9ca90cab1b3a26aa6f97a080b3fcbe6e83ae150b7243a00fb68::usdc::USDC',
+    faMetadata: process.env.APTOS_USDC_FA_METADATA
+  },
+  USDT: {
+    symbol: 'USDT',
+    decimals: 6,
+    faMetadata: process.env.APTOS_USDT_FA_METADATA ||
+      '0x357b0b74bc833e95a115ad22604854d6b0fca151cecd94111770e5d6ffc9dc2b'
+  },
+  APT: {
+    symbol: 'APT',
+    decimals: 8,
+    coinType: '0x1::aptos_coin::AptosCoin',
+    faMetadata: '0xa'
+  }
+};
+
+// Canonical 0x-prefixed, 64 hex digit form, for comparing addresses from different sources
+export const normalizeAddress = (address: string): string => {
+  return AccountAddress.fromString(address, { maxMissingChars: 63 }).toStringLong();
+};
+
+export type DepositMismatchReason =
+  | 'not_found'
+  | 'not_final'
+  | 'transaction_failed'
+  | 'wrong_sender'
+  | 'wrong_recipient'
+  | 'wrong_asset'
+  | 'underpaid';
+
+export interface ExpectedDeposit {
+  sender: string;
+  asset: string;
+  minAmount: number;
+}
+
+export interface DepositVerification {
+  valid: boolean;
+  reason?: DepositMismatchReason;
+  message?: string;
+  sender?: string;
+  // Amount of the expected asset received by the escrow, in display units
+  amountReceived?: number;
+  version?: string;
+}
+
+export interface DecodedDeposit {
+  recipient: string;
+  // Amount in the asset's smallest unit
+  amount: bigint;
+  coinType?: string;
+  faMetadata?: string;
+}
+
+const MISMATCH_STATUS_CODES: Record<DepositMismatchReason, number> = {
+  not_found: 404,
+  not_final: 409,
+  transaction_failed: 422,
+  wrong_sender: 422,
+  wrong_recipient: 422,
+  wrong_asset: 422,
+  underpaid: 422
+};
+
+export class DepositVerificationError extends Error {
+  statusCode: number;
+  isOperational = true;
+  code: DepositMismatchReason;
+
+  constructor(public readonly verification: DepositVerification) {
+    super(verification.message || 'Deposit verification failed');
+    this.name = 'DepositVerificationError';
+    this.code = verification.reason || 'not_found';
+    this.statusCode = MISMATCH_STATUS_CODES[this.code];
+  }
+}
+
+export interface EscrowDeposit {
+  hash: string;
+  version: string;
+  sender: string;
+  // Total received per asset, in display units
+  deposits: { asset: string; amount: number }[];
+}
+
+const ESCROW_ACTIVITY_QUERY = `
+  query EscrowActivity($owner: String!, $after: bigint!, $limit: Int!) {
+    fungible_asset_activities(
+      where: { owner_address: { _eq: $owner }, transaction_version: { _gt: $after } }
+      order_by: { transaction_version: asc }
+      distinct_on: transaction_version
+      limit: $limit
+    ) {
+      transaction_version
+    }
+  }
+`;
+
+// Address derivation scheme used by primary fungible stores
+const USER_DERIVED_OBJECT_SCHEME = 0xfc;
 
 export class AptosService {
   private aptos: Aptos;
@@ -15,22 +144,124 @@ export class AptosService {
     this.escrowAccount = Account.fromPrivateKey({ privateKey });
   }
 
-  async verifyTransaction(transactionHash: string): Promise<boolean> {
-    try {
-      const transaction = await this.aptos.getTransactionByHash({ transactionHash });
-      
-      if (!transaction) {
-        return false;
-      }
+  /**
+   * Verify that a transaction is a committed deposit from the expected sender
+   * into the escrow account, in the expected asset and for at least the
+   * expected amount. Returns the first mismatch found.
+   */
+  async verifyDeposit(transactionHash: string, expected: ExpectedDeposit): Promise<DepositVerification> {
+    const asset = APTOS_ASSETS[expected.asset];
+    if (!asset) {
+      throw new Error(`Unsupported asset: ${expected.asset}`);
+    }
 
-      // Verify transaction is successful and involves our escrow address
-      // Check if transaction has success property (for committed transactions)
-      const isSuccessful = 'success' in transaction ? transaction.success : true;
-      return isSuccessful && this.isTransactionToEscrow(transaction);
+    let transaction;
+    try {
+      transaction = await this.aptos.getTransactionByHash({ transactionHash });
     } catch (error) {
       console.error('Error verifying transaction:', error);
-      return false;
+      return { valid: false, reason: 'not_found', message: 'Transaction not found on chain' };
+    }
+
+    if (isPendingTransactionResponse(transaction)) {
+      return { valid: false, reason: 'not_final', message: 'Transaction has not been committed yet' };
     }
+
+    if (!isUserTransactionResponse(transaction)) {
+      return { valid: false, reason: 'not_found', message: 'Transaction is not a user transaction' };
+    }
+
+    const result = { sender: transaction.sender, version: transaction.version };
+
+    if (!transaction.success) {
+      return { ...result, valid: false, reason: 'transaction_failed', message: `Transaction failed: ${transaction.vm_status}` };
+    }
+
+    if (!this.isSameAddress(transaction.sender, expected.sender)) {
+      return { ...result, valid: false, reason: 'wrong_sender', message: 'Transaction was not sent by the paying wallet' };
+    }
+
+    const escrowDeposits = this.decodeDeposits(transaction)
+      .filter(deposit => this.isSameAddress(deposit.recipient, this.getEscrowAddress()));
+
+    if (escrowDeposits.length === 0) {
+      return { ...result, valid: false, reason: 'wrong_recipient', message: 'Transaction did not deposit into the escrow account' };
+    }
+
+    const assetDeposits = escrowDeposits.filter(deposit => this.isAsset(deposit, asset));
+
+    if (assetDeposits.length === 0) {
+      return { ...result, valid: false, reason: 'wrong_asset', message: `Escrow deposit is not in ${asset.symbol}` };
+    }
+
+    const received = assetDeposits.reduce((sum, deposit) => sum + deposit.amount, BigInt(0));
+    const amountReceived = this.fromBaseUnits(received, asset.decimals);
+
+    if (received < this.toBaseUnits(expected.minAmount, asset.decimals)) {
+      return {
+        ...result,
+        valid: false,
+        reason: 'underpaid',
+        message: `Received ${amountReceived} ${asset.symbol}, expected ${expected.minAmount}`,
+        amountReceived
+      };
+    }
+
+    return { ...result, valid: true, amountReceived };
+  }
+
+  /**
+   * Decode every coin or fungible asset deposit made by a transaction,
+   * resolving recipients and asset types from the transaction's write set.
+   */
+  decodeDeposits(transaction: UserTransactionResponse): DecodedDeposit[] {
+    const resources = transaction.changes
+      .filter((change): change is WriteSetChangeWriteResource => change.type === 'write_resource');
+    const findResource = (address: string, predicate: (type: string) => boolean) =>
+      resources.find(change => this.isSameAddress(change.address, address) && predicate(change.data.type));
+
+    const deposits: DecodedDeposit[] = [];
+
+    for (const event of transaction.events) {
+      if (event.type.startsWith('0x1::coin::CoinDeposit')) {
+        // Module event emitted by newer frameworks, carries everything we need
+        deposits.push({
+          recipient: event.data.account,
+          amount: BigInt(event.data.amount),
+          coinType: event.data.coin_type
+        });
+      } else if (event.type === '0x1::coin::DepositEvent') {
+        // Legacy handle event: the coin type is only known from the CoinStore that owns the handle
+        const recipient = event.guid.account_address;
+        const store = findResource(recipient, type => type.startsWith('0x1::coin::CoinStore<'));
+        const storeData = store?.data.data as { deposit_events?: { guid: { id: { creation_num: string } } } } | undefined;
+        const matchesHandle = storeData?.deposit_events?.guid.id.creation_num === event.guid.creation_number;
+
+        deposits.push({
+          recipient,
+          amount: BigInt(event.data.amount),
+          coinType: store && matchesHandle ? store.data.type.slice('0x1::coin::CoinStore<'.length, -1) : undefined
+        });
+      } else if (event.type === '0x1::fungible_asset::Deposit') {
+        const storeAddress: string = event.data.store;
+        const fungibleStore = findResource(storeAddress, type => type === '0x1::fungible_asset::FungibleStore');
+        const objectCore = findResource(storeAddress, type => type === '0x1::object::ObjectCore');
+        const faMetadata = (fungibleStore?.data.data as { metadata?: { inner: string } } | undefined)?.metadata?.inner;
+        const owner = (objectCore?.data.data as { owner?: string } | undefined)?.owner;
+
+        deposits.push({
+          // Existing primary stores do not rewrite ObjectCore; fall back to the escrow's derived store address
+          recipient: owner ||
+            (faMetadata && this.isSameAddress(storeAddress, this.getPrimaryStoreAddress(this.getEscrowAddress(), faMetadata))
+              ? this.getEscrowAddress()
+              : storeAddress),
+          amount: BigInt(event.data.amount),
+          faMetadata
+        });
+      }
+    }
+
+    return deposits;
   }
 
   async getAccountBalance(accountAddress: string, coinType: string = '0x1::aptos_coin::AptosCoin'): Promise<number> {
@@ -56,51 +287,186 @@ export class AptosService {
     return this.getAccountBalance(accountAddress, usdcCoinType);
   }
 
-  async listenToPaymentEvents(callback: (event: any) => void): Promise<void> {
-    // This would implement event listening for payment confirmations
-    // For demo purposes, we'll use polling instead of real-time events
-    console.log('Starting to listen for payment events...');
-    
-    setInterval(async () => {
-      try {
-        // Poll for recent transactions to escrow account
-        const transactions = await this.aptos.getAccountTransactions({
-          accountAddress: this.escrowAccount.accountAddress.toString(),
-          options: { limit: 10 }
-        });
+  /**
+   * The account's current authentication key, or null when the account has
+   * not been created on chain yet.
+   */
+  async getAuthenticationKey(accountAddress: string): Promise<string | null> {
+    try {
+      const info = await this.aptos.getAccountInfo({ accountAddress });
+      return info.authentication_key;
+    } catch (error) {
+      if (error instanceof AptosApiError && error.status === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
 
-        // Process new transactions
-        for (const tx of transactions) {
-          if (this.isPaymentTransaction(tx)) {
-            callback(tx);
-          }
-        }
-      } catch (error) {
-        console.error('Error polling for events:', error);
+  /**
+   * Ledger versions after `afterVersion` in which the escrow account's coin or
+   * fungible asset balances changed, oldest first. Read from the indexer.
+   */
+  async getEscrowActivityVersions(afterVersion: string, limit: number): Promise<string[]> {
+    const result = await this.aptos.queryIndexer<{ fungible_asset_activities: { transaction_version: string }[] }>({
+      query: {
+        query: ESCROW_ACTIVITY_QUERY,
+        variables: { owner: this.getEscrowAddress(), after: afterVersion, limit }
       }
-    }, 5000); // Poll every 5 seconds
+    });
+
+    return result.fungible_asset_activities.map(activity => String(activity.transaction_version));
   }
 
-  private isTransactionToEscrow(transaction: any): boolean {
-    // Check if transaction involves transfer to escrow address
-    const escrowAddress = this.escrowAccount.accountAddress.toString();
-    
-    // This is a simplified check - in production, you'd want more robust verification
-    return transaction.payload && 
-           JSON.stringify(transaction.payload).includes(escrowAddress);
+  /**
+   * Decode the deposits a committed transaction made into the escrow account,
+   * summed per supported asset. Returns null for anything other than a
+   * successful user transaction.
+   */
+  async getEscrowDeposit(version: string): Promise<EscrowDeposit | null> {
+    const transaction = await this.aptos.getTransactionByVersion({ ledgerVersion: BigInt(version) });
+
+    if (!isUserTransactionResponse(transaction) || !transaction.success) {
+      return null;
+    }
+
+    const totals = new Map<string, bigint>();
+    for (const deposit of this.decodeDeposits(transaction)) {
+      if (!this.isSameAddress(deposit.recipient, this.getEscrowAddress())) {
+        continue;
+      }
+
+      const asset = Object.values(APTOS_ASSETS).find(candidate => this.isAsset(deposit, candidate));
+      if (asset) {
+        totals.set(asset.symbol, (totals.get(asset.symbol) || BigInt(0)) + deposit.amount);
+      }
+    }
+
+    if (totals.size === 0) {
+      return null;
+    }
+
+    return {
+      hash: transaction.hash,
+      version: transaction.version,
+      sender: transaction.sender,
+      deposits: Array.from(totals, ([asset, amount]) => ({
+        asset,
+        amount: this.fromBaseUnits(amount, APTOS_ASSETS[asset].decimals)
+      }))
+    };
   }
 
-  private isPaymentTransaction(transaction: any): boolean {
-    // Check if this is a payment transaction we care about
-    return transaction.success && 
-           transaction.payload?.function?.includes('transfer') &&
-           this.isTransactionToEscrow(transaction);
+  private isAsset(deposit: DecodedDeposit, asset: AptosAsset): boolean {
+    if (deposit.coinType && asset.coinType) {
+      return deposit.coinType === asset.coinType;
+    }
+
+    if (deposit.faMetadata && asset.faMetadata) {
+      return this.isSameAddress(deposit.faMetadata, asset.faMetadata);
+    }
+
+    return false;
+  }
+
+  private isSameAddress(a: string, b: string): boolean {
+    try {
+      return this.parseAddress(a).equals(this.parseAddress(b));
+    } catch {
+      return false;
+    }
+  }
+
+  // The REST API may strip leading zeroes, so accept any padding
+  private parseAddress(address: string): AccountAddress {
+    return AccountAddress.fromString(address, { maxMissingChars: 63 });
+  }
+
+  private getPrimaryStoreAddress(owner: string, metadata: string): string {
+    const hash = crypto.createHash('sha3-256')
+      .update(this.parseAddress(owner).toUint8Array())
+      .update(this.parseAddress(metadata).toUint8Array())
+      .update(Buffer.from([USER_DERIVED_OBJECT_SCHEME]))
+      .digest('hex');
+    return `0x${hash}`;
+  }
+
+  private toBaseUnits(amount: number, decimals: number): bigint {
+    const [whole, fraction = ''] = amount.toFixed(decimals).split('.');
+    return BigInt(whole + fraction.padEnd(decimals, '0'));
+  }
+
+  private fromBaseUnits(amount: bigint, decimals: number): number {
+    return Number(amount) / 10 ** decimals;
   }
 
   getEscrowAddress(): string {
     return this.escrowAccount.accountAddress.toString();
   }
 
+  /**
+   * Send an asset from the escrow account and return the submitted
+   * transaction hash. Use waitForTransaction to learn the outcome.
+   */
+  async transferFromEscrow(recipient: string, assetSymbol: string, amount: number): Promise<string> {
+    const asset = APTOS_ASSETS[assetSymbol];
+    if (!asset) {
+      throw new Error(`Unsupported asset: ${assetSymbol}`);
+    }
+
+    const baseUnits = this.toBaseUnits(amount, asset.decimals);
+    const data = asset.coinType
+      ? {
+          function: '0x1::aptos_account::transfer_coins' as const,
+          typeArguments: [asset.coinType],
+          functionArguments: [recipient, baseUnits]
+        }
+      : {
+          function: '0x1::primary_fungible_store::transfer' as const,
+          typeArguments: ['0x1::fungible_asset::Metadata'],
+          functionArguments: [asset.faMetadata as string, recipient, baseUnits]
+        };
+
+    const transaction = await this.aptos.transaction.build.simple({
+      sender: this.escrowAccount.accountAddress,
+      data
+    });
+    const pending = await this.aptos.signAndSubmitTransaction({ signer: this.escrowAccount, transaction });
+
+    return pending.hash;
+  }
+
+  /**
+   * Wait for a transaction to commit and report whether it succeeded. A
+   * transaction that failed on chain resolves to false; throws when the
+   * outcome can't be learned, e.g. on a timeout.
+   */
+  async waitForTransaction(transactionHash: string): Promise<boolean> {
+    const transaction = await this.aptos.waitForTransaction({ transactionHash, options: { checkSuccess: false } });
+    return transaction.success;
+  }
+
+  /**
+   * Where a submitted transaction stands. `not_found` means the node has
+   * never seen it, which once its expiry has passed means it will never
+   * commit. Null when the node can't be asked.
+   */
+  async getTransactionOutcome(transactionHash: string): Promise<'success' | 'failed' | 'pending' | 'not_found' | null> {
+    try {
+      const transaction = await this.aptos.getTransactionByHash({ transactionHash });
+      if (isPendingTransactionResponse(transaction)) {
+        return 'pending';
+      }
+      return transaction.success ? 'success' : 'failed';
+    } catch (error) {
+      if (error instanceof AptosApiError && error.status === 404) {
+        return 'not_found';
+      }
+      console.error('Error getting transaction outcome:', error);
+      return null;
+    }
+  }
+
   async getTransactionDetails(transactionHash: string): Promise<any> {
     try {
       return await this.aptos.getTransactionByHash({ transactionHash });
@@ -0,0 +1,186 @@
+import { PaymentService, Payment } from './PaymentService';
+import { PaymentExpiryService } from './PaymentExpiryService';
+import { Quote, QuoteService } from './QuoteService';
+import { RefundService } from './RefundService';
+import { PayoutQueueService } from './PayoutQueueService';
+import { PaymentLinkService } from './PaymentLinkService';
+import { createError } from '../middleware/errorHandler';
+
+export type LateDepositPolicy = 'requote' | 'refund';
+
+// Statuses in which a payment can still be credited with a deposit
+const ACCEPTING_STATUSES = ['pending', 'awaiting_topup', 'expired'];
+
+/**
+ * Applies verified escrow deposits to payments. Deposits within the tolerance
+ * bands confirm the payment, short deposits wait for a top-up, overpaid
+ * excess is sent back and late deposits are re-quoted or refunded.
+ */
+export class DepositSettlementService {
+  private paymentService: PaymentService;
+  private paymentExpiryService: PaymentExpiryService;
+  private quoteService: QuoteService;
+  private refundService: RefundService;
+  private payoutQueueService: PayoutQueueService;
+  private paymentLinkService: PaymentLinkService;
+  private underpaymentToleranceBps: number;
+  private overpaymentToleranceBps: number;
+  private lateDepositPolicy: LateDepositPolicy;
+
+  constructor() {
+    this.paymentService = new PaymentService();
+    this.paymentExpiryService = new PaymentExpiryService();
+    this.quoteService = new QuoteService();
+    this.refundService = new RefundService();
+    this.payoutQueueService = new PayoutQueueService();
+    this.paymentLinkService = new PaymentLinkService();
+    // Tolerances absorb wallet rounding; beyond them the payment waits for a top-up or the excess is refunded
+    this.underpaymentToleranceBps = parseInt(process.env.PAYMENT_UNDERPAYMENT_TOLERANCE_BPS || '50');
+    this.overpaymentToleranceBps = parseInt(process.env.PAYMENT_OVERPAYMENT_TOLERANCE_BPS || '50');
+    this.lateDepositPolicy = process.env.LATE_DEPOSIT_POLICY === 'refund' ? 'refund' : 'requote';
+  }
+
+  async applyDeposit(
+    payment: Payment,
+    aptosTransactionHash: string,
+    amount: number,
+    actor: string
+  ): Promise<Payment> {
+    if (!ACCEPTING_STATUSES.includes(payment.status)) {
+      throw createError(`Payment is ${payment.status} and cannot accept a deposit`, 409, 'invalid_transition');
+    }
+
+    if (this.paymentExpiryService.isExpired(payment)) {
+      return this.applyLateDeposit(payment, aptosTransactionHash, amount, actor);
+    }
+
+    const credited = await this.paymentService.recordDeposit(payment.id, aptosTransactionHash, amount);
+
+    // Re-applying a deposit after an interruption resumes from the stored amount
+    if (credited.status !== 'pending' && credited.status !== 'awaiting_topup') {
+      return credited;
+    }
+
+    if (!this.isCovered(credited.amountReceived, credited.stablecoinAmount)) {
+      if (credited.status === 'awaiting_topup') {
+        return credited;
+      }
+
+      return this.paymentService.updatePaymentStatus(credited.id, 'awaiting_topup', {
+        actor,
+        reason: `Received ${credited.amountReceived} of ${credited.stablecoinAmount} ${credited.asset}`,
+        aptosTransactionHash
+      });
+    }
+
+    return this.confirm(credited, aptosTransactionHash, actor, 'Aptos transaction verified');
+  }
+
+  /**
+   * Under the requote policy an expired payment moves to a fresh quote and
+   * continues if everything received still covers it; otherwise all of it
+   * is refunded.
+   */
+  private async applyLateDeposit(
+    payment: Payment,
+    aptosTransactionHash: string,
+    amount: number,
+    actor: string
+  ): Promise<Payment> {
+    if (payment.status !== 'expired') {
+      payment = await this.paymentExpiryService.expire(payment, actor);
+    }
+
+    const credited = await this.paymentService.recordDeposit(payment.id, aptosTransactionHash, amount);
+
+    if (credited.status !== 'expired') {
+      return credited;
+    }
+
+    if (this.lateDepositPolicy === 'requote') {
+      // Without a fresh quote, e.g. no rate or the risk engine refusing, the deposit is refunded
+      let quote: Quote | undefined;
+      try {
+        quote = await this.quoteService.createQuote({
+          amountINR: credited.amountINR,
+          asset: credited.asset,
+          merchantId: credited.merchantId,
+          walletAddress: credited.walletAddress
+        });
+      } catch (error) {
+        console.error(`Error re-quoting late deposit for payment ${credited.id}:`, error);
+      }
+
+      if (quote && this.isCovered(credited.amountReceived, quote.cryptoAmount)) {
+        const requoted = await this.paymentService.applyRequote(credited.id, quote);
+        return this.confirm(requoted, aptosTransactionHash, actor, `Late deposit accepted at re-quoted rate ${quote.rate}`);
+      }
+    }
+
+    await this.refundService.refundPayment(credited.id, {
+      actor,
+      reason: 'Deposit arrived after the payment expired'
+    });
+
+    return (await this.paymentService.getPaymentById(credited.id)) as Payment;
+  }
+
+  private async confirm(payment: Payment, aptosTransactionHash: string, actor: string, reason: string): Promise<Payment> {
+    if (payment.paymentLinkId && !(await this.paymentLinkService.claimPayment(payment.paymentLinkId, payment.id))) {
+      return this.refundUnclaimedLinkPayment(payment, aptosTransactionHash, actor);
+    }
+
+    const confirmed = await this.paymentService.updatePaymentStatus(payment.id, 'confirmed', {
+      actor,
+      reason,
+      aptosTransactionHash
+    });
+    await this.payoutQueueService.enqueue(confirmed.id);
+
+    const excess = Number((confirmed.amountReceived - confirmed.stablecoinAmount).toFixed(8));
+    if (excess > (confirmed.stablecoinAmount * this.overpaymentToleranceBps) / 10000) {
+      // The payout goes ahead either way; a failed excess refund stays in the refunds table for follow-up
+      try {
+        await this.refundService.refundExcess(confirmed.id, excess, {
+          actor,
+          reason: `Overpaid by ${excess} ${confirmed.asset}`
+        });
+      } catch (error) {
+        console.error(`Error refunding excess for payment ${confirmed.id}:`, error);
+      }
+    }
+
+    return confirmed;
+  }
+
+  /**
+   * Several payers can start checkout on a single-use link, but only the
+   * payment that claims it is paid out. The others, and payments whose link
+   * expired before their deposit landed, are failed and refunded; a refund
+   * that doesn't go through stays in the refunds table for follow-up.
+   */
+  private async refundUnclaimedLinkPayment(payment: Payment, aptosTransactionHash: string, actor: string): Promise<Payment> {
+    const reason = 'Payment link was already paid or has expired';
+
+    if (payment.status !== 'expired') {
+      await this.paymentService.updatePaymentStatus(payment.id, 'failed', {
+        actor,
+        reason,
+        aptosTransactionHash,
+        failureReason: reason
+      });
+    }
+
+    try {
+      await this.refundService.refundPayment(payment.id, { actor, reason });
+    } catch (error) {
+      console.error(`Error refunding payment ${payment.id} for a closed payment link:`, error);
+    }
+
+    return (await this.paymentService.getPaymentById(payment.id)) as Payment;
+  }
+
+  private isCovered(received: number, expected: number): boolean {
+    return received >= expected * (1 - this.underpaymentToleranceBps / 10000);
+  }
+}
@@ -0,0 +1,254 @@
+import { Pool, QueryResultRow } from 'pg';
+import { db } from '../config/database';
+import { AptosService, EscrowDeposit } from './AptosService';
+import { PaymentService, Payment } from './PaymentService';
+import { DepositSettlementService } from './DepositSettlementService';
+import { AppError } from '../middleware/errorHandler';
+
+const CURSOR_NAME = 'escrow_deposits';
+
+// 'unmatched' deposits pay for no open payment, 'failed' ones kept failing to settle
+export type DepositReviewReason = 'unmatched' | 'failed';
+
+export interface IndexedDeposit {
+  id: string;
+  blockchainHash: string;
+  ledgerVersion: string;
+  sender: string;
+  deposits: { asset: string; amount: number }[];
+  attempts: number;
+  lastError?: string;
+  reviewReason?: DepositReviewReason;
+  createdAt: Date;
+}
+
+/**
+ * Follows deposits into the escrow account and confirms the pending payments
+ * they pay for, whether or not the client ever calls /confirm.
+ *
+ * Each ledger version is written to transaction_events together with the
+ * cursor, so a restart resumes after the last stored version. Stored deposits
+ * are matched to payments in a second step. A deposit that fails to settle is
+ * retried with backoff behind newer deposits; one that matches no payment, or
+ * is still failing after its last attempt, is held for operator review so
+ * that it can be refunded by hand.
+ */
+export class EscrowIndexerService {
+  private db: Pool;
+  private aptosService: AptosService;
+  private paymentService: PaymentService;
+  private depositSettlementService: DepositSettlementService;
+  private startVersion: string;
+  private maxAttempts: number;
+  private baseDelayMs: number;
+  private maxDelayMs: number;
+
+  constructor() {
+    this.db = db;
+    this.aptosService = new AptosService();
+    this.paymentService = new PaymentService();
+    this.depositSettlementService = new DepositSettlementService();
+    this.startVersion = process.env.ESCROW_INDEXER_START_VERSION || '0';
+    this.maxAttempts = parseInt(process.env.ESCROW_DEPOSIT_MAX_ATTEMPTS || '10');
+    this.baseDelayMs = parseInt(process.env.ESCROW_DEPOSIT_RETRY_BASE_DELAY_MS || '30000');
+    this.maxDelayMs = parseInt(process.env.ESCROW_DEPOSIT_RETRY_MAX_DELAY_MS || '3600000');
+  }
+
+  /**
+   * Index up to `pageSize` ledger versions past the cursor. Returns the
+   * number of versions read; a full page means there may be more.
+   */
+  async indexNextPage(pageSize: number): Promise<number> {
+    const cursor = await this.getCursor();
+    const versions = await this.aptosService.getEscrowActivityVersions(cursor, pageSize);
+
+    for (const version of versions) {
+      const deposit = await this.aptosService.getEscrowDeposit(version);
+      await this.storeVersion(version, deposit);
+    }
+
+    return versions.length;
+  }
+
+  /**
+   * Match stored deposits that are due to open payments and settle them.
+   * Deposits that have never failed go first, so a failing one can't hold
+   * up the rest.
+   */
+  async processPendingDeposits(limit: number): Promise<number> {
+    const result = await this.db.query(
+      `SELECT * FROM transaction_events
+       WHERE event_type = 'escrow_deposit' AND processed = FALSE
+         AND (next_attempt_at IS NULL OR next_attempt_at <= CURRENT_TIMESTAMP)
+       ORDER BY attempts ASC, ledger_version ASC
+       LIMIT $1`,
+      [limit]
+    );
+
+    for (const row of result.rows) {
+      const deposit = this.mapRowToDeposit(row);
+      try {
+        const payment = await this.settleMatchingPayment(deposit);
+        if (payment) {
+          await this.markProcessed(deposit.id, payment.id);
+        } else {
+          await this.holdForReview(deposit, 'unmatched', 'No open payment matches the deposit', deposit.attempts);
+        }
+      } catch (error) {
+        console.error(`Error processing escrow deposit ${deposit.blockchainHash}:`, error);
+        await this.recordFailure(deposit, error instanceof Error ? error.message : 'Settlement failed');
+      }
+    }
+
+    return result.rows.length;
+  }
+
+  async listDepositsForReview(
+    page: number = 1,
+    limit: number = 20
+  ): Promise<{ deposits: IndexedDeposit[]; total: number; page: number; totalPages: number }> {
+    const countResult = await this.db.query(
+      `SELECT COUNT(*) FROM transaction_events WHERE event_type = 'escrow_deposit' AND review_reason IS NOT NULL`
+    );
+    const total = parseInt(countResult.rows[0].count);
+
+    const result = await this.db.query(
+      `SELECT * FROM transaction_events
+       WHERE event_type = 'escrow_deposit' AND review_reason IS NOT NULL
+       ORDER BY created_at DESC
+       LIMIT $1 OFFSET $2`,
+      [limit, (page - 1) * limit]
+    );
+
+    return {
+      deposits: result.rows.map(row => this.mapRowToDeposit(row)),
+      total,
+      page,
+      totalPages: Math.ceil(total / limit)
+    };
+  }
+
+  async getCursor(): Promise<string> {
+    const result = await this.db.query('SELECT last_version FROM indexer_cursors WHERE name = $1', [CURSOR_NAME]);
+    return result.rows.length > 0 ? String(result.rows[0].last_version) : this.startVersion;
+  }
+
+  private async settleMatchingPayment(deposit: IndexedDeposit): Promise<Payment | null> {
+    // Already credited, e.g. through /confirm before the indexer caught up
+    const claimedBy = await this.paymentService.getPaymentByTransactionHash(deposit.blockchainHash);
+    if (claimedBy) {
+      const credited = deposit.deposits.find(({ asset }) => asset === claimedBy.asset);
+      // Finish settling if the process stopped right after the deposit was credited
+      if (credited && (claimedBy.status === 'pending' || claimedBy.status === 'awaiting_topup')) {
+        return this.depositSettlementService.applyDeposit(claimedBy, deposit.blockchainHash, credited.amount, 'escrow_indexer');
+      }
+      return claimedBy;
+    }
+
+    for (const { asset, amount } of deposit.deposits) {
+      const payment = await this.paymentService.findPaymentForDeposit(deposit.sender, asset, amount);
+      if (!payment) {
+        continue;
+      }
+
+      try {
+        return await this.depositSettlementService.applyDeposit(payment, deposit.blockchainHash, amount, 'escrow_indexer');
+      } catch (error) {
+        // Lost a race with /confirm for the same payment or transaction
+        const code = (error as AppError).code;
+        if (code === 'invalid_transition' || code === 'transaction_hash_reused') {
+          return this.paymentService.getPaymentByTransactionHash(deposit.blockchainHash);
+        }
+        throw error;
+      }
+    }
+
+    return null;
+  }
+
+  private async storeVersion(version: string, deposit: EscrowDeposit | null): Promise<void> {
+    const client = await this.db.connect();
+    try {
+      await client.query('BEGIN');
+
+      if (deposit) {
+        await client.query(
+          `INSERT INTO transaction_events (
+             event_type, blockchain_hash, ledger_version, actor, event_data, processed
+           ) VALUES ('escrow_deposit', $1, $2, 'escrow_indexer', $3, FALSE)
+           ON CONFLICT (blockchain_hash) WHERE event_type = 'escrow_deposit' DO NOTHING`,
+          [deposit.hash, version, JSON.stringify({ sender: deposit.sender, deposits: deposit.deposits })]
+        );
+      }
+
+      await client.query(
+        `INSERT INTO indexer_cursors (name, last_version) VALUES ($1, $2)
+         ON CONFLICT (name) DO UPDATE SET last_version = GREATEST(indexer_cursors.last_version, EXCLUDED.last_version)`,
+        [CURSOR_NAME, version]
+      );
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  private async markProcessed(id: string, paymentId: string): Promise<void> {
+    await this.db.query(
+      'UPDATE transaction_events SET processed = TRUE, payment_id = $1, last_error = NULL WHERE id = $2',
+      [paymentId, id]
+    );
+  }
+
+  // Retry with exponential backoff until the last attempt, then hold the deposit for review
+  private async recordFailure(deposit: IndexedDeposit, error: string): Promise<void> {
+    const attempts = deposit.attempts + 1;
+
+    if (attempts >= this.maxAttempts) {
+      await this.holdForReview(deposit, 'failed', error, attempts);
+      return;
+    }
+
+    const delay = Math.min(this.baseDelayMs * 2 ** (attempts - 1), this.maxDelayMs);
+
+    await this.db.query(
+      `UPDATE transaction_events
+       SET attempts = $1, last_error = $2, next_attempt_at = CURRENT_TIMESTAMP + ($3 || ' milliseconds')::interval
+       WHERE id = $4`,
+      [attempts, error, delay, deposit.id]
+    );
+  }
+
+  private async holdForReview(
+    deposit: IndexedDeposit,
+    reason: DepositReviewReason,
+    error: string,
+    attempts: number
+  ): Promise<void> {
+    await this.db.query(
+      `UPDATE transaction_events
+       SET processed = TRUE, review_reason = $1, last_error = $2, attempts = $3, next_attempt_at = NULL
+       WHERE id = $4`,
+      [reason, error, attempts, deposit.id]
+    );
+
+    console.warn(`Escrow deposit ${deposit.blockchainHash} held for review (${reason}): ${error}`);
+  }
+
+  private mapRowToDeposit(row: QueryResultRow): IndexedDeposit {
+    return {
+      id: row.id,
+      blockchainHash: row.blockchain_hash,
+      ledgerVersion: String(row.ledger_version),
+      sender: row.event_data.sender,
+      deposits: row.event_data.deposits,
+      attempts: row.attempts ?? 0,
+      lastError: row.last_error || undefined,
+      reviewReason: row.review_reason || undefined,
+      createdAt: row.created_at
+    };
+  }
+}
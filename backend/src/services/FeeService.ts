@@ -0,0 +1,120 @@
+import { createError } from '../middleware/errorHandler';
+import { OracleService } from './OracleService';
+import type { Merchant } from './MerchantService';
+import type { QuoteFee } from './QuoteService';
+
+export interface FeeSchedule {
+  // Platform fee as a share of the INR amount, in basis points
+  percentBps: number;
+  fixedINR: number;
+  // Margin over the oracle mid rate, in basis points
+  fxSpreadBps: number;
+  // Whether to pass on the gas the escrow spends moving the deposit
+  gasRecovery: boolean;
+}
+
+export type FeeOverrides = Partial<FeeSchedule>;
+
+const NUMERIC_FEE_FIELDS = ['percentBps', 'fixedINR', 'fxSpreadBps'] as const;
+
+const roundINR = (amount: number) => Math.round(amount * 100) / 100;
+
+const formatBps = (bps: number) => `${Number((bps / 100).toFixed(2))}%`;
+
+/**
+ * Validate a merchant's fee overrides. `null` clears them so the merchant
+ * pays the default schedule again.
+ */
+export const parseFeeOverrides = (value: unknown): FeeOverrides | null => {
+  if (value === null) {
+    return null;
+  }
+
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    throw createError('feeOverrides must be an object', 400, 'invalid_fee_overrides');
+  }
+
+  const input = value as Record<string, unknown>;
+  const overrides: FeeOverrides = {};
+
+  for (const [field, fieldValue] of Object.entries(input)) {
+    if ((NUMERIC_FEE_FIELDS as readonly string[]).includes(field)) {
+      if (typeof fieldValue !== 'number' || !Number.isFinite(fieldValue) || fieldValue < 0) {
+        throw createError(`feeOverrides.${field} must be a non-negative number`, 400, 'invalid_fee_overrides');
+      }
+      overrides[field as typeof NUMERIC_FEE_FIELDS[number]] = fieldValue;
+    } else if (field === 'gasRecovery') {
+      if (typeof fieldValue !== 'boolean') {
+        throw createError('feeOverrides.gasRecovery must be a boolean', 400, 'invalid_fee_overrides');
+      }
+      overrides.gasRecovery = fieldValue;
+    } else {
+      throw createError(`Unknown fee override: ${field}`, 400, 'invalid_fee_overrides');
+    }
+  }
+
+  return overrides;
+};
+
+/**
+ * Works out the fees on a payment: a percentage platform fee, a fixed fee,
+ * the FX spread over the mid rate and recovery of the network gas spent on
+ * the deposit. Every fee is itemized in INR and added on top of the amount
+ * the merchant receives.
+ */
+export class FeeService {
+  private oracleService: OracleService;
+  private defaults: FeeSchedule;
+  private gasUnits: number;
+  private gasUnitPriceOctas: number;
+
+  constructor(oracleService: OracleService = new OracleService()) {
+    this.oracleService = oracleService;
+    this.defaults = {
+      percentBps: parseFloat(process.env.FEE_PERCENT_BPS || '50'),
+      fixedINR: parseFloat(process.env.FEE_FIXED_INR || '0'),
+      fxSpreadBps: parseFloat(process.env.FEE_FX_SPREAD_BPS || '30'),
+      gasRecovery: process.env.FEE_GAS_RECOVERY !== 'false'
+    };
+    this.gasUnits = parseInt(process.env.FEE_GAS_UNITS || '1000');
+    this.gasUnitPriceOctas = parseInt(process.env.FEE_GAS_UNIT_PRICE_OCTAS || '100');
+  }
+
+  getSchedule(merchant?: Merchant | null): FeeSchedule {
+    return { ...this.defaults, ...merchant?.feeOverrides };
+  }
+
+  async calculateFees(amountINR: number, merchant?: Merchant | null): Promise<QuoteFee[]> {
+    const schedule = this.getSchedule(merchant);
+    const fees: QuoteFee[] = [];
+
+    if (schedule.percentBps > 0) {
+      fees.push({
+        type: 'platform_fee',
+        label: `Platform fee (${formatBps(schedule.percentBps)})`,
+        amountINR: roundINR(amountINR * schedule.percentBps / 10000)
+      });
+    }
+
+    if (schedule.fixedINR > 0) {
+      fees.push({ type: 'fixed_fee', label: 'Fixed fee', amountINR: roundINR(schedule.fixedINR) });
+    }
+
+    if (schedule.fxSpreadBps > 0) {
+      fees.push({
+        type: 'fx_spread',
+        label: `FX spread (${formatBps(schedule.fxSpreadBps)})`,
+        amountINR: roundINR(amountINR * schedule.fxSpreadBps / 10000)
+      });
+    }
+
+    if (schedule.gasRecovery) {
+      // Gas is paid in APT, whatever asset the payment is in
+      const gasAPT = (this.gasUnits * this.gasUnitPriceOctas) / 1e8;
+      const aptRate = await this.oracleService.getExchangeRate('APT', 'INR');
+      fees.push({ type: 'network_fee', label: 'Network fee', amountINR: Math.max(0.01, roundINR(gasAPT * aptRate)) });
+    }
+
+    return fees.filter(fee => fee.amountINR > 0);
+  }
+}
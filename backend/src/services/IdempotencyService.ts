@@ -0,0 +1,86 @@
+import { Pool, QueryResultRow } from 'pg';
+import { db } from '../config/database';
+
+export interface IdempotencyRecord {
+  key: string;
+  scope: string;
+  fingerprint: string;
+  status: 'in_progress' | 'completed';
+  responseStatus?: number;
+  responseBody?: unknown;
+  createdAt: Date;
+}
+
+export class IdempotencyService {
+  private db: Pool;
+  private lockTimeoutMs: number;
+
+  constructor() {
+    this.db = db;
+    // How long a key stays in progress before a retry of the same request may take it over
+    this.lockTimeoutMs = parseInt(process.env.IDEMPOTENCY_LOCK_TIMEOUT_MS || '300000');
+  }
+
+  /**
+   * Claim an idempotency key for a request. Returns null when the key was
+   * free and is now held by the caller, otherwise the existing record. A key
+   * left in progress past the lock timeout, e.g. by a process that died
+   * mid-request, is taken over by a retry with the same body.
+   */
+  async claim(scope: string, key: string, fingerprint: string): Promise<IdempotencyRecord | null> {
+    const insertQuery = `
+      INSERT INTO idempotency_keys (scope, idempotency_key, request_fingerprint, status, locked_at)
+      VALUES ($1, $2, $3, 'in_progress', CURRENT_TIMESTAMP)
+      ON CONFLICT (scope, idempotency_key) DO UPDATE SET locked_at = CURRENT_TIMESTAMP
+        WHERE idempotency_keys.status = 'in_progress'
+          AND idempotency_keys.request_fingerprint = EXCLUDED.request_fingerprint
+          AND idempotency_keys.locked_at < CURRENT_TIMESTAMP - ($4 || ' milliseconds')::interval
+      RETURNING *
+    `;
+    const inserted = await this.db.query(insertQuery, [scope, key, fingerprint, this.lockTimeoutMs]);
+
+    if (inserted.rows.length > 0) {
+      return null;
+    }
+
+    const existing = await this.db.query(
+      'SELECT * FROM idempotency_keys WHERE scope = $1 AND idempotency_key = $2',
+      [scope, key]
+    );
+
+    // The row may have been released between the insert and the select; retry the claim
+    if (existing.rows.length === 0) {
+      return this.claim(scope, key, fingerprint);
+    }
+
+    return this.mapRowToRecord(existing.rows[0]);
+  }
+
+  async complete(scope: string, key: string, responseStatus: number, responseBody: unknown): Promise<void> {
+    const query = `
+      UPDATE idempotency_keys
+      SET status = 'completed', response_status = $1, response_body = $2, completed_at = CURRENT_TIMESTAMP
+      WHERE scope = $3 AND idempotency_key = $4
+    `;
+    await this.db.query(query, [responseStatus, JSON.stringify(responseBody), scope, key]);
+  }
+
+  async release(scope: string, key: string): Promise<void> {
+    await this.db.query(
+      'DELETE FROM idempotency_keys WHERE scope = $1 AND idempotency_key = $2',
+      [scope, key]
+    );
+  }
+
+  private mapRowToRecord(row: QueryResultRow): IdempotencyRecord {
+    return {
+      key: row.idempotency_key,
+      scope: row.scope,
+      fingerprint: row.request_fingerprint,
+      status: row.status,
+      responseStatus: row.response_status ?? undefined,
+      responseBody: row.response_body ?? undefined,
+      createdAt: row.created_at
+    };
+  }
+}
@@ -0,0 +1,273 @@
+import { Pool, QueryResultRow } from 'pg';
+import { validate as isUuid } from 'uuid';
+import { db } from '../config/database';
+import { createError } from '../middleware/errorHandler';
+import { FeeOverrides, parseFeeOverrides } from './FeeService';
+import { PayoutProviderName, parsePayoutProvider } from './PayoutProviders';
+
+export interface Merchant {
+  id: string;
+  name: string;
+  email?: string;
+  phone?: string;
+  upiId: string;
+  businessType?: string;
+  address?: string;
+  verified: boolean;
+  // Replaces parts of the default fee schedule for this merchant
+  feeOverrides?: FeeOverrides;
+  // Pays the merchant out through this provider instead of the default
+  payoutProvider?: PayoutProviderName;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CreateMerchantData {
+  name: string;
+  email?: string;
+  phone?: string;
+  upiId: string;
+  businessType?: string;
+  address?: string;
+  verified?: boolean;
+  feeOverrides?: FeeOverrides | null;
+  payoutProvider?: PayoutProviderName | null;
+}
+
+export type UpdateMerchantData = Partial<CreateMerchantData>;
+
+// Column for each updatable field
+const MERCHANT_COLUMNS: Record<keyof CreateMerchantData, string> = {
+  name: 'name',
+  email: 'email',
+  phone: 'phone',
+  upiId: 'upi_id',
+  businessType: 'business_type',
+  address: 'address',
+  verified: 'verified',
+  feeOverrides: 'fee_overrides',
+  payoutProvider: 'payout_provider'
+};
+
+const VPA_PATTERN = /^[a-zA-Z0-9.\-_]{2,256}@[a-zA-Z][a-zA-Z0-9]{1,63}$/;
+
+export const isValidVpa = (value: string): boolean => VPA_PATTERN.test(value);
+
+// VPAs are case-insensitive, so store and compare them in one form
+export const normalizeVpa = (value: string): string => value.trim().toLowerCase();
+
+export class MerchantService {
+  private db: Pool;
+
+  constructor() {
+    this.db = db;
+  }
+
+  async createMerchant(data: CreateMerchantData): Promise<Merchant> {
+    const upiId = this.parseVpa(data.upiId);
+
+    const query = `
+      INSERT INTO merchants (name, email, phone, upi_id, business_type, address, verified, fee_overrides, payout_provider)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+      RETURNING *
+    `;
+
+    try {
+      const result = await this.db.query(query, [
+        data.name,
+        data.email || null,
+        data.phone || null,
+        upiId,
+        data.businessType || null,
+        data.address || null,
+        data.verified ?? false,
+        data.feeOverrides === undefined ? null : parseFeeOverrides(data.feeOverrides),
+        data.payoutProvider === undefined ? null : parsePayoutProvider(data.payoutProvider)
+      ]);
+      return this.mapRowToMerchant(result.rows[0]);
+    } catch (error) {
+      throw this.mapConstraintError(error);
+    }
+  }
+
+  async getMerchantById(id: string): Promise<Merchant | null> {
+    if (!isUuid(id)) {
+      return null;
+    }
+
+    const result = await this.db.query('SELECT * FROM merchants WHERE id = $1', [id]);
+    return result.rows.length > 0 ? this.mapRowToMerchant(result.rows[0]) : null;
+  }
+
+  async getMerchantByUpiId(upiId: string): Promise<Merchant | null> {
+    const result = await this.db.query('SELECT * FROM merchants WHERE upi_id = $1', [normalizeVpa(upiId)]);
+    return result.rows.length > 0 ? this.mapRowToMerchant(result.rows[0]) : null;
+  }
+
+  async listMerchants(
+    page: number = 1,
+    limit: number = 20,
+    filters: { verified?: boolean } = {}
+  ): Promise<{ merchants: Merchant[]; total: number; page: number; totalPages: number }> {
+    const offset = (page - 1) * limit;
+    const where = filters.verified === undefined ? '' : 'WHERE verified = $1';
+    const params = filters.verified === undefined ? [] : [filters.verified];
+
+    const countResult = await this.db.query(`SELECT COUNT(*) FROM merchants ${where}`, params);
+    const total = parseInt(countResult.rows[0].count);
+
+    const result = await this.db.query(
+      `SELECT * FROM merchants ${where}
+       ORDER BY created_at DESC
+       LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+      [...params, limit, offset]
+    );
+
+    return {
+      merchants: result.rows.map(row => this.mapRowToMerchant(row)),
+      total,
+      page,
+      totalPages: Math.ceil(total / limit)
+    };
+  }
+
+  async updateMerchant(id: string, data: UpdateMerchantData): Promise<Merchant> {
+    if (!isUuid(id)) {
+      throw createError('Merchant not found', 404);
+    }
+
+    const values: unknown[] = [];
+    const assignments: string[] = [];
+
+    for (const [field, column] of Object.entries(MERCHANT_COLUMNS) as [keyof CreateMerchantData, string][]) {
+      if (data[field] === undefined) {
+        continue;
+      }
+      if (field === 'upiId') {
+        values.push(this.parseVpa(data.upiId as string));
+      } else if (field === 'feeOverrides') {
+        values.push(parseFeeOverrides(data.feeOverrides));
+      } else if (field === 'payoutProvider') {
+        values.push(parsePayoutProvider(data.payoutProvider));
+      } else {
+        values.push(data[field]);
+      }
+      assignments.push(`${column} = $${values.length}`);
+    }
+
+    if (assignments.length === 0) {
+      throw createError('No merchant fields to update', 400);
+    }
+
+    values.push(id);
+    const query = `UPDATE merchants SET ${assignments.join(', ')} WHERE id = $${values.length} RETURNING *`;
+
+    try {
+      const result = await this.db.query(query, values);
+      if (result.rows.length === 0) {
+        throw createError('Merchant not found', 404);
+      }
+      return this.mapRowToMerchant(result.rows[0]);
+    } catch (error) {
+      throw this.mapConstraintError(error);
+    }
+  }
+
+  async deleteMerchant(id: string): Promise<void> {
+    if (!isUuid(id)) {
+      throw createError('Merchant not found', 404);
+    }
+
+    try {
+      const result = await this.db.query('DELETE FROM merchants WHERE id = $1', [id]);
+      if (result.rowCount === 0) {
+        throw createError('Merchant not found', 404);
+      }
+    } catch (error) {
+      throw this.mapConstraintError(error);
+    }
+  }
+
+  // Look up a merchant by id or VPA without creating one for unknown VPAs
+  async findMerchant(idOrVpa: string): Promise<Merchant | null> {
+    if (isUuid(idOrVpa)) {
+      const merchant = await this.getMerchantById(idOrVpa);
+      if (!merchant) {
+        throw createError('Merchant not found', 404);
+      }
+      return merchant;
+    }
+
+    return this.getMerchantByUpiId(idOrVpa);
+  }
+
+  /**
+   * Resolve the merchant a payment is for. Ids must exist; VPAs that have
+   * never been seen get an unverified merchant record on the fly.
+   */
+  async resolveMerchant(idOrVpa: string, name?: string): Promise<Merchant> {
+    if (isUuid(idOrVpa)) {
+      const merchant = await this.getMerchantById(idOrVpa);
+      if (!merchant) {
+        throw createError('Merchant not found', 404);
+      }
+      return merchant;
+    }
+
+    const upiId = this.parseVpa(idOrVpa);
+
+    // No-op update so the existing row is returned when another request created it first
+    const query = `
+      INSERT INTO merchants (name, upi_id, verified)
+      VALUES ($1, $2, FALSE)
+      ON CONFLICT (upi_id) DO UPDATE SET upi_id = EXCLUDED.upi_id
+      RETURNING *
+    `;
+    const result = await this.db.query(query, [name?.trim() || upiId, upiId]);
+    return this.mapRowToMerchant(result.rows[0]);
+  }
+
+  private parseVpa(value: unknown): string {
+    const upiId = typeof value === 'string' ? normalizeVpa(value) : '';
+    if (!isValidVpa(upiId)) {
+      throw createError('Invalid UPI ID', 400, 'invalid_vpa');
+    }
+    return upiId;
+  }
+
+  private mapConstraintError(error: unknown): unknown {
+    const pgError = error as { code?: string; constraint?: string };
+
+    if (pgError.code === '23505' && pgError.constraint === 'merchants_upi_id_key') {
+      return createError('A merchant with this UPI ID already exists', 409, 'merchant_exists');
+    }
+
+    if (pgError.code === '23505' && pgError.constraint === 'merchants_email_key') {
+      return createError('A merchant with this email already exists', 409, 'merchant_exists');
+    }
+
+    // Payments keep a reference to their merchant
+    if (pgError.code === '23503') {
+      return createError('Merchant has payments and cannot be deleted', 409, 'merchant_in_use');
+    }
+
+    return error;
+  }
+
+  private mapRowToMerchant(row: QueryResultRow): Merchant {
+    return {
+      id: row.id,
+      name: row.name,
+      email: row.email || undefined,
+      phone: row.phone || undefined,
+      upiId: row.upi_id,
+      businessType: row.business_type || undefined,
+      address: row.address || undefined,
+      verified: row.verified,
+      feeOverrides: row.fee_overrides || undefined,
+      payoutProvider: row.payout_provider || undefined,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    };
+  }
+}
@@ -0,0 +1,140 @@
+import axios from 'axios';
+import fs from 'fs/promises';
+import path from 'path';
+import { createError } from '../middleware/errorHandler';
+import { assertPublicUrl, publicLookup } from './OutboundUrlGuard';
+
+export type NotificationChannelType = 'email' | 'push' | 'sms';
+
+export interface OutgoingNotification {
+  id: string;
+  // Email address, phone number or Web Push subscription endpoint
+  recipientAddress: string;
+  title: string;
+  message: string;
+}
+
+/**
+ * Delivers one notification over a channel. Adapters throw when delivery
+ * fails; the notification service records the error and retries.
+ */
+export interface NotificationChannel {
+  type: NotificationChannelType;
+  send(notification: OutgoingNotification): Promise<void>;
+}
+
+/**
+ * Local email sink. Writes each email as a JSON line to
+ * `NOTIFICATION_EMAIL_OUTBOX`, or to the console when that is unset.
+ */
+export class FileEmailChannel implements NotificationChannel {
+  type: NotificationChannelType = 'email';
+  private outboxPath?: string;
+
+  constructor() {
+    this.outboxPath = process.env.NOTIFICATION_EMAIL_OUTBOX;
+  }
+
+  async send(notification: OutgoingNotification): Promise<void> {
+    const email = {
+      id: notification.id,
+      to: notification.recipientAddress,
+      subject: notification.title,
+      text: notification.message,
+      sentAt: new Date().toISOString()
+    };
+
+    if (!this.outboxPath) {
+      console.log('📧 Email:', JSON.stringify(email));
+      return;
+    }
+
+    await fs.mkdir(path.dirname(this.outboxPath), { recursive: true });
+    await fs.appendFile(this.outboxPath, `${JSON.stringify(email)}\n`);
+  }
+}
+
+// Push services of the major browsers: Chrome, Firefox, Safari and Edge
+const PUSH_SERVICE_HOSTS = ['fcm.googleapis.com', 'updates.push.services.mozilla.com', 'web.push.apple.com'];
+const PUSH_SERVICE_HOST_SUFFIXES = ['.notify.windows.com', '.push.apple.com'];
+
+/**
+ * Check that a Web Push endpoint belongs to a browser push service, or to a
+ * host in `WEB_PUSH_ALLOWED_HOSTS` such as a local push receiver, and that
+ * it resolves to a public address. Push services must be reached over
+ * https; allow-listed hosts may use http.
+ */
+export const assertPushEndpoint = async (endpoint: string): Promise<URL> => {
+  const url = await assertPublicUrl(endpoint, 'Push subscription endpoint');
+  const host = url.hostname.toLowerCase();
+  const allowedHosts = (process.env.WEB_PUSH_ALLOWED_HOSTS || '')
+    .split(',')
+    .map(allowed => allowed.trim().toLowerCase())
+    .filter(Boolean);
+
+  if (allowedHosts.includes(host)) {
+    return url;
+  }
+
+  const isPushService = PUSH_SERVICE_HOSTS.includes(host) ||
+    PUSH_SERVICE_HOST_SUFFIXES.some(suffix => host.endsWith(suffix));
+
+  if (!isPushService || url.protocol !== 'https:') {
+    throw createError('Push subscription endpoint is not a known push service', 400, 'unsupported_push_service');
+  }
+
+  return url;
+};
+
+/**
+ * Web Push adapter that POSTs the notification as JSON to the
+ * subscription's endpoint. Fits local push receivers; browser push
+ * services additionally need VAPID and payload encryption.
+ */
+export class WebPushChannel implements NotificationChannel {
+  type: NotificationChannelType = 'push';
+  private timeoutMs: number;
+
+  constructor() {
+    this.timeoutMs = parseInt(process.env.WEB_PUSH_TIMEOUT_MS || '10000');
+  }
+
+  async send(notification: OutgoingNotification): Promise<void> {
+    // Endpoints are checked again in case the allow-list or DNS changed since subscribing
+    await assertPushEndpoint(notification.recipientAddress);
+
+    const response = await axios.post(
+      notification.recipientAddress,
+      { title: notification.title, body: notification.message, tag: notification.id },
+      {
+        headers: {
+          'Content-Type': 'application/json',
+          'TTL': '86400'
+        },
+        timeout: this.timeoutMs,
+        lookup: publicLookup,
+        maxRedirects: 0,
+        validateStatus: () => true
+      }
+    );
+
+    if (response.status < 200 || response.status >= 300) {
+      throw new Error(`Push service responded with HTTP ${response.status}`);
+    }
+  }
+}
+
+// Stand-in until an SMS provider is wired up
+export class SmsStubChannel implements NotificationChannel {
+  type: NotificationChannelType = 'sms';
+
+  async send(notification: OutgoingNotification): Promise<void> {
+    console.log(`📱 SMS to ${notification.recipientAddress}: ${notification.title} - ${notification.message}`);
+  }
+}
+
+export const createNotificationChannels = (): Record<NotificationChannelType, NotificationChannel> => ({
+  email: new FileEmailChannel(),
+  push: new WebPushChannel(),
+  sms: new SmsStubChannel()
+});
@@ -0,0 +1,291 @@
+import { Pool, PoolClient, QueryResultRow } from 'pg';
+import { db } from '../config/database';
+import { createError } from '../middleware/errorHandler';
+import { normalizeAddress } from './AptosService';
+import {
+  NotificationChannel,
+  NotificationChannelType,
+  assertPushEndpoint,
+  createNotificationChannels
+} from './NotificationChannels';
+import type { Payment } from './PaymentService';
+
+export type NotificationEvent = 'payment_confirmed' | 'payout_completed' | 'refund_issued';
+
+export type NotificationStatus = 'pending' | 'sending' | 'sent' | 'failed';
+
+export interface Notification {
+  id: string;
+  paymentId?: string;
+  eventType: NotificationEvent;
+  recipientType: 'user' | 'merchant';
+  recipientId: string;
+  recipientAddress: string;
+  notificationType: NotificationChannelType;
+  title: string;
+  message: string;
+  status: NotificationStatus;
+  attempts: number;
+  maxAttempts: number;
+  nextAttemptAt: Date;
+  lastError?: string;
+  sentAt?: Date;
+  createdAt: Date;
+}
+
+interface NotificationContent {
+  title: string;
+  message: string;
+}
+
+/**
+ * Notifies payers and merchants of key payment events. Records are written
+ * to the notifications table, one per recipient and channel, and dispatched
+ * by the notification worker through the channel adapters with retries.
+ */
+export class NotificationService {
+  private db: Pool;
+  private channels: Record<NotificationChannelType, NotificationChannel>;
+  private maxAttempts: number;
+  private baseDelayMs: number;
+  private maxDelayMs: number;
+  private lockTimeoutMs: number;
+
+  constructor() {
+    this.db = db;
+    this.channels = createNotificationChannels();
+    this.maxAttempts = parseInt(process.env.NOTIFICATION_MAX_ATTEMPTS || '5');
+    this.baseDelayMs = parseInt(process.env.NOTIFICATION_RETRY_BASE_DELAY_MS || '30000');
+    this.maxDelayMs = parseInt(process.env.NOTIFICATION_RETRY_MAX_DELAY_MS || '3600000');
+    this.lockTimeoutMs = parseInt(process.env.NOTIFICATION_LOCK_TIMEOUT_MS || '120000');
+  }
+
+  /**
+   * Create the notifications for a payment event: email and SMS to the
+   * merchant where it has those contacts, and Web Push to the payer's
+   * subscribed browsers. Accepts a transaction client so that records can
+   * be written together with the change that caused them.
+   */
+  async enqueueForPayment(
+    queryable: Pool | PoolClient,
+    event: NotificationEvent,
+    payment: Payment,
+    detail?: string
+  ): Promise<void> {
+    if (event !== 'refund_issued') {
+      const merchantContent = this.renderMerchantContent(event, payment);
+
+      for (const [channel, column] of [['email', 'email'], ['sms', 'phone']] as const) {
+        await queryable.query(
+          `INSERT INTO notifications (
+             payment_id, event_type, recipient_type, recipient_id, recipient_address,
+             notification_type, title, message, max_attempts
+           )
+           SELECT $1, $2, 'merchant', id, ${column}, $3, $4, $5, $6 FROM merchants
+           WHERE id = $7 AND ${column} IS NOT NULL`,
+          [payment.id, event, channel, merchantContent.title, merchantContent.message, this.maxAttempts, payment.merchantId]
+        );
+      }
+    }
+
+    let walletAddress: string;
+    try {
+      walletAddress = normalizeAddress(payment.walletAddress);
+    } catch {
+      return;
+    }
+
+    const userContent = this.renderUserContent(event, payment, detail);
+    await queryable.query(
+      `INSERT INTO notifications (
+         payment_id, event_type, recipient_type, recipient_id, recipient_address,
+         notification_type, title, message, max_attempts
+       )
+       SELECT $1, $2, 'user', wallet_address, endpoint, 'push', $3, $4, $5 FROM push_subscriptions
+       WHERE wallet_address = $6`,
+      [payment.id, event, userContent.title, userContent.message, this.maxAttempts, walletAddress]
+    );
+  }
+
+  async subscribePush(walletAddress: string, endpoint: string): Promise<void> {
+    const url = await assertPushEndpoint(endpoint);
+
+    // A browser subscription stays with the wallet that registered it first
+    const result = await this.db.query(
+      `INSERT INTO push_subscriptions (wallet_address, endpoint)
+       VALUES ($1, $2)
+       ON CONFLICT (endpoint) DO UPDATE SET endpoint = EXCLUDED.endpoint
+       WHERE push_subscriptions.wallet_address = EXCLUDED.wallet_address
+       RETURNING id`,
+      [walletAddress, url.toString()]
+    );
+
+    if (result.rows.length === 0) {
+      throw createError('Push subscription is registered to another wallet', 409, 'push_subscription_taken');
+    }
+  }
+
+  async unsubscribePush(walletAddress: string, endpoint: string): Promise<void> {
+    await this.db.query(
+      'DELETE FROM push_subscriptions WHERE wallet_address = $1 AND endpoint = $2',
+      [walletAddress, endpoint]
+    );
+  }
+
+  async listNotifications(
+    page: number = 1,
+    limit: number = 20,
+    filters: { status?: NotificationStatus; paymentId?: string } = {}
+  ): Promise<{ notifications: Notification[]; total: number; page: number; totalPages: number }> {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+
+    if (filters.status) {
+      params.push(filters.status);
+      conditions.push(`status = $${params.length}`);
+    }
+
+    if (filters.paymentId) {
+      params.push(filters.paymentId);
+      conditions.push(`payment_id = $${params.length}`);
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const countResult = await this.db.query(`SELECT COUNT(*) FROM notifications ${where}`, params);
+    const total = parseInt(countResult.rows[0].count);
+
+    const result = await this.db.query(
+      `SELECT * FROM notifications ${where}
+       ORDER BY created_at DESC
+       LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+      [...params, limit, (page - 1) * limit]
+    );
+
+    return {
+      notifications: result.rows.map(row => this.mapRowToNotification(row)),
+      total,
+      page,
+      totalPages: Math.ceil(total / limit)
+    };
+  }
+
+  /**
+   * Claim due notifications for dispatch. Notifications left in `sending`
+   * by a worker that died are picked up again once their lock times out.
+   */
+  async claimDueNotifications(limit: number): Promise<Notification[]> {
+    const query = `
+      UPDATE notifications SET status = 'sending', locked_at = CURRENT_TIMESTAMP
+      WHERE id IN (
+        SELECT id FROM notifications
+        WHERE (status = 'pending' AND next_attempt_at <= CURRENT_TIMESTAMP)
+           OR (status = 'sending' AND locked_at < CURRENT_TIMESTAMP - ($1 || ' milliseconds')::interval)
+        ORDER BY next_attempt_at ASC
+        LIMIT $2
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING *
+    `;
+    const result = await this.db.query(query, [this.lockTimeoutMs, limit]);
+    return result.rows.map(row => this.mapRowToNotification(row));
+  }
+
+  async dispatch(notification: Notification): Promise<void> {
+    const attempts = notification.attempts + 1;
+
+    try {
+      await this.channels[notification.notificationType].send({
+        id: notification.id,
+        recipientAddress: notification.recipientAddress,
+        title: notification.title,
+        message: notification.message
+      });
+    } catch (err) {
+      const error = err instanceof Error ? err.message : 'Delivery failed';
+
+      if (attempts >= notification.maxAttempts) {
+        await this.db.query(
+          `UPDATE notifications SET status = 'failed', attempts = $1, last_error = $2, locked_at = NULL WHERE id = $3`,
+          [attempts, error, notification.id]
+        );
+        return;
+      }
+
+      // Exponential backoff with jitter, as for payouts and webhooks
+      const delay = Math.min(this.baseDelayMs * 2 ** (attempts - 1), this.maxDelayMs);
+      const jitter = Math.floor(Math.random() * delay * 0.2);
+
+      await this.db.query(
+        `UPDATE notifications
+         SET status = 'pending', attempts = $1, last_error = $2, locked_at = NULL,
+             next_attempt_at = CURRENT_TIMESTAMP + ($3 || ' milliseconds')::interval
+         WHERE id = $4`,
+        [attempts, error, delay + jitter, notification.id]
+      );
+      return;
+    }
+
+    await this.db.query(
+      `UPDATE notifications
+       SET status = 'sent', attempts = $1, sent_at = CURRENT_TIMESTAMP, last_error = NULL, locked_at = NULL
+       WHERE id = $2`,
+      [attempts, notification.id]
+    );
+  }
+
+  private renderMerchantContent(event: NotificationEvent, payment: Payment): NotificationContent {
+    if (event === 'payout_completed') {
+      return {
+        title: 'Payout completed',
+        message: `₹${payment.amountINR.toFixed(2)} has been paid out to ${payment.merchantUpiId} for payment ${payment.id}.`
+      };
+    }
+
+    return {
+      title: 'Payment received',
+      message: `A payment of ₹${payment.amountINR.toFixed(2)} (${payment.stablecoinAmount} ${payment.asset}) was confirmed. ` +
+        `The payout to ${payment.merchantUpiId} is on its way.`
+    };
+  }
+
+  private renderUserContent(event: NotificationEvent, payment: Payment, detail?: string): NotificationContent {
+    switch (event) {
+      case 'payment_confirmed':
+        return {
+          title: 'Payment confirmed',
+          message: `Your payment of ${payment.stablecoinAmount} ${payment.asset} (₹${payment.amountINR.toFixed(2)}) was received.`
+        };
+      case 'payout_completed':
+        return {
+          title: 'Payment complete',
+          message: `₹${payment.amountINR.toFixed(2)} has reached ${payment.merchantUpiId}.`
+        };
+      case 'refund_issued':
+        return {
+          title: 'Refund issued',
+          message: `${detail || 'Your deposit'} has been refunded to your wallet for payment ${payment.id}.`
+        };
+    }
+  }
+
+  private mapRowToNotification(row: QueryResultRow): Notification {
+    return {
+      id: row.id,
+      paymentId: row.payment_id || undefined,
+      eventType: row.event_type,
+      recipientType: row.recipient_type,
+      recipientId: row.recipient_id,
+      recipientAddress: row.recipient_address,
+      notificationType: row.notification_type,
+      title: row.title,
+      message: row.message,
+      status: row.status,
+      attempts: row.attempts,
+      maxAttempts: row.max_attempts,
+      nextAttemptAt: row.next_attempt_at,
+      lastError: row.last_error || undefined,
+      sentAt: row.sent_at || undefined,
+      createdAt: row.created_at
+    };
+  }
+}
@@ -1,4 +1,7 @@
-import axios from 'axios';
+import { Pool } from 'pg';
+import { db } from '../config/database';
+import { createError } from '../middleware/errorHandler';
+import { PriceProvider, PriceQuote, createPriceProviders } from './PriceProviders';
 
 export interface ExchangeRate {
   from: string;
@@ -7,103 +10,287 @@ export interface ExchangeRate {
   timestamp: Date;
 }
 
+// Assets we accept payment in, each priced against INR
+export const SUPPORTED_ASSETS = ['APT', 'USDC', 'USDT'];
+
+export interface RateInfo {
+  pair: string;
+  from: string;
+  to: string;
+  rate: number;
+  // When the oracle aggregated the rate
+  updatedAt: Date;
+  // When the oldest provider quote behind the rate was observed
+  quotedAt: Date;
+  sources: string[];
+}
+
+export interface RateStatus {
+  pair: string;
+  from: string;
+  to: string;
+  available: boolean;
+  rate?: number;
+  updatedAt?: Date;
+  quotedAt?: Date;
+  ageSeconds?: number;
+  sources?: string[];
+  error?: string;
+}
+
+export interface RateCandle {
+  time: Date;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  // Number of recorded rates in the bucket
+  samples: number;
+}
+
+export interface RateHistory {
+  pair: string;
+  interval: string;
+  from: Date;
+  to: Date;
+  candles: RateCandle[];
+}
+
+// Bucket sizes accepted by the history API, in seconds
+export const RATE_HISTORY_INTERVALS: Record<string, number> = {
+  '5m': 300,
+  '15m': 900,
+  '1h': 3600,
+  '4h': 14400,
+  '1d': 86400
+};
+
+const MAX_HISTORY_CANDLES = 1000;
+
+interface SourceQuote {
+  source: string;
+  rate?: number;
+  observedAt?: string;
+  accepted: boolean;
+  reason?: 'failed' | 'stale' | 'outlier';
+}
+
+/**
+ * Aggregates exchange rates from several independent price providers. The
+ * rate is the median of the fresh quotes once outliers are discarded, and
+ * the oracle refuses to quote rather than guess when too few sources agree.
+ * Pairs that too few providers quote directly are crossed via USD, e.g.
+ * APT/INR as APT/USD × USD/INR. Each accepted rate is recorded in
+ * exchange_rates along with its sources.
+ */
 export class OracleService {
-  private cache: Map<string, { rate: number; timestamp: Date }> = new Map();
+  private db: Pool;
+  private providers: PriceProvider[];
+  private cache: Map<string, RateInfo> = new Map();
   private cacheTimeout = 60000; // 1 minute cache
+  private minSources: number;
+  private maxDeviationBps: number;
+  private maxQuoteAgeMs: number;
+  private maxFiatQuoteAgeMs: number;
+
+  constructor(providers: PriceProvider[] = createPriceProviders()) {
+    this.db = db;
+    this.providers = providers;
+    this.minSources = parseInt(process.env.ORACLE_MIN_SOURCES || '2');
+    this.maxDeviationBps = parseInt(process.env.ORACLE_MAX_DEVIATION_BPS || '100');
+    this.maxQuoteAgeMs = parseInt(process.env.ORACLE_MAX_QUOTE_AGE_SECONDS || '300') * 1000;
+    // Fiat feeds such as USD/INR publish about once a day, so their quotes get a separate limit
+    this.maxFiatQuoteAgeMs = parseInt(process.env.ORACLE_MAX_FIAT_QUOTE_AGE_SECONDS || '90000') * 1000;
+  }
 
   async getExchangeRate(fromCurrency: string, toCurrency: string): Promise<number> {
+    return (await this.getRateInfo(fromCurrency, toCurrency)).rate;
+  }
+
+  async getRateInfo(fromCurrency: string, toCurrency: string): Promise<RateInfo> {
     const cacheKey = `${fromCurrency}-${toCurrency}`;
     const cached = this.cache.get(cacheKey);
-    
+
     // Return cached rate if still valid
-    if (cached && Date.now() - cached.timestamp.getTime() < this.cacheTimeout) {
-      return cached.rate;
+    if (cached && Date.now() - cached.updatedAt.getTime() < this.cacheTimeout) {
+      return cached;
     }
 
-    try {
-      let rate: number;
-      
-      if (fromCurrency === 'USDC' && toCurrency === 'INR') {
-        rate = await this.getUSDCToINRRate();
-      } else if (fromCurrency === 'INR' && toCurrency === 'USDC') {
-        const usdcToInr = await this.getUSDCToINRRate();
-        rate = 1 / usdcToInr;
-      } else {
-        throw new Error(`Unsupported currency pair: ${fromCurrency}/${toCurrency}`);
-      }
+    const info = await this.resolveRate(fromCurrency, toCurrency);
+    this.cache.set(cacheKey, info);
+    return info;
+  }
+
+  /**
+   * Current rate and freshness of every supported asset against INR. Pairs
+   * the oracle cannot quote right now are listed as unavailable.
+   */
+  async listRates(): Promise<RateStatus[]> {
+    const rates: RateStatus[] = [];
+
+    // One pair at a time, so that shared legs such as USD/INR come from the cache
+    for (const asset of SUPPORTED_ASSETS) {
+      const pair = { pair: `${asset}/INR`, from: asset, to: 'INR' };
 
-      // Cache the rate
-      this.cache.set(cacheKey, {
-        rate,
-        timestamp: new Date()
-      });
-
-      return rate;
-    } catch (error) {
-      console.error('Error fetching exchange rate:', error);
-      
-      // Return cached rate if available, even if expired
-      if (cached) {
-        console.warn('Using expired cached rate due to API error');
-        return cached.rate;
+      try {
+        const info = await this.getRateInfo(asset, 'INR');
+        rates.push({
+          ...info,
+          available: true,
+          ageSeconds: Math.floor((Date.now() - info.quotedAt.getTime()) / 1000)
+        });
+      } catch (err) {
+        rates.push({ ...pair, available: false, error: err instanceof Error ? err.message : 'Rate unavailable' });
       }
-      
-      // Fallback rate for demo purposes
-      console.warn('Using fallback exchange rate');
-      return fromCurrency === 'USDC' && toCurrency === 'INR' ? 84.0 : 0.012;
     }
+
+    return rates;
   }
 
-  private async getUSDCToINRRate(): Promise<number> {
-    try {
-      // Using CoinGecko API for demo (free tier)
-      const response = await axios.get(
-        'https://api.coingecko.com/api/v3/simple/price',
-        {
-          params: {
-            ids: 'usd-coin',
-            vs_currencies: 'inr'
-          },
-          timeout: 5000
-        }
-      );
+  private async resolveRate(fromCurrency: string, toCurrency: string): Promise<RateInfo> {
+    if (this.hasEnoughSources(fromCurrency, toCurrency)) {
+      return this.aggregateRate(fromCurrency, toCurrency);
+    }
 
-      const rate = response.data['usd-coin']?.inr;
-      
-      if (!rate) {
-        throw new Error('Invalid response from price API');
-      }
+    if (this.hasEnoughSources(toCurrency, fromCurrency)) {
+      const inverse = await this.getRateInfo(toCurrency, fromCurrency);
+      return { ...inverse, pair: `${fromCurrency}/${toCurrency}`, from: fromCurrency, to: toCurrency, rate: 1 / inverse.rate };
+    }
+
+    if (fromCurrency !== 'USD' && toCurrency !== 'USD' &&
+        this.canResolveDirectly(fromCurrency, 'USD') && this.canResolveDirectly('USD', toCurrency)) {
+      return this.crossRate(fromCurrency, toCurrency);
+    }
 
-      return rate;
-    } catch (error) {
-      console.error('Error fetching USDC/INR rate from CoinGecko:', error);
-      
-      // Try alternative API or fallback
-      return this.getFallbackUSDCToINRRate();
+    // Quote from whatever sources there are, which fails with 503 below the minimum
+    if (this.providers.some(provider => provider.supports(fromCurrency, toCurrency))) {
+      return this.aggregateRate(fromCurrency, toCurrency);
     }
+
+    throw createError(`Unsupported currency pair: ${fromCurrency}/${toCurrency}`, 400, 'unsupported_currency_pair');
   }
 
-  private async getFallbackUSDCToINRRate(): Promise<number> {
-    try {
-      // Alternative: Use USD/INR rate (since USDC ≈ 1 USD)
-      const response = await axios.get(
-        'https://api.exchangerate-api.com/v4/latest/USD',
-        { timeout: 5000 }
-      );
+  private hasEnoughSources(fromCurrency: string, toCurrency: string): boolean {
+    return this.providers.filter(provider => provider.supports(fromCurrency, toCurrency)).length >= this.minSources;
+  }
 
-      const inrRate = response.data.rates?.INR;
-      
-      if (!inrRate) {
-        throw new Error('Invalid response from exchange rate API');
+  private canResolveDirectly(fromCurrency: string, toCurrency: string): boolean {
+    return this.hasEnoughSources(fromCurrency, toCurrency) || this.hasEnoughSources(toCurrency, fromCurrency);
+  }
+
+  private async crossRate(fromCurrency: string, toCurrency: string): Promise<RateInfo> {
+    const [fromLeg, toLeg] = await Promise.all([
+      this.getRateInfo(fromCurrency, 'USD'),
+      this.getRateInfo('USD', toCurrency)
+    ]);
+    const rate = fromLeg.rate * toLeg.rate;
+    const legs: SourceQuote[] = [fromLeg, toLeg].map(leg => ({
+      source: leg.pair,
+      rate: leg.rate,
+      observedAt: leg.quotedAt.toISOString(),
+      accepted: true
+    }));
+
+    await this.recordRate(fromCurrency, toCurrency, rate, 'cross', legs);
+
+    return {
+      pair: `${fromCurrency}/${toCurrency}`,
+      from: fromCurrency,
+      to: toCurrency,
+      rate,
+      updatedAt: new Date(),
+      quotedAt: fromLeg.quotedAt < toLeg.quotedAt ? fromLeg.quotedAt : toLeg.quotedAt,
+      sources: [...new Set([...fromLeg.sources, ...toLeg.sources])]
+    };
+  }
+
+  private async aggregateRate(fromCurrency: string, toCurrency: string): Promise<RateInfo> {
+    const providers = this.providers.filter(provider => provider.supports(fromCurrency, toCurrency));
+    const results = await Promise.allSettled(providers.map(provider => provider.getRate(fromCurrency, toCurrency)));
+
+    const sources: SourceQuote[] = [];
+    const fresh: PriceQuote[] = [];
+    const isFiatPair = !SUPPORTED_ASSETS.includes(fromCurrency) && !SUPPORTED_ASSETS.includes(toCurrency);
+    const maxQuoteAgeMs = isFiatPair ? this.maxFiatQuoteAgeMs : this.maxQuoteAgeMs;
+
+    results.forEach((result, index) => {
+      if (result.status === 'rejected') {
+        console.warn(`Price provider ${providers[index].name} failed for ${fromCurrency}/${toCurrency}:`, result.reason);
+        sources.push({ source: providers[index].name, accepted: false, reason: 'failed' });
+        return;
       }
 
-      return inrRate;
-    } catch (error) {
-      console.error('Error fetching fallback rate:', error);
-      
-      // Final fallback - approximate rate
-      return 84.0; // Approximate USD/INR rate for demo
+      const quote = result.value;
+      const isFresh = Number.isFinite(quote.rate) && quote.rate > 0 &&
+        Date.now() - quote.observedAt.getTime() <= maxQuoteAgeMs;
+
+      if (isFresh) {
+        fresh.push(quote);
+      } else {
+        sources.push({ ...this.describeQuote(quote), accepted: false, reason: 'stale' });
+      }
+    });
+
+    // Discard quotes too far from the median of all fresh quotes, then
+    // re-take the median over the ones that agree
+    const median = this.median(fresh.map(quote => quote.rate));
+    const agreeing = fresh.filter(quote => {
+      const deviationBps = Math.abs(quote.rate - median) / median * 10000;
+      const accepted = deviationBps <= this.maxDeviationBps;
+      sources.push({ ...this.describeQuote(quote), accepted, ...(!accepted && { reason: 'outlier' as const }) });
+      return accepted;
+    });
+
+    if (agreeing.length < this.minSources) {
+      console.error(
+        `Refusing to quote ${fromCurrency}/${toCurrency}: ${agreeing.length} of ${providers.length} sources agree, ` +
+        `${this.minSources} required`,
+        sources
+      );
+      throw createError('Exchange rate is temporarily unavailable', 503, 'rate_unavailable');
     }
+
+    const rate = this.median(agreeing.map(quote => quote.rate));
+
+    await this.recordRate(fromCurrency, toCurrency, rate, 'median', sources);
+
+    return {
+      pair: `${fromCurrency}/${toCurrency}`,
+      from: fromCurrency,
+      to: toCurrency,
+      rate,
+      updatedAt: new Date(),
+      quotedAt: new Date(Math.min(...agreeing.map(quote => quote.observedAt.getTime()))),
+      sources: agreeing.map(quote => quote.source)
+    };
+  }
+
+  private async recordRate(
+    fromCurrency: string,
+    toCurrency: string,
+    rate: number,
+    source: 'median' | 'cross',
+    sources: SourceQuote[]
+  ): Promise<void> {
+    await this.db.query(
+      `INSERT INTO exchange_rates (from_currency, to_currency, rate, source, sources)
+       VALUES ($1, $2, $3, $4, $5)`,
+      [fromCurrency, toCurrency, rate, source, JSON.stringify(sources)]
+    );
+  }
+
+  private describeQuote(quote: PriceQuote): Omit<SourceQuote, 'accepted'> {
+    return { source: quote.source, rate: quote.rate, observedAt: quote.observedAt.toISOString() };
+  }
+
+  private median(values: number[]): number {
+    if (values.length === 0) {
+      return NaN;
+    }
+
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
   }
 
   async getMultipleRates(pairs: Array<{ from: string; to: string }>): Promise<ExchangeRate[]> {
@@ -137,13 +324,79 @@ export class OracleService {
   ): Promise<{ convertedAmount: number; rate: number }> {
     const rate = await this.getExchangeRate(fromCurrency, toCurrency);
     const convertedAmount = this.convertAmount(amount, fromCurrency, toCurrency, rate);
-    
+
     return {
       convertedAmount,
       rate
     };
   }
 
+  /**
+   * OHLC buckets of the rates the oracle accepted for a pair between `from`
+   * and `to`. Buckets without any recorded rate are omitted.
+   */
+  async getRateHistory(
+    fromCurrency: string,
+    toCurrency: string,
+    interval: string = '1h',
+    from?: Date,
+    to?: Date
+  ): Promise<RateHistory> {
+    // Own keys only, so that query input like `constructor` isn't taken for an interval
+    const bucketSeconds = Object.prototype.hasOwnProperty.call(RATE_HISTORY_INTERVALS, interval)
+      ? RATE_HISTORY_INTERVALS[interval]
+      : undefined;
+    if (!bucketSeconds) {
+      throw createError(
+        `Invalid interval, expected one of ${Object.keys(RATE_HISTORY_INTERVALS).join(', ')}`,
+        400,
+        'invalid_interval'
+      );
+    }
+
+    const end = to || new Date();
+    const start = from || new Date(end.getTime() - 24 * 60 * 60 * 1000);
+
+    if (isNaN(start.getTime()) || isNaN(end.getTime()) || start >= end) {
+      throw createError('from must be a date before to', 400, 'invalid_range');
+    }
+
+    if ((end.getTime() - start.getTime()) / 1000 / bucketSeconds > MAX_HISTORY_CANDLES) {
+      throw createError(`Range spans more than ${MAX_HISTORY_CANDLES} ${interval} buckets, use a larger interval`, 400, 'range_too_large');
+    }
+
+    const result = await this.db.query(
+      `SELECT to_timestamp(floor(extract(epoch FROM created_at) / $3) * $3) AS bucket,
+              (array_agg(rate ORDER BY created_at ASC))[1] AS open,
+              MAX(rate) AS high,
+              MIN(rate) AS low,
+              (array_agg(rate ORDER BY created_at DESC))[1] AS close,
+              COUNT(*) AS samples
+       FROM exchange_rates
+       WHERE from_currency = $1 AND to_currency = $2
+         AND source IN ('median', 'cross')
+         AND created_at >= $4 AND created_at < $5
+       GROUP BY bucket
+       ORDER BY bucket ASC`,
+      [fromCurrency, toCurrency, bucketSeconds, start, end]
+    );
+
+    return {
+      pair: `${fromCurrency}/${toCurrency}`,
+      interval,
+      from: start,
+      to: end,
+      candles: result.rows.map(row => ({
+        time: row.bucket,
+        open: parseFloat(row.open),
+        high: parseFloat(row.high),
+        low: parseFloat(row.low),
+        close: parseFloat(row.close),
+        samples: parseInt(row.samples)
+      }))
+    };
+  }
+
   clearCache(): void {
     this.cache.clear();
   }
@@ -154,4 +407,4 @@ export class OracleService {
       keys: Array.from(this.cache.keys())
     };
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,119 @@
+import dns from 'dns/promises';
+import net from 'net';
+import { createError } from '../middleware/errorHandler';
+
+// Loopback, link-local, private, shared and reserved ranges that outbound requests must not reach
+const BLOCKED_RANGES = new net.BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4]
+] as const) {
+  BLOCKED_RANGES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128],
+  ['::1', 128],
+  ['64:ff9b::', 96],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8]
+] as const) {
+  BLOCKED_RANGES.addSubnet(network, prefix, 'ipv6');
+}
+
+const IPV4_MAPPED_PREFIX = /^::ffff:/i;
+
+export const isPrivateAddress = (address: string): boolean => {
+  // IPv4-mapped IPv6 addresses reach the IPv4 host they embed
+  const unmapped = IPV4_MAPPED_PREFIX.test(address) && net.isIPv4(address.replace(IPV4_MAPPED_PREFIX, ''))
+    ? address.replace(IPV4_MAPPED_PREFIX, '')
+    : address;
+  const family = net.isIP(unmapped);
+
+  if (family === 0) {
+    return true;
+  }
+
+  return BLOCKED_RANGES.check(unmapped, family === 4 ? 'ipv4' : 'ipv6');
+};
+
+/**
+ * Hosts in `OUTBOUND_ALLOWED_PRIVATE_HOSTS` may resolve to private
+ * addresses, so that webhooks can reach a receiver on localhost during
+ * local development. It is empty unless set.
+ */
+const isAllowedPrivateHost = (hostname: string): boolean => {
+  const allowed = (process.env.OUTBOUND_ALLOWED_PRIVATE_HOSTS || '')
+    .split(',')
+    .map(host => host.trim().toLowerCase())
+    .filter(Boolean);
+  return allowed.includes(hostname.toLowerCase());
+};
+
+// URL hostnames keep IPv6 literals in brackets
+const stripBrackets = (hostname: string): string => hostname.replace(/^\[(.*)\]$/, '$1');
+
+/**
+ * Check that a merchant- or user-supplied URL only reaches the public
+ * internet: the protocol must be http(s) and every address the host
+ * resolves to must be public. Throws a 400 naming `label` otherwise.
+ */
+export const assertPublicUrl = async (value: string, label: string): Promise<URL> => {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    throw createError(`Invalid ${label}`, 400);
+  }
+
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+    throw createError(`${label} must use http or https`, 400);
+  }
+
+  const hostname = stripBrackets(url.hostname);
+  if (isAllowedPrivateHost(hostname)) {
+    return url;
+  }
+
+  let addresses: string[];
+  try {
+    addresses = net.isIP(hostname)
+      ? [hostname]
+      : (await dns.lookup(hostname, { all: true })).map(entry => entry.address);
+  } catch {
+    throw createError(`${label} host could not be resolved`, 400);
+  }
+
+  if (addresses.length === 0 || addresses.some(isPrivateAddress)) {
+    throw createError(`${label} must not point to a private or local address`, 400);
+  }
+
+  return url;
+};
+
+/**
+ * DNS lookup for outbound requests that refuses private addresses at
+ * connection time, so a host can't pass `assertPublicUrl` and then be
+ * re-pointed at an internal address.
+ */
+export const publicLookup = async (
+  hostname: string,
+  options: object
+): Promise<{ address: string; family: number }> => {
+  const result = await dns.lookup(hostname, { ...options, all: false });
+
+  if (isPrivateAddress(result.address) && !isAllowedPrivateHost(hostname)) {
+    throw new Error(`${hostname} resolves to a private or local address`);
+  }
+
+  return result;
+};
@@ -0,0 +1,100 @@
+import { PaymentService, Payment } from './PaymentService';
+import { RefundService } from './RefundService';
+import { AppError } from '../middleware/errorHandler';
+
+/**
+ * Expires payments that were not fully paid within their quote's lifetime.
+ * Deposits that show up afterwards are settled by DepositSettlementService.
+ */
+export class PaymentExpiryService {
+  private paymentService: PaymentService;
+  private refundService: RefundService;
+  private graceSeconds: number;
+  private refundSettleSeconds: number;
+
+  constructor() {
+    this.paymentService = new PaymentService();
+    this.refundService = new RefundService();
+    // Time after the quote expires for a signed transaction to reach the chain
+    this.graceSeconds = parseInt(process.env.PAYMENT_EXPIRY_GRACE_SECONDS || '600');
+    // Time an expired payment is left to late-deposit settlement before its deposit is refunded here
+    this.refundSettleSeconds = parseInt(process.env.PAYMENT_EXPIRY_REFUND_SETTLE_SECONDS || '300');
+  }
+
+  getExpiryFor(quoteExpiresAt: Date): Date {
+    return new Date(quoteExpiresAt.getTime() + this.graceSeconds * 1000);
+  }
+
+  isExpired(payment: Payment): boolean {
+    const isOpen = payment.status === 'pending' || payment.status === 'awaiting_topup';
+    return payment.status === 'expired' ||
+      (isOpen && !!payment.expiresAt && payment.expiresAt.getTime() <= Date.now());
+  }
+
+  /**
+   * Mark pending and underpaid payments past their expiry as expired and
+   * refund any partial deposit. Returns how many were expired; payments
+   * confirmed in the meantime are left alone. A refund that fails here is
+   * picked up again by `refundExpiredDeposits`.
+   */
+  async expireStalePayments(limit: number): Promise<number> {
+    const payments = await this.paymentService.getExpiredPendingPayments(limit);
+    let expired = 0;
+
+    for (const payment of payments) {
+      try {
+        await this.expire(payment, 'payment_sweeper');
+        expired++;
+      } catch (error) {
+        if ((error as AppError).code !== 'invalid_transition') {
+          console.error(`Error expiring payment ${payment.id}:`, error);
+        }
+        continue;
+      }
+
+      if (payment.amountReceived > 0) {
+        try {
+          await this.refundService.refundPayment(payment.id, {
+            actor: 'payment_sweeper',
+            reason: 'Payment was not topped up before it expired'
+          });
+        } catch (error) {
+          console.error(`Error refunding partial deposit for payment ${payment.id}:`, error);
+        }
+      }
+    }
+
+    return expired;
+  }
+
+  /**
+   * Refund deposits of expired payments that were never refunded. Refunds
+   * that exist but failed are retried by the refund reconciler instead.
+   * Returns how many refunds were started.
+   */
+  async refundExpiredDeposits(limit: number): Promise<number> {
+    const payments = await this.paymentService.getUnrefundedExpiredPayments(limit, this.refundSettleSeconds);
+    let refunded = 0;
+
+    for (const payment of payments) {
+      try {
+        await this.refundService.refundPayment(payment.id, {
+          actor: 'payment_sweeper',
+          reason: 'Payment expired with a deposit that was not refunded'
+        });
+        refunded++;
+      } catch (error) {
+        console.error(`Error refunding deposit for expired payment ${payment.id}:`, error);
+      }
+    }
+
+    return refunded;
+  }
+
+  async expire(payment: Payment, actor: string): Promise<Payment> {
+    return this.paymentService.updatePaymentStatus(payment.id, 'expired', {
+      actor,
+      reason: `Not paid before ${payment.expiresAt?.toISOString()}`
+    });
+  }
+}
@@ -0,0 +1,167 @@
+import { Pool, QueryResultRow } from 'pg';
+import { validate as isUuid } from 'uuid';
+import { db } from '../config/database';
+import { createError } from '../middleware/errorHandler';
+
+export type PaymentLinkStatus = 'open' | 'paid' | 'expired';
+
+export interface PaymentLink {
+  id: string;
+  merchantId: string;
+  amountINR: number;
+  description?: string;
+  multiUse: boolean;
+  status: PaymentLinkStatus;
+  // Confirmed payments made through the link
+  paidCount: number;
+  expiresAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CreatePaymentLinkData {
+  amountINR: number;
+  description?: string;
+  multiUse?: boolean;
+  expiresAt?: Date;
+}
+
+/**
+ * Payment requests created by merchants. Payers open the link's hosted
+ * checkout; a single-use link is paid by the first payment to claim it,
+ * which happens as its deposit confirms.
+ */
+export class PaymentLinkService {
+  private db: Pool;
+  private checkoutBaseUrl: string;
+
+  constructor() {
+    this.db = db;
+    this.checkoutBaseUrl = process.env.CHECKOUT_BASE_URL || 'http://localhost:3000';
+  }
+
+  async createLink(merchantId: string, data: CreatePaymentLinkData): Promise<PaymentLink> {
+    const query = `
+      INSERT INTO payment_links (merchant_id, amount_inr, description, multi_use, expires_at)
+      VALUES ($1, $2, $3, $4, $5)
+      RETURNING *
+    `;
+
+    const result = await this.db.query(query, [
+      merchantId,
+      data.amountINR,
+      data.description || null,
+      data.multiUse ?? false,
+      data.expiresAt || null
+    ]);
+    return this.mapRowToPaymentLink(result.rows[0]);
+  }
+
+  async getLinkById(id: string): Promise<PaymentLink | null> {
+    if (!isUuid(id)) {
+      return null;
+    }
+
+    const result = await this.db.query('SELECT * FROM payment_links WHERE id = $1', [id]);
+    return result.rows.length > 0 ? this.mapRowToPaymentLink(result.rows[0]) : null;
+  }
+
+  async listLinks(
+    merchantId: string,
+    page: number = 1,
+    limit: number = 20
+  ): Promise<{ links: PaymentLink[]; total: number; page: number; totalPages: number }> {
+    const offset = (page - 1) * limit;
+
+    const countResult = await this.db.query('SELECT COUNT(*) FROM payment_links WHERE merchant_id = $1', [merchantId]);
+    const total = parseInt(countResult.rows[0].count);
+
+    const result = await this.db.query(
+      `SELECT * FROM payment_links WHERE merchant_id = $1
+       ORDER BY created_at DESC
+       LIMIT $2 OFFSET $3`,
+      [merchantId, limit, offset]
+    );
+
+    return {
+      links: result.rows.map(row => this.mapRowToPaymentLink(row)),
+      total,
+      page,
+      totalPages: Math.ceil(total / limit)
+    };
+  }
+
+  /**
+   * The link a new payment is being made through, if it can still be paid
+   * for this amount.
+   */
+  async getPayableLink(id: string, amountINR: number): Promise<PaymentLink> {
+    const link = await this.getLinkById(id);
+
+    if (!link) {
+      throw createError('Payment link not found', 404);
+    }
+
+    if (link.status !== 'open') {
+      throw createError(`Payment link is ${link.status}`, 410, 'payment_link_closed');
+    }
+
+    if (link.amountINR !== amountINR) {
+      throw createError('Quote amount does not match the payment link', 400, 'payment_link_amount_mismatch');
+    }
+
+    return link;
+  }
+
+  /**
+   * Count a payment against its link before the payment confirms, closing
+   * single-use links. The link and the payment are updated in one
+   * statement, so of several payers only one can claim a single-use link
+   * and a payment that already claimed its link claims it again. Resolves
+   * to false when the link is paid, expired or claimed by another payment.
+   */
+  async claimPayment(id: string, paymentId: string): Promise<boolean> {
+    const result = await this.db.query(
+      `WITH claimed_link AS (
+         UPDATE payment_links
+         SET paid_count = paid_count + 1,
+             status = CASE WHEN multi_use THEN status ELSE 'paid' END
+         WHERE id = $1
+           AND status = 'open'
+           AND (multi_use OR paid_count = 0)
+           AND (expires_at IS NULL OR expires_at > NOW())
+           AND NOT EXISTS (SELECT 1 FROM payments WHERE id = $2 AND payment_link_claimed_at IS NOT NULL)
+         RETURNING id
+       )
+       UPDATE payments SET payment_link_claimed_at = NOW()
+       WHERE id = $2 AND payment_link_id = $1
+         AND (payment_link_claimed_at IS NOT NULL OR EXISTS (SELECT 1 FROM claimed_link))
+       RETURNING id`,
+      [id, paymentId]
+    );
+    return result.rows.length > 0;
+  }
+
+  getCheckoutUrl(link: PaymentLink): string {
+    return `${this.checkoutBaseUrl}/pay/${link.id}`;
+  }
+
+  private mapRowToPaymentLink(row: QueryResultRow): PaymentLink {
+    const expiresAt: Date | undefined = row.expires_at || undefined;
+    // Expiry is not swept, so it is applied when a link is read
+    const isExpired = row.status === 'open' && !!expiresAt && expiresAt.getTime() <= Date.now();
+
+    return {
+      id: row.id,
+      merchantId: row.merchant_id,
+      amountINR: parseFloat(row.amount_inr),
+      description: row.description || undefined,
+      multiUse: row.multi_use,
+      status: isExpired ? 'expired' : row.status,
+      paidCount: row.paid_count,
+      expiresAt,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    };
+  }
+}
@@ -1,5 +1,12 @@
-import { Pool } from 'pg';
-import { v4 as uuidv4 } from 'uuid';
+import { Pool, PoolClient, QueryResultRow } from 'pg';
+import { v4 as uuidv4, validate as isUuid } from 'uuid';
+import { PaymentStatus, assertTransition } from './PaymentStateMachine';
+import { WebhookService } from './WebhookService';
+import { NotificationEvent, NotificationService } from './NotificationService';
+import type { QuoteFee } from './QuoteService';
+import type { RiskAssessment, RiskDecision, RiskReason } from './RiskService';
+import { createError } from '../middleware/errorHandler';
+import { db } from '../config/database';
 
 export interface Payment {
   id: string;
@@ -7,65 +14,136 @@ export interface Payment {
   amountINR: number;
   stablecoinAmount: number;
   exchangeRate: number;
+  // Charged to the payer on top of amountINR, which the merchant receives in full
+  fees: QuoteFee[];
   walletAddress: string;
   merchantUpiId: string;
-  status: 'pending' | 'confirmed' | 'completed' | 'failed';
+  asset: string;
+  quoteId?: string;
+  paymentLinkId?: string;
+  status: PaymentStatus;
   aptosTransactionHash?: string;
   upiPayoutId?: string;
+  failureReason?: string;
+  expiresAt?: Date;
+  // Total deposited so far, which may differ from stablecoinAmount
+  amountReceived: number;
+  // Payouts of held payments wait for an operator to release them
+  riskDecision: RiskDecision;
+  riskReasons: RiskReason[];
   createdAt: Date;
   updatedAt: Date;
 }
 
+export interface PaymentTransition {
+  id: string;
+  paymentId: string;
+  previousStatus: PaymentStatus | null;
+  status: PaymentStatus;
+  actor: string;
+  reason?: string;
+  blockchainHash?: string;
+  createdAt: Date;
+}
+
+export interface TransitionContext {
+  actor: string;
+  reason?: string;
+  aptosTransactionHash?: string;
+  failureReason?: string;
+}
+
 export interface CreatePaymentData {
   merchantId: string;
   amountINR: number;
   stablecoinAmount: number;
   exchangeRate: number;
+  fees: QuoteFee[];
   walletAddress: string;
   merchantUpiId: string;
-  status: string;
+  asset: string;
+  quoteId: string;
+  paymentLinkId?: string;
+  expiresAt: Date;
+}
+
+export interface PaymentHistoryOptions {
+  includeExpired?: boolean;
 }
 
 export class PaymentService {
   private db: Pool;
+  private webhookService: WebhookService;
+  private notificationService: NotificationService;
 
   constructor() {
-    this.db = new Pool({
-      host: process.env.DB_HOST || 'localhost',
-      port: parseInt(process.env.DB_PORT || '5432'),
-      database: process.env.DB_NAME || 'aptpay',
-      user: process.env.DB_USER || 'postgres',
-      password: process.env.DB_PASSWORD || 'password',
-    });
+    this.db = db;
+    this.webhookService = new WebhookService();
+    this.notificationService = new NotificationService();
   }
 
-  async createPayment(data: CreatePaymentData): Promise<Payment> {
+  /**
+   * Create a pending payment. `assessRisk` runs in the same transaction just
+   * before the insert, so that a risk check holding a lock there sees every
+   * payment committed before it; it throws to refuse the payment.
+   */
+  async createPayment(
+    data: CreatePaymentData,
+    assessRisk: (client: PoolClient) => Promise<RiskAssessment>,
+    actor: string = 'api'
+  ): Promise<Payment> {
     const id = uuidv4();
     const now = new Date();
 
     const query = `
       INSERT INTO payments (
-        id, merchant_id, amount_inr, stablecoin_amount, exchange_rate,
-        wallet_address, merchant_upi_id, status, created_at, updated_at
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+        id, merchant_id, amount_inr, stablecoin_amount, exchange_rate, fees,
+        wallet_address, merchant_upi_id, asset, quote_id, payment_link_id, risk_decision, risk_reasons,
+        status, expires_at, created_at, updated_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17)
       RETURNING *
     `;
 
-    const values = [
-      id,
-      data.merchantId,
-      data.amountINR,
-      data.stablecoinAmount,
-      data.exchangeRate,
-      data.walletAddress,
-      data.merchantUpiId,
-      data.status,
-      now,
-      now
-    ];
-
-    const result = await this.db.query(query, values);
-    return this.mapRowToPayment(result.rows[0]);
+    const client = await this.db.connect();
+    try {
+      await client.query('BEGIN');
+      const risk = await assessRisk(client);
+
+      const values = [
+        id,
+        data.merchantId,
+        data.amountINR,
+        data.stablecoinAmount,
+        data.exchangeRate,
+        JSON.stringify(data.fees),
+        data.walletAddress,
+        data.merchantUpiId,
+        data.asset,
+        data.quoteId,
+        data.paymentLinkId || null,
+        risk.decision,
+        JSON.stringify(risk.reasons),
+        'pending',
+        data.expiresAt,
+        now,
+        now
+      ];
+
+      const result = await client.query(query, values);
+      const payment = this.mapRowToPayment(result.rows[0]);
+      await this.recordTransition(client, id, null, 'pending', { actor, reason: 'Payment created' });
+      await this.webhookService.enqueuePaymentEvent(client, payment, null);
+      await client.query('COMMIT');
+      return payment;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      if (this.isUniqueViolation(error, 'payments_quote_id_key')) {
+        throw createError('Quote has already been used for another payment', 409);
+      }
+      throw error;
+    } finally {
+      client.release();
+    }
   }
 
   async getPaymentById(id: string): Promise<Payment | null> {
@@ -79,27 +157,247 @@ export class PaymentService {
     return this.mapRowToPayment(result.rows[0]);
   }
 
+  /**
+   * Move a payment to a new status, rejecting transitions the state machine
+   * does not allow. The status change and its transaction_events row are
+   * written in the same database transaction.
+   */
   async updatePaymentStatus(
     id: string,
-    status: string,
-    aptosTransactionHash?: string
+    status: PaymentStatus,
+    context: TransitionContext
   ): Promise<Payment> {
-    const now = new Date();
-    let query = 'UPDATE payments SET status = $1, updated_at = $2';
-    let values = [status, now];
-    
-    if (aptosTransactionHash) {
-      query += ', aptos_transaction_hash = $3';
-      values.push(aptosTransactionHash);
+    const client = await this.db.connect();
+    try {
+      await client.query('BEGIN');
+
+      const current = await client.query('SELECT * FROM payments WHERE id = $1 FOR UPDATE', [id]);
+      if (current.rows.length === 0) {
+        throw createError('Payment not found', 404);
+      }
+
+      const previousStatus = current.rows[0].status as PaymentStatus;
+      assertTransition(previousStatus, status);
+
+      const values: unknown[] = [status, new Date()];
+      let query = 'UPDATE payments SET status = $1, updated_at = $2';
+
+      if (context.aptosTransactionHash) {
+        values.push(context.aptosTransactionHash);
+        query += ', aptos_transaction_hash = COALESCE(aptos_transaction_hash, $' + values.length + ')';
+      }
+
+      if (context.failureReason) {
+        values.push(context.failureReason);
+        query += ', failure_reason = $' + values.length;
+      }
+
+      values.push(id);
+      query += ' WHERE id = $' + values.length + ' RETURNING *';
+
+      const result = await client.query(query, values);
+      const payment = this.mapRowToPayment(result.rows[0]);
+      await this.recordTransition(client, id, previousStatus, status, context);
+      await this.webhookService.enqueuePaymentEvent(client, payment, previousStatus);
+
+      const notification = this.getNotificationEvent(previousStatus, status);
+      if (notification) {
+        await this.notificationService.enqueueForPayment(client, notification, payment);
+      }
+
+      await client.query('COMMIT');
+
+      return payment;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      if (this.isUniqueViolation(error, 'payments_aptos_transaction_hash_key')) {
+        throw createError('Aptos transaction has already been used for another payment', 409, 'transaction_hash_reused');
+      }
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async getPaymentByPayoutId(upiPayoutId: string): Promise<Payment | null> {
+    if (!isUuid(upiPayoutId)) {
+      return null;
+    }
+
+    const query = 'SELECT * FROM payments WHERE upi_payout_id = $1';
+    const result = await this.db.query(query, [upiPayoutId]);
+
+    if (result.rows.length === 0) {
+      return null;
     }
-    
-    query += ' WHERE id = $' + (values.length + 1) + ' RETURNING *';
-    values.push(id);
 
-    const result = await this.db.query(query, values);
     return this.mapRowToPayment(result.rows[0]);
   }
 
+  async getPaymentByTransactionHash(aptosTransactionHash: string): Promise<Payment | null> {
+    // Top-up deposits are only recorded in payment_deposits
+    const query = `
+      SELECT * FROM payments
+      WHERE aptos_transaction_hash = $1
+        OR id = (SELECT payment_id FROM payment_deposits WHERE aptos_transaction_hash = $1)
+    `;
+    const result = await this.db.query(query, [aptosTransactionHash]);
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return this.mapRowToPayment(result.rows[0]);
+  }
+
+  /**
+   * Find the payment a deposit most likely belongs to: same wallet and asset,
+   * and either awaiting a top-up or not yet linked to any transaction.
+   * Top-ups are preferred, then pending over expired payments, then the
+   * payment whose outstanding amount is closest to the deposit.
+   */
+  async findPaymentForDeposit(walletAddress: string, asset: string, amount: number): Promise<Payment | null> {
+    const query = `
+      SELECT * FROM payments
+      WHERE LOWER(wallet_address) = LOWER($1) AND asset = $2
+        AND (status = 'awaiting_topup' OR (status IN ('pending', 'expired') AND aptos_transaction_hash IS NULL))
+      ORDER BY status = 'awaiting_topup' DESC, status = 'pending' DESC,
+        ABS(stablecoin_amount - amount_received - $3) ASC, created_at ASC
+      LIMIT 1
+    `;
+    const result = await this.db.query(query, [walletAddress, asset, amount]);
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return this.mapRowToPayment(result.rows[0]);
+  }
+
+  async getExpiredPendingPayments(limit: number): Promise<Payment[]> {
+    const query = `
+      SELECT * FROM payments
+      WHERE status IN ('pending', 'awaiting_topup') AND expires_at <= NOW()
+      ORDER BY expires_at ASC
+      LIMIT $1
+    `;
+    const result = await this.db.query(query, [limit]);
+    return result.rows.map(row => this.mapRowToPayment(row));
+  }
+
+  /**
+   * Expired payments holding a deposit that has no refund yet, e.g. because
+   * refunding it failed right after it expired. Payments updated in the last
+   * `settleSeconds` are left to the deposit settlement still working on them.
+   */
+  async getUnrefundedExpiredPayments(limit: number, settleSeconds: number): Promise<Payment[]> {
+    const query = `
+      SELECT * FROM payments p
+      WHERE p.status = 'expired' AND p.amount_received > 0
+        AND p.updated_at <= NOW() - make_interval(secs => $1)
+        AND NOT EXISTS (SELECT 1 FROM refunds r WHERE r.payment_id = p.id AND r.kind = 'full')
+      ORDER BY p.updated_at ASC
+      LIMIT $2
+    `;
+    const result = await this.db.query(query, [settleSeconds, limit]);
+    return result.rows.map(row => this.mapRowToPayment(row));
+  }
+
+  /**
+   * Credit an escrow deposit to a payment and add it to the amount received.
+   * Crediting the same transaction to the same payment again is a no-op.
+   */
+  async recordDeposit(id: string, aptosTransactionHash: string, amount: number): Promise<Payment> {
+    const client = await this.db.connect();
+    try {
+      await client.query('BEGIN');
+
+      const inserted = await client.query(
+        `INSERT INTO payment_deposits (payment_id, aptos_transaction_hash, amount)
+         VALUES ($1, $2, $3)
+         ON CONFLICT (aptos_transaction_hash) DO NOTHING
+         RETURNING payment_id`,
+        [id, aptosTransactionHash, amount]
+      );
+
+      if (inserted.rows.length === 0) {
+        const existing = await client.query(
+          'SELECT payment_id FROM payment_deposits WHERE aptos_transaction_hash = $1',
+          [aptosTransactionHash]
+        );
+        if (existing.rows[0].payment_id !== id) {
+          throw createError('Aptos transaction has already been used for another payment', 409, 'transaction_hash_reused');
+        }
+
+        await client.query('COMMIT');
+        return (await this.getPaymentById(id)) as Payment;
+      }
+
+      // The first deposit stays the payment's reference transaction
+      const result = await client.query(
+        `UPDATE payments
+         SET amount_received = amount_received + $1,
+             aptos_transaction_hash = COALESCE(aptos_transaction_hash, $2),
+             updated_at = $3
+         WHERE id = $4
+         RETURNING *`,
+        [amount, aptosTransactionHash, new Date(), id]
+      );
+
+      await client.query('COMMIT');
+      return this.mapRowToPayment(result.rows[0]);
+    } catch (error) {
+      await client.query('ROLLBACK');
+      if (this.isUniqueViolation(error, 'payments_aptos_transaction_hash_key')) {
+        throw createError('Aptos transaction has already been used for another payment', 409, 'transaction_hash_reused');
+      }
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Move an expired payment onto a fresh quote. The INR amount owed to the
+   * merchant is unchanged; the rate and stablecoin amount follow the quote.
+   */
+  async applyRequote(
+    id: string,
+    quote: { id: string; rate: number; cryptoAmount: number; fees: QuoteFee[]; expiresAt: Date }
+  ): Promise<Payment> {
+    const query = `
+      UPDATE payments
+      SET quote_id = $1, exchange_rate = $2, stablecoin_amount = $3, fees = $4, expires_at = $5, updated_at = $6
+      WHERE id = $7 AND status = 'expired'
+      RETURNING *
+    `;
+    const result = await this.db.query(query, [
+      quote.id,
+      quote.rate,
+      quote.cryptoAmount,
+      JSON.stringify(quote.fees),
+      quote.expiresAt,
+      new Date(),
+      id
+    ]);
+
+    if (result.rows.length === 0) {
+      throw createError('Payment is not awaiting a late deposit', 409, 'invalid_transition');
+    }
+
+    return this.mapRowToPayment(result.rows[0]);
+  }
+
+  async getPaymentTimeline(id: string): Promise<PaymentTransition[]> {
+    const query = `
+      SELECT * FROM transaction_events
+      WHERE payment_id = $1 AND event_type = 'status_transition'
+      ORDER BY created_at ASC
+    `;
+    const result = await this.db.query(query, [id]);
+    return result.rows.map(row => this.mapRowToTransition(row));
+  }
+
   async updatePaymentPayout(id: string, upiPayoutId: string): Promise<Payment> {
     const now = new Date();
     const query = `
@@ -116,24 +414,53 @@ export class PaymentService {
   async getPaymentHistory(
     walletAddress: string,
     page: number = 1,
-    limit: number = 10
+    limit: number = 10,
+    options: PaymentHistoryOptions = {}
+  ): Promise<{ payments: Payment[]; total: number; page: number; totalPages: number }> {
+    return this.listPayments('wallet_address', walletAddress, page, limit, options);
+  }
+
+  async getMerchantPaymentHistory(
+    merchantId: string,
+    page: number = 1,
+    limit: number = 10,
+    options: PaymentHistoryOptions = {}
+  ): Promise<{ payments: Payment[]; total: number; page: number; totalPages: number }> {
+    return this.listPayments('merchant_id', merchantId, page, limit, options);
+  }
+
+  async getHeldPayments(
+    page: number = 1,
+    limit: number = 20
+  ): Promise<{ payments: Payment[]; total: number; page: number; totalPages: number }> {
+    return this.listPayments('risk_decision', 'hold', page, limit, { includeExpired: true });
+  }
+
+  private async listPayments(
+    column: 'wallet_address' | 'merchant_id' | 'risk_decision',
+    value: string,
+    page: number,
+    limit: number,
+    options: PaymentHistoryOptions
   ): Promise<{ payments: Payment[]; total: number; page: number; totalPages: number }> {
     const offset = (page - 1) * limit;
+    // Abandoned payments are noise in the default view
+    const filter = options.includeExpired ? `${column} = $1` : `${column} = $1 AND status <> 'expired'`;
     
     // Get total count
-    const countQuery = 'SELECT COUNT(*) FROM payments WHERE wallet_address = $1';
-    const countResult = await this.db.query(countQuery, [walletAddress]);
+    const countQuery = `SELECT COUNT(*) FROM payments WHERE ${filter}`;
+    const countResult = await this.db.query(countQuery, [value]);
     const total = parseInt(countResult.rows[0].count);
     
     // Get payments
     const query = `
       SELECT * FROM payments 
-      WHERE wallet_address = $1 
+      WHERE ${filter}
       ORDER BY created_at DESC 
       LIMIT $2 OFFSET $3
     `;
     
-    const result = await this.db.query(query, [walletAddress, limit, offset]);
+    const result = await this.db.query(query, [value, limit, offset]);
     const payments = result.rows.map(row => this.mapRowToPayment(row));
     
     return {
@@ -144,6 +471,57 @@ export class PaymentService {
     };
   }
 
+  // A payout retry moves payout_initiated back to confirmed, which is not a new confirmation
+  private getNotificationEvent(previousStatus: PaymentStatus, status: PaymentStatus): NotificationEvent | null {
+    if (status === 'confirmed' && previousStatus !== 'payout_initiated') {
+      return 'payment_confirmed';
+    }
+    return status === 'completed' ? 'payout_completed' : null;
+  }
+
+  private async recordTransition(
+    client: PoolClient,
+    paymentId: string,
+    previousStatus: PaymentStatus | null,
+    status: PaymentStatus,
+    context: TransitionContext
+  ): Promise<void> {
+    const query = `
+      INSERT INTO transaction_events (
+        payment_id, event_type, blockchain_hash, previous_status, new_status,
+        actor, reason, event_data, processed
+      ) VALUES ($1, 'status_transition', $2, $3, $4, $5, $6, $7, TRUE)
+    `;
+
+    await client.query(query, [
+      paymentId,
+      context.aptosTransactionHash || null,
+      previousStatus,
+      status,
+      context.actor,
+      context.reason || null,
+      JSON.stringify({ failureReason: context.failureReason })
+    ]);
+  }
+
+  private isUniqueViolation(error: unknown, constraint: string): boolean {
+    const pgError = error as { code?: string; constraint?: string };
+    return pgError.code === '23505' && pgError.constraint === constraint;
+  }
+
+  private mapRowToTransition(row: QueryResultRow): PaymentTransition {
+    return {
+      id: row.id,
+      paymentId: row.payment_id,
+      previousStatus: row.previous_status,
+      status: row.new_status,
+      actor: row.actor,
+      reason: row.reason || undefined,
+      blockchainHash: row.blockchain_hash || undefined,
+      createdAt: row.created_at
+    };
+  }
+
   private mapRowToPayment(row: any): Payment {
     return {
       id: row.id,
@@ -151,11 +529,20 @@ export class PaymentService {
       amountINR: parseFloat(row.amount_inr),
       stablecoinAmount: parseFloat(row.stablecoin_amount),
       exchangeRate: parseFloat(row.exchange_rate),
+      fees: row.fees || [],
       walletAddress: row.wallet_address,
       merchantUpiId: row.merchant_upi_id,
+      asset: row.asset,
+      quoteId: row.quote_id || undefined,
+      paymentLinkId: row.payment_link_id || undefined,
       status: row.status,
       aptosTransactionHash: row.aptos_transaction_hash,
       upiPayoutId: row.upi_payout_id,
+      failureReason: row.failure_reason || undefined,
+      expiresAt: row.expires_at || undefined,
+      amountReceived: parseFloat(row.amount_received || '0'),
+      riskDecision: row.risk_decision,
+      riskReasons: row.risk_reasons || [],
       createdAt: row.created_at,
       updatedAt: row.updated_at
     };
@@ -0,0 +1,64 @@
+export type PaymentStatus =
+  | 'pending'
+  | 'awaiting_topup'
+  | 'confirmed'
+  | 'payout_initiated'
+  | 'completed'
+  | 'failed'
+  | 'refunded'
+  | 'expired';
+
+export const PAYMENT_STATUSES: PaymentStatus[] = [
+  'pending',
+  'awaiting_topup',
+  'confirmed',
+  'payout_initiated',
+  'completed',
+  'failed',
+  'refunded',
+  'expired'
+];
+
+// Allowed next states for each payment status. Terminal states map to an empty list.
+const TRANSITIONS: Record<PaymentStatus, PaymentStatus[]> = {
+  pending: ['confirmed', 'awaiting_topup', 'failed', 'expired'],
+  // Underpaid: a further deposit can still complete the payment
+  awaiting_topup: ['confirmed', 'failed', 'expired'],
+  confirmed: ['payout_initiated', 'failed', 'refunded'],
+  // Back to confirmed when the provider rejects a payout that will be retried
+  payout_initiated: ['completed', 'failed', 'confirmed'],
+  completed: [],
+  failed: ['refunded'],
+  refunded: [],
+  // A deposit that lands after expiry is either re-quoted and paid out or refunded
+  expired: ['confirmed', 'refunded']
+};
+
+export class InvalidPaymentTransitionError extends Error {
+  statusCode = 409;
+  isOperational = true;
+  code = 'invalid_transition';
+
+  constructor(public readonly from: string, public readonly to: string) {
+    super(`Invalid payment status transition: ${from} -> ${to}`);
+    this.name = 'InvalidPaymentTransitionError';
+  }
+}
+
+export const isPaymentStatus = (value: unknown): value is PaymentStatus => {
+  return typeof value === 'string' && (PAYMENT_STATUSES as string[]).includes(value);
+};
+
+export const canTransition = (from: PaymentStatus, to: PaymentStatus): boolean => {
+  return TRANSITIONS[from].includes(to);
+};
+
+export const assertTransition = (from: PaymentStatus, to: PaymentStatus): void => {
+  if (!canTransition(from, to)) {
+    throw new InvalidPaymentTransitionError(from, to);
+  }
+};
+
+export const isTerminalStatus = (status: PaymentStatus): boolean => {
+  return TRANSITIONS[status].length === 0;
+};
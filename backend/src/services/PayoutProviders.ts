@@ -0,0 +1,581 @@
+import axios from 'axios';
+import crypto from 'crypto';
+import { createError } from '../middleware/errorHandler';
+
+export type PayoutProviderName = 'cashfree' | 'razorpayx' | 'mock';
+
+export const PAYOUT_PROVIDER_NAMES: PayoutProviderName[] = ['cashfree', 'razorpayx', 'mock'];
+
+export type UpiPayoutState = 'PENDING' | 'SUCCESS' | 'FAILED';
+
+export interface UpiPayoutRequest {
+  transactionId: string;
+  merchantUpiId: string;
+  amount: number;
+  currency: string;
+  // Reference sent to the provider for this attempt; defaults to the first attempt's
+  referenceId?: string;
+  // Account holder name passed to providers that ask for one
+  beneficiaryName?: string;
+}
+
+export interface UpiPayoutResponse {
+  payoutId: string;
+  status: UpiPayoutState;
+  message: string;
+  transactionId?: string;
+  // The provider couldn't be reached or its answer was lost, so the payout may or may not exist
+  outcomeUnknown?: boolean;
+}
+
+export interface UpiPayoutStatus {
+  payoutId: string;
+  status: UpiPayoutState;
+  amount: number;
+  merchantUpiId: string;
+  transactionId?: string;
+  failureReason?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Name the PSP has registered for a VPA, used to check the payee before paying
+export interface UpiBeneficiary {
+  upiId: string;
+  name?: string;
+  verified: boolean;
+}
+
+export interface PayoutBalance {
+  provider: PayoutProviderName;
+  availableINR: number;
+}
+
+// A provider's status webhook, verified and translated into our terms
+export interface PayoutWebhookEvent {
+  eventId: string;
+  payoutId: string;
+  status: UpiPayoutState;
+  failureReason?: string;
+  providerTransactionId?: string;
+  payload: unknown;
+}
+
+export type WebhookHeaders = (name: string) => string | undefined;
+
+/**
+ * A UPI payout provider. Adapters translate between our payout model and
+ * the provider's API, including its status codes, and throw when the
+ * provider can't be reached; the UPI service decides what a failure means.
+ * `payoutId` is our idempotency reference, which every adapter sends as the
+ * provider's own reference so that payouts can be looked up by it.
+ */
+export interface PayoutProvider {
+  name: PayoutProviderName;
+  initiatePayout(request: UpiPayoutRequest, payoutId: string): Promise<UpiPayoutResponse>;
+  // Resolves to null when the provider has no payout with this reference
+  getPayoutStatus(payoutId: string): Promise<UpiPayoutStatus | null>;
+  verifyBeneficiary(upiId: string): Promise<UpiBeneficiary>;
+  // Throws a 401 for bad signatures or stale deliveries and a 400 for malformed payloads
+  verifyWebhook(rawBody: Buffer, getHeader: WebhookHeaders): PayoutWebhookEvent;
+  getBalance(): Promise<PayoutBalance>;
+}
+
+const PAYOUT_TIMEOUT_MS = 30000;
+const REQUEST_TIMEOUT_MS = 10000;
+
+const getWebhookToleranceSeconds = () => parseInt(process.env.UPI_WEBHOOK_TOLERANCE_SECONDS || '300');
+
+// Reject webhooks signed too long ago (or in the future) to limit replays
+const isFresh = (signedAtSeconds: number, toleranceSeconds: number): boolean =>
+  Number.isFinite(signedAtSeconds) && Math.abs(Date.now() / 1000 - signedAtSeconds) <= toleranceSeconds;
+
+// Constant-time comparison of a provided signature with the expected one
+const signaturesMatch = (provided: Buffer, expected: Buffer): boolean =>
+  provided.length === expected.length && crypto.timingSafeEqual(provided, expected);
+
+const parseWebhookBody = (rawBody: Buffer) => {
+  try {
+    return JSON.parse(rawBody.toString('utf8'));
+  } catch {
+    throw createError('Invalid webhook payload', 400);
+  }
+};
+
+// Providers limit remarks to letters, digits and spaces
+const payoutRemarks = (transactionId: string) => `AptPay ${transactionId.replace(/[^a-zA-Z0-9]/g, '')}`;
+
+const CASHFREE_API_VERSION = '2024-01-01';
+const CASHFREE_FAILED_STATUSES = ['FAILED', 'REJECTED', 'REVERSED', 'MANUALLY_REJECTED'];
+
+const mapCashfreeStatus = (status?: string): UpiPayoutState => {
+  if (status === 'SUCCESS') return 'SUCCESS';
+  return CASHFREE_FAILED_STATUSES.includes(status || '') ? 'FAILED' : 'PENDING';
+};
+
+/**
+ * Cashfree Payouts (API v2). Transfers are sent to the VPA directly
+ * without registering a beneficiary first, and webhooks are signed with
+ * the client secret.
+ */
+export class CashfreePayoutProvider implements PayoutProvider {
+  name: PayoutProviderName = 'cashfree';
+  private baseUrl: string;
+  private verificationUrl: string;
+  private clientId: string;
+  private clientSecret: string;
+
+  constructor() {
+    this.baseUrl = process.env.CASHFREE_PAYOUT_URL || 'https://sandbox.cashfree.com/payout';
+    this.verificationUrl = process.env.CASHFREE_VERIFICATION_URL || 'https://sandbox.cashfree.com/verification';
+    this.clientId = process.env.CASHFREE_CLIENT_ID || process.env.UPI_API_KEY || 'demo_api_key';
+    this.clientSecret = process.env.CASHFREE_CLIENT_SECRET || process.env.UPI_SECRET_KEY || 'demo_secret_key';
+  }
+
+  async initiatePayout(request: UpiPayoutRequest, payoutId: string): Promise<UpiPayoutResponse> {
+    const response = await axios.post(
+      `${this.baseUrl}/transfers`,
+      {
+        transfer_id: payoutId,
+        transfer_amount: request.amount,
+        transfer_currency: request.currency,
+        transfer_mode: 'upi',
+        beneficiary_details: {
+          beneficiary_name: request.beneficiaryName,
+          beneficiary_instrument_details: { vpa: request.merchantUpiId }
+        },
+        transfer_remarks: payoutRemarks(request.transactionId)
+      },
+      { headers: this.headers(), timeout: PAYOUT_TIMEOUT_MS }
+    );
+
+    const data = response.data;
+    return {
+      payoutId,
+      status: mapCashfreeStatus(data.status),
+      message: data.status_description || `Transfer ${data.status}`,
+      transactionId: data.cf_transfer_id
+    };
+  }
+
+  async getPayoutStatus(payoutId: string): Promise<UpiPayoutStatus | null> {
+    let data;
+    try {
+      const response = await axios.get(`${this.baseUrl}/transfers`, {
+        params: { transfer_id: payoutId },
+        headers: this.headers(),
+        timeout: REQUEST_TIMEOUT_MS
+      });
+      data = response.data;
+    } catch (error) {
+      if (axios.isAxiosError(error) && error.response?.status === 404) {
+        return null;
+      }
+      throw error;
+    }
+
+    const status = mapCashfreeStatus(data.status);
+    return {
+      payoutId,
+      status,
+      amount: data.transfer_amount,
+      merchantUpiId: data.beneficiary_details?.beneficiary_instrument_details?.vpa,
+      transactionId: data.transfer_utr || data.cf_transfer_id,
+      failureReason: status === 'FAILED' ? data.status_description : undefined,
+      createdAt: new Date(data.added_on),
+      updatedAt: new Date(data.updated_on || data.added_on)
+    };
+  }
+
+  async verifyBeneficiary(upiId: string): Promise<UpiBeneficiary> {
+    const response = await axios.post(
+      `${this.verificationUrl}/upi`,
+      { verification_id: crypto.randomUUID(), vpa: upiId },
+      { headers: this.headers(), timeout: REQUEST_TIMEOUT_MS }
+    );
+
+    return {
+      upiId,
+      name: response.data.name_at_bank || undefined,
+      verified: response.data.status === 'VALID'
+    };
+  }
+
+  // Signed as base64 HMAC-SHA256 over `<timestamp><raw body>`
+  verifyWebhook(rawBody: Buffer, getHeader: WebhookHeaders): PayoutWebhookEvent {
+    const signature = getHeader('x-webhook-signature');
+    const timestamp = getHeader('x-webhook-timestamp');
+
+    if (!signature || !timestamp) {
+      throw createError('Missing webhook signature headers', 401);
+    }
+
+    // Cashfree sends milliseconds
+    if (!isFresh(parseInt(timestamp) / 1000, getWebhookToleranceSeconds())) {
+      throw createError('Webhook timestamp outside the allowed window', 401);
+    }
+
+    const expected = crypto.createHmac('sha256', this.clientSecret).update(timestamp).update(rawBody).digest();
+    if (!signaturesMatch(Buffer.from(signature, 'base64'), expected)) {
+      throw createError('Invalid webhook signature', 401);
+    }
+
+    const body = parseWebhookBody(rawBody);
+    const transfer = body.data || {};
+
+    if (!transfer.transfer_id || !transfer.status) {
+      throw createError('Missing required fields', 400);
+    }
+
+    const status = mapCashfreeStatus(transfer.status);
+    return {
+      eventId: getHeader('x-idempotency-key') || `${body.type}:${transfer.transfer_id}:${body.event_time}`,
+      payoutId: transfer.transfer_id,
+      status,
+      failureReason: status === 'FAILED' ? transfer.status_description : undefined,
+      providerTransactionId: transfer.transfer_utr || transfer.cf_transfer_id,
+      payload: body
+    };
+  }
+
+  async getBalance(): Promise<PayoutBalance> {
+    const response = await axios.get(`${this.baseUrl}/v1/getBalance`, {
+      headers: this.headers(),
+      timeout: REQUEST_TIMEOUT_MS
+    });
+
+    return { provider: this.name, availableINR: parseFloat(response.data.data?.availableBalance) };
+  }
+
+  private headers() {
+    return {
+      'x-client-id': this.clientId,
+      'x-client-secret': this.clientSecret,
+      'x-api-version': CASHFREE_API_VERSION
+    };
+  }
+}
+
+const RAZORPAYX_FAILED_STATUSES = ['rejected', 'cancelled', 'reversed', 'failed'];
+
+const mapRazorpayXStatus = (status?: string): UpiPayoutState => {
+  if (status === 'processed') return 'SUCCESS';
+  return RAZORPAYX_FAILED_STATUSES.includes(status || '') ? 'FAILED' : 'PENDING';
+};
+
+/**
+ * RazorpayX Payouts. Amounts are in paise, payouts are made from the
+ * current account in `RAZORPAYX_ACCOUNT_NUMBER` to a composite VPA fund
+ * account, and our reference is sent as the payout's `reference_id`.
+ */
+export class RazorpayXPayoutProvider implements PayoutProvider {
+  name: PayoutProviderName = 'razorpayx';
+  private baseUrl: string;
+  private keyId: string;
+  private keySecret: string;
+  private accountNumber: string;
+  private webhookSecret: string;
+
+  constructor() {
+    this.baseUrl = process.env.RAZORPAYX_URL || 'https://api.razorpay.com/v1';
+    this.keyId = process.env.RAZORPAYX_KEY_ID || '';
+    this.keySecret = process.env.RAZORPAYX_KEY_SECRET || '';
+    this.accountNumber = process.env.RAZORPAYX_ACCOUNT_NUMBER || '';
+    this.webhookSecret = process.env.RAZORPAYX_WEBHOOK_SECRET || '';
+  }
+
+  async initiatePayout(request: UpiPayoutRequest, payoutId: string): Promise<UpiPayoutResponse> {
+    const response = await axios.post(
+      `${this.baseUrl}/payouts`,
+      {
+        account_number: this.accountNumber,
+        amount: Math.round(request.amount * 100),
+        currency: request.currency,
+        mode: 'UPI',
+        purpose: 'payout',
+        fund_account: {
+          account_type: 'vpa',
+          vpa: { address: request.merchantUpiId },
+          contact: { name: request.beneficiaryName || request.merchantUpiId, type: 'vendor' }
+        },
+        queue_if_low_balance: true,
+        reference_id: payoutId,
+        narration: 'AptPay payout',
+        notes: { transaction_id: request.transactionId }
+      },
+      {
+        auth: this.auth(),
+        headers: { 'X-Payout-Idempotency': payoutId },
+        timeout: PAYOUT_TIMEOUT_MS
+      }
+    );
+
+    const data = response.data;
+    return {
+      payoutId,
+      status: mapRazorpayXStatus(data.status),
+      message: data.status_details?.description || `Payout ${data.status}`,
+      transactionId: data.utr || data.id
+    };
+  }
+
+  async getPayoutStatus(payoutId: string): Promise<UpiPayoutStatus | null> {
+    const response = await axios.get(`${this.baseUrl}/payouts`, {
+      params: { account_number: this.accountNumber, reference_id: payoutId },
+      auth: this.auth(),
+      timeout: REQUEST_TIMEOUT_MS
+    });
+
+    const payout = response.data.items?.[0];
+    if (!payout) {
+      return null;
+    }
+
+    const status = mapRazorpayXStatus(payout.status);
+    return {
+      payoutId,
+      status,
+      amount: payout.amount / 100,
+      merchantUpiId: payout.fund_account?.vpa?.address,
+      transactionId: payout.utr || payout.id,
+      failureReason: status === 'FAILED' ? payout.failure_reason || payout.status_details?.description : undefined,
+      createdAt: new Date(payout.created_at * 1000),
+      updatedAt: new Date()
+    };
+  }
+
+  async verifyBeneficiary(upiId: string): Promise<UpiBeneficiary> {
+    const response = await axios.post(
+      `${this.baseUrl}/fund_accounts/validations`,
+      {
+        account_number: this.accountNumber,
+        fund_account: { account_type: 'vpa', vpa: { address: upiId } }
+      },
+      { auth: this.auth(), timeout: REQUEST_TIMEOUT_MS }
+    );
+
+    // Validations normally complete inline; one still running can't tell us anything yet
+    const validation = response.data;
+    if (validation.status !== 'completed') {
+      throw new Error(`VPA validation ${validation.id} is ${validation.status}`);
+    }
+
+    return {
+      upiId,
+      name: validation.results?.registered_name || undefined,
+      verified: validation.results?.account_status === 'active'
+    };
+  }
+
+  // Signed as hex HMAC-SHA256 over the raw body with the webhook secret
+  verifyWebhook(rawBody: Buffer, getHeader: WebhookHeaders): PayoutWebhookEvent {
+    const signature = getHeader('x-razorpay-signature');
+
+    if (!signature) {
+      throw createError('Missing webhook signature headers', 401);
+    }
+
+    const expected = crypto.createHmac('sha256', this.webhookSecret).update(rawBody).digest();
+    if (!this.webhookSecret || !signaturesMatch(Buffer.from(signature, 'hex'), expected)) {
+      throw createError('Invalid webhook signature', 401);
+    }
+
+    const body = parseWebhookBody(rawBody);
+
+    // The signature carries no timestamp, so freshness comes from the signed payload
+    if (!isFresh(body.created_at, getWebhookToleranceSeconds())) {
+      throw createError('Webhook timestamp outside the allowed window', 401);
+    }
+
+    const payout = body.payload?.payout?.entity;
+    const eventId = getHeader('x-razorpay-event-id');
+
+    if (!eventId || !payout?.reference_id || !payout.status) {
+      throw createError('Missing required fields', 400);
+    }
+
+    const status = mapRazorpayXStatus(payout.status);
+    return {
+      eventId,
+      payoutId: payout.reference_id,
+      status,
+      failureReason: status === 'FAILED' ? payout.failure_reason || payout.status_details?.description : undefined,
+      providerTransactionId: payout.utr || payout.id,
+      payload: body
+    };
+  }
+
+  async getBalance(): Promise<PayoutBalance> {
+    const response = await axios.get(`${this.baseUrl}/balance`, {
+      params: { account_number: this.accountNumber },
+      auth: this.auth(),
+      timeout: REQUEST_TIMEOUT_MS
+    });
+
+    return { provider: this.name, availableINR: response.data.balance / 100 };
+  }
+
+  private auth() {
+    return { username: this.keyId, password: this.keySecret };
+  }
+}
+
+/**
+ * Local provider for development. Payouts succeed or fail at random and
+ * webhooks use our own format: a hex HMAC-SHA256 over `<timestamp>.<raw
+ * body>` in `X-Webhook-Signature`, with `X-Webhook-Timestamp` in seconds.
+ */
+export class MockPayoutProvider implements PayoutProvider {
+  name: PayoutProviderName = 'mock';
+  private webhookSecret: string;
+
+  constructor() {
+    this.webhookSecret = process.env.UPI_WEBHOOK_SECRET || process.env.UPI_SECRET_KEY || 'demo_secret_key';
+  }
+
+  async initiatePayout(request: UpiPayoutRequest, payoutId: string): Promise<UpiPayoutResponse> {
+    // 80% success rate, 20% failure rate for demo
+    if (Math.random() < 0.8) {
+      return {
+        payoutId,
+        status: 'PENDING',
+        message: 'Mock payout initiated successfully',
+        transactionId: `mock_txn_${Date.now()}`
+      };
+    }
+
+    return {
+      payoutId,
+      status: 'FAILED',
+      message: 'Mock payout failed - insufficient balance'
+    };
+  }
+
+  async getPayoutStatus(payoutId: string): Promise<UpiPayoutStatus | null> {
+    // Simulate status progression
+    const random = Math.random();
+    const now = new Date();
+
+    return {
+      payoutId,
+      status: random < 0.7 ? 'SUCCESS' : (random < 0.9 ? 'PENDING' : 'FAILED'),
+      amount: 100, // Mock amount
+      merchantUpiId: 'merchant@upi',
+      transactionId: `mock_txn_${Date.now()}`,
+      failureReason: random >= 0.9 ? 'Insufficient balance' : undefined,
+      createdAt: new Date(now.getTime() - 60000), // 1 minute ago
+      updatedAt: now
+    };
+  }
+
+  // Names the payee after the VPA, e.g. "Coffee" for coffee@paytm, so that demo QR codes match
+  async verifyBeneficiary(upiId: string): Promise<UpiBeneficiary> {
+    const name = upiId
+      .split('@')[0]
+      .split(/[._\-\d]+/)
+      .filter(Boolean)
+      .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+      .join(' ');
+
+    return {
+      upiId,
+      name: name || 'Mock Merchant',
+      verified: true
+    };
+  }
+
+  verifyWebhook(rawBody: Buffer, getHeader: WebhookHeaders): PayoutWebhookEvent {
+    const signature = getHeader('x-webhook-signature');
+    const timestamp = getHeader('x-webhook-timestamp');
+
+    if (!signature || !timestamp) {
+      throw createError('Missing webhook signature headers', 401);
+    }
+
+    if (!isFresh(parseInt(timestamp), getWebhookToleranceSeconds())) {
+      throw createError('Webhook timestamp outside the allowed window', 401);
+    }
+
+    const expected = crypto
+      .createHmac('sha256', this.webhookSecret)
+      .update(`${timestamp}.`)
+      .update(rawBody)
+      .digest();
+    if (!signaturesMatch(Buffer.from(signature, 'hex'), expected)) {
+      throw createError('Invalid webhook signature', 401);
+    }
+
+    const body = parseWebhookBody(rawBody);
+    const { payoutId, status, failureReason, providerTransactionId } = body;
+    const eventId = getHeader('x-webhook-id') || body.eventId;
+
+    if (!eventId || !payoutId || !status) {
+      throw createError('Missing required fields', 400);
+    }
+
+    return {
+      eventId,
+      payoutId,
+      status: status === 'SUCCESS' || status === 'FAILED' ? status : 'PENDING',
+      failureReason,
+      providerTransactionId,
+      payload: body
+    };
+  }
+
+  async getBalance(): Promise<PayoutBalance> {
+    return { provider: this.name, availableINR: 1000000 };
+  }
+}
+
+/**
+ * The provider payouts use unless the merchant has its own. Development
+ * and `USE_UPI_MOCK` default to the mock, as before providers were pluggable.
+ */
+export const getDefaultPayoutProvider = (): PayoutProviderName => {
+  const fallback = process.env.NODE_ENV === 'development' || process.env.USE_UPI_MOCK === 'true' ? 'mock' : 'cashfree';
+  return (process.env.PAYOUT_PROVIDER || fallback) as PayoutProviderName;
+};
+
+// Providers in `PAYOUT_PROVIDERS`, which merchants can choose between, plus the default
+export const getEnabledPayoutProviders = (): PayoutProviderName[] => {
+  const names = (process.env.PAYOUT_PROVIDERS || '')
+    .split(',')
+    .map(name => name.trim())
+    .filter(Boolean) as PayoutProviderName[];
+
+  return [...new Set([getDefaultPayoutProvider(), ...names])];
+};
+
+/**
+ * Validate a merchant's payout provider. `null` clears it so the merchant
+ * is paid through the default provider again.
+ */
+export const parsePayoutProvider = (value: unknown): PayoutProviderName | null => {
+  if (value === null) {
+    return null;
+  }
+
+  const enabled = getEnabledPayoutProviders();
+  if (typeof value !== 'string' || !enabled.includes(value as PayoutProviderName)) {
+    throw createError(`payoutProvider must be one of ${enabled.join(', ')}`, 400, 'invalid_payout_provider');
+  }
+
+  return value as PayoutProviderName;
+};
+
+// Build the enabled providers, keyed by name
+export const createPayoutProviders = (): Partial<Record<PayoutProviderName, PayoutProvider>> => {
+  return Object.fromEntries(getEnabledPayoutProviders().map(name => {
+    switch (name) {
+      case 'cashfree':
+        return [name, new CashfreePayoutProvider()];
+      case 'razorpayx':
+        return [name, new RazorpayXPayoutProvider()];
+      case 'mock':
+        return [name, new MockPayoutProvider()];
+      default:
+        throw new Error(`Unknown payout provider: ${name}`);
+    }
+  }));
+};
@@ -0,0 +1,505 @@
+import { Pool, QueryResultRow } from 'pg';
+import { db } from '../config/database';
+import { PaymentService } from './PaymentService';
+import { UpiService } from './UpiService';
+import { RefundService } from './RefundService';
+import { ScreeningService } from './ScreeningService';
+import { MerchantService } from './MerchantService';
+import type { PayoutProviderName } from './PayoutProviders';
+
+export type PayoutJobStatus = 'held' | 'queued' | 'processing' | 'succeeded' | 'dead';
+
+export interface PayoutJob {
+  id: string;
+  paymentId: string;
+  status: PayoutJobStatus;
+  attempts: number;
+  maxAttempts: number;
+  nextRunAt: Date;
+  lastError?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface PayoutAttempt {
+  id: string;
+  paymentId: string;
+  payoutId: string;
+  attemptNumber: number;
+  amount: number;
+  merchantUpiId: string;
+  // Unset for payouts made before providers were recorded
+  provider?: PayoutProviderName;
+  status: 'pending' | 'success' | 'failed';
+  providerTransactionId?: string;
+  failureReason?: string;
+  createdAt: Date;
+}
+
+const HELD_OR_QUEUED = `CASE WHEN risk_decision = 'hold' THEN 'held' ELSE 'queued' END`;
+
+/**
+ * Postgres-backed queue of merchant payouts. A job is created once a payment
+ * is confirmed and is drained by the payout worker. Each attempt is recorded
+ * in upi_payouts under a reference of its own. A payout whose outcome is
+ * unknown is looked up and, if the provider never received it, sent again
+ * under the same reference, so it is paid at most once; only a definite
+ * failure moves on to a new attempt, or gives up and refunds the payer.
+ */
+export class PayoutQueueService {
+  private db: Pool;
+  private paymentService: PaymentService;
+  private upiService: UpiService;
+  private refundService: RefundService;
+  private screeningService: ScreeningService;
+  private merchantService: MerchantService;
+  private maxAttempts: number;
+  private baseDelayMs: number;
+  private maxDelayMs: number;
+  private lockTimeoutMs: number;
+  private reconcileAfterMs: number;
+
+  constructor() {
+    this.db = db;
+    this.paymentService = new PaymentService();
+    this.upiService = new UpiService();
+    this.refundService = new RefundService();
+    this.screeningService = new ScreeningService();
+    this.merchantService = new MerchantService();
+    this.maxAttempts = parseInt(process.env.PAYOUT_MAX_ATTEMPTS || '5');
+    this.baseDelayMs = parseInt(process.env.PAYOUT_RETRY_BASE_DELAY_MS || '30000');
+    this.maxDelayMs = parseInt(process.env.PAYOUT_RETRY_MAX_DELAY_MS || '3600000');
+    this.lockTimeoutMs = parseInt(process.env.PAYOUT_LOCK_TIMEOUT_MS || '300000');
+    // How long an accepted payout may go without a final webhook before the provider is asked
+    this.reconcileAfterMs = parseInt(process.env.PAYOUT_RECONCILE_AFTER_MS || '900000');
+  }
+
+  /**
+   * Create the payout job for a confirmed payment. Payments on risk hold get
+   * a held job, which the worker skips until the hold is released.
+   */
+  async enqueue(paymentId: string): Promise<PayoutJob> {
+    const query = `
+      INSERT INTO payout_jobs (payment_id, max_attempts, status)
+      SELECT id, $2, ${HELD_OR_QUEUED} FROM payments WHERE id = $1
+      ON CONFLICT (payment_id) DO UPDATE SET payment_id = EXCLUDED.payment_id
+      RETURNING *
+    `;
+    const result = await this.db.query(query, [paymentId, this.maxAttempts]);
+    return this.mapRowToJob(result.rows[0]);
+  }
+
+  /**
+   * Enqueue confirmed payments that have no job yet, e.g. because the
+   * process stopped between confirming the payment and enqueuing it.
+   */
+  async enqueueMissing(): Promise<number> {
+    const query = `
+      INSERT INTO payout_jobs (payment_id, max_attempts, status)
+      SELECT p.id, $1, ${HELD_OR_QUEUED} FROM payments p
+      WHERE p.status = 'confirmed'
+        AND NOT EXISTS (SELECT 1 FROM payout_jobs j WHERE j.payment_id = p.id)
+      ON CONFLICT (payment_id) DO NOTHING
+    `;
+    const result = await this.db.query(query, [this.maxAttempts]);
+    return result.rowCount || 0;
+  }
+
+  async getJobByPaymentId(paymentId: string): Promise<PayoutJob | null> {
+    const result = await this.db.query('SELECT * FROM payout_jobs WHERE payment_id = $1', [paymentId]);
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return this.mapRowToJob(result.rows[0]);
+  }
+
+  async getDeadJobs(page: number = 1, limit: number = 20): Promise<{ jobs: PayoutJob[]; total: number }> {
+    const countResult = await this.db.query("SELECT COUNT(*) FROM payout_jobs WHERE status = 'dead'");
+    const result = await this.db.query(
+      `SELECT * FROM payout_jobs WHERE status = 'dead' ORDER BY updated_at DESC LIMIT $1 OFFSET $2`,
+      [limit, (page - 1) * limit]
+    );
+
+    return {
+      jobs: result.rows.map(row => this.mapRowToJob(row)),
+      total: parseInt(countResult.rows[0].count)
+    };
+  }
+
+  async getAttempts(paymentId: string): Promise<PayoutAttempt[]> {
+    const result = await this.db.query(
+      'SELECT * FROM upi_payouts WHERE payment_id = $1 ORDER BY created_at ASC',
+      [paymentId]
+    );
+    return result.rows.map(row => this.mapRowToAttempt(row));
+  }
+
+  /**
+   * Claim due jobs for processing. Jobs left in `processing` by a worker
+   * that died are picked up again once their lock times out.
+   */
+  async claimDueJobs(limit: number): Promise<PayoutJob[]> {
+    const query = `
+      UPDATE payout_jobs SET status = 'processing', locked_at = CURRENT_TIMESTAMP
+      WHERE id IN (
+        SELECT id FROM payout_jobs
+        WHERE (status = 'queued' AND next_run_at <= CURRENT_TIMESTAMP)
+           OR (status = 'processing' AND locked_at < CURRENT_TIMESTAMP - ($1 || ' milliseconds')::interval)
+        ORDER BY next_run_at ASC
+        LIMIT $2
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING *
+    `;
+    const result = await this.db.query(query, [this.lockTimeoutMs, limit]);
+    return result.rows.map(row => this.mapRowToJob(row));
+  }
+
+  async processJob(job: PayoutJob): Promise<void> {
+    const payment = await this.paymentService.getPaymentById(job.paymentId);
+
+    if (!payment) {
+      await this.deadLetter(job, 'Payment not found');
+      return;
+    }
+
+    // Nothing to pay out unless the deposit is confirmed and no payout is in flight
+    if (payment.status !== 'confirmed') {
+      await this.markSucceeded(job.id);
+      return;
+    }
+
+    const attempts = await this.getAttempts(job.paymentId);
+    // An attempt the provider never received, sent again under its own reference
+    let resend: PayoutAttempt | undefined;
+
+    // If an earlier attempt's outcome was never recorded, ask the provider before paying again
+    for (const attempt of attempts.filter(attempt => attempt.status === 'pending')) {
+      const providerStatus = await this.upiService.findPayout(attempt.payoutId, attempt.provider);
+
+      if (!providerStatus) {
+        await this.scheduleRetry(job, `Could not determine the outcome of payout ${attempt.payoutId}`, false);
+        return;
+      }
+
+      if (providerStatus === 'not_found') {
+        resend = attempt;
+        continue;
+      }
+
+      await this.recordAttemptResult(attempt.id, providerStatus.status, providerStatus.transactionId, providerStatus.failureReason);
+
+      if (providerStatus.status === 'SUCCESS') {
+        await this.markPayoutInitiated(job, payment.id, attempt.payoutId);
+        await this.completePayout(payment.id, attempt.payoutId, providerStatus.transactionId);
+        return;
+      }
+
+      if (providerStatus.status === 'PENDING') {
+        await this.markPayoutInitiated(job, payment.id, attempt.payoutId);
+        return;
+      }
+    }
+
+    // Every attempt so far definitely failed or never reached the provider
+    if (job.attempts >= job.maxAttempts) {
+      await this.deadLetter(job, job.lastError || 'UPI payout failed');
+      return;
+    }
+
+    // Lists may have changed since the payment was made; a blocked payment is never retried
+    const screeningSubject = { walletAddress: payment.walletAddress, vpa: payment.merchantUpiId };
+    const screening = await this.screeningService.screen(screeningSubject);
+    if (screening.blocked) {
+      await this.screeningService.recordBlocked(screeningSubject, screening, {
+        stage: 'payout',
+        paymentId: payment.id,
+        merchantId: payment.merchantId
+      });
+      await this.blockPayout(job, payment.id);
+      return;
+    }
+
+    const merchant = await this.merchantService.getMerchantById(payment.merchantId);
+
+    let attemptId: string;
+    let payoutId: string;
+    let provider: PayoutProviderName;
+
+    if (resend) {
+      // A reference stays with the provider it was first sent to
+      attemptId = resend.id;
+      payoutId = resend.payoutId;
+      provider = resend.provider || this.upiService.getProviderName(merchant);
+    } else {
+      const attemptNumber = attempts.length + 1;
+      payoutId = this.upiService.getPayoutReference(payment.id, attemptNumber);
+      provider = this.upiService.getProviderName(merchant);
+
+      const attemptResult = await this.db.query(
+        `INSERT INTO upi_payouts (payment_id, payout_id, attempt_number, amount, merchant_upi_id, provider, status)
+         VALUES ($1, $2, $3, $4, $5, $6, 'pending')
+         RETURNING id`,
+        [payment.id, payoutId, attemptNumber, payment.amountINR, payment.merchantUpiId, provider]
+      );
+      attemptId = attemptResult.rows[0].id;
+    }
+
+    await this.db.query('UPDATE payout_jobs SET attempts = attempts + 1 WHERE id = $1', [job.id]);
+    // Linked before the provider is called, so its webhooks can always find the payment
+    await this.paymentService.updatePaymentPayout(payment.id, payoutId);
+    const claimedJob = { ...job, attempts: job.attempts + 1 };
+
+    const payout = await this.upiService.initiatePayout({
+      transactionId: payment.id,
+      merchantUpiId: payment.merchantUpiId,
+      amount: payment.amountINR,
+      currency: 'INR',
+      referenceId: payoutId,
+      beneficiaryName: merchant?.name
+    }, provider);
+
+    await this.recordAttemptResult(
+      attemptId,
+      payout.status,
+      payout.transactionId,
+      payout.status === 'FAILED' ? payout.message : undefined,
+      payout
+    );
+
+    // Left pending, so the next run looks the payout up instead of sending it again
+    if (payout.outcomeUnknown) {
+      await this.scheduleRetry(claimedJob, `Outcome of payout ${payoutId} is unknown`, false);
+      return;
+    }
+
+    // The next run sends a new attempt under a new reference
+    if (payout.status === 'FAILED') {
+      await this.scheduleRetry(claimedJob, payout.message);
+      return;
+    }
+
+    await this.markPayoutInitiated(claimedJob, payment.id, payoutId);
+
+    if (payout.status === 'SUCCESS') {
+      await this.completePayout(payment.id, payoutId, payout.transactionId);
+    }
+  }
+
+  /**
+   * Ask the provider about payouts that were accepted but have gone without
+   * a final webhook for a while, so that a lost webhook can't leave a
+   * payment in payout_initiated.
+   */
+  async reconcileInitiatedPayouts(limit: number): Promise<number> {
+    const result = await this.db.query(
+      `SELECT id, upi_payout_id FROM payments
+       WHERE status = 'payout_initiated' AND upi_payout_id IS NOT NULL
+         AND updated_at < CURRENT_TIMESTAMP - ($1 || ' milliseconds')::interval
+       ORDER BY updated_at ASC
+       LIMIT $2`,
+      [this.reconcileAfterMs, limit]
+    );
+
+    for (const row of result.rows) {
+      try {
+        const providerStatus = await this.upiService.getPayoutStatus(row.upi_payout_id);
+
+        if (providerStatus?.status === 'SUCCESS') {
+          await this.completePayout(row.id, row.upi_payout_id, providerStatus.transactionId);
+        } else if (providerStatus?.status === 'FAILED') {
+          await this.handlePayoutFailure(row.id, row.upi_payout_id, providerStatus.failureReason || 'Payout failed');
+        }
+      } catch (error) {
+        console.error(`Error reconciling payout for payment ${row.id}:`, error);
+      }
+    }
+
+    return result.rows.length;
+  }
+
+  // Record a payout the provider made and complete its payment
+  async completePayout(
+    paymentId: string,
+    payoutId: string,
+    providerTransactionId?: string,
+    actor: string = 'payout_queue'
+  ): Promise<void> {
+    await this.markPayoutSucceeded(payoutId, providerTransactionId);
+    await this.paymentService.updatePaymentStatus(paymentId, 'completed', {
+      actor,
+      reason: `UPI payout ${payoutId} succeeded`
+    });
+  }
+
+  /**
+   * Handle a payout the provider reported as failed after it was accepted:
+   * put the payment back to confirmed and retry under a new reference, or
+   * dead-letter the job.
+   */
+  async handlePayoutFailure(paymentId: string, payoutId: string, reason: string): Promise<void> {
+    await this.db.query(
+      `UPDATE upi_payouts SET status = 'failed', failure_reason = $1 WHERE payout_id = $2`,
+      [reason, payoutId]
+    );
+
+    const job = await this.getJobByPaymentId(paymentId) || await this.enqueue(paymentId);
+
+    await this.paymentService.updatePaymentStatus(paymentId, 'confirmed', {
+      actor: 'payout_queue',
+      reason: `UPI payout ${payoutId} failed: ${reason}`
+    });
+
+    await this.scheduleRetry(job, reason);
+  }
+
+  async markPayoutSucceeded(payoutId: string, providerTransactionId?: string): Promise<void> {
+    await this.db.query(
+      `UPDATE upi_payouts SET status = 'success', provider_transaction_id = COALESCE($1, provider_transaction_id)
+       WHERE payout_id = $2`,
+      [providerTransactionId || null, payoutId]
+    );
+  }
+
+  /**
+   * Run the job again after a backoff. Once its attempts are used up a job
+   * that definitely failed is dead-lettered; one whose outcome is unknown
+   * keeps being looked up, since the merchant may already have been paid.
+   */
+  private async scheduleRetry(job: PayoutJob, error: string, definite: boolean = true): Promise<void> {
+    if (definite && job.attempts >= job.maxAttempts) {
+      await this.deadLetter(job, error);
+      return;
+    }
+
+    // Exponential backoff with jitter so that failed payouts do not retry in lockstep
+    const delay = Math.min(this.baseDelayMs * 2 ** Math.max(job.attempts - 1, 0), this.maxDelayMs);
+    const jitter = Math.floor(Math.random() * delay * 0.2);
+
+    await this.db.query(
+      `UPDATE payout_jobs
+       SET status = 'queued', last_error = $1, locked_at = NULL,
+           next_run_at = CURRENT_TIMESTAMP + ($2 || ' milliseconds')::interval
+       WHERE id = $3`,
+      [error, delay + jitter, job.id]
+    );
+  }
+
+  // Only for payouts the provider definitely didn't make, since the payer is refunded
+  private async deadLetter(job: PayoutJob, error: string): Promise<void> {
+    await this.db.query(
+      `UPDATE payout_jobs SET status = 'dead', last_error = $1, locked_at = NULL WHERE id = $2`,
+      [error, job.id]
+    );
+
+    const payment = await this.paymentService.getPaymentById(job.paymentId);
+
+    if (payment && payment.status === 'confirmed') {
+      await this.paymentService.updatePaymentStatus(job.paymentId, 'failed', {
+        actor: 'payout_queue',
+        reason: `UPI payout gave up after ${job.attempts} attempts`,
+        failureReason: error
+      });
+
+      // Give the stablecoin back rather than leaving it in escrow
+      try {
+        await this.refundService.refundPayment(job.paymentId, {
+          actor: 'payout_queue',
+          reason: 'UPI payout failed after all retries'
+        });
+      } catch (refundError) {
+        console.error(`Error refunding payment ${job.paymentId}:`, refundError);
+      }
+    }
+  }
+
+  /**
+   * Stop a payout that failed screening. Unlike a dead-lettered payout the
+   * deposit isn't refunded automatically: it stays in escrow for compliance
+   * review and can be refunded through the refunds API once cleared.
+   */
+  private async blockPayout(job: PayoutJob, paymentId: string): Promise<void> {
+    const error = 'Blocked by wallet and VPA screening';
+
+    await this.db.query(
+      `UPDATE payout_jobs SET status = 'dead', last_error = $1, locked_at = NULL WHERE id = $2`,
+      [error, job.id]
+    );
+
+    await this.paymentService.updatePaymentStatus(paymentId, 'failed', {
+      actor: 'payout_queue',
+      reason: 'UPI payout blocked by screening',
+      failureReason: error
+    });
+  }
+
+  private async markPayoutInitiated(job: PayoutJob, paymentId: string, payoutId: string): Promise<void> {
+    await this.paymentService.updatePaymentPayout(paymentId, payoutId);
+    await this.paymentService.updatePaymentStatus(paymentId, 'payout_initiated', {
+      actor: 'payout_queue',
+      reason: `UPI payout ${payoutId} initiated`
+    });
+    await this.markSucceeded(job.id);
+  }
+
+  private async markSucceeded(jobId: string): Promise<void> {
+    await this.db.query(
+      `UPDATE payout_jobs SET status = 'succeeded', last_error = NULL, locked_at = NULL WHERE id = $1`,
+      [jobId]
+    );
+  }
+
+  private async recordAttemptResult(
+    attemptId: string,
+    status: 'PENDING' | 'SUCCESS' | 'FAILED',
+    providerTransactionId?: string,
+    failureReason?: string,
+    providerResponse?: unknown
+  ): Promise<void> {
+    await this.db.query(
+      `UPDATE upi_payouts
+       SET status = $1, provider_transaction_id = $2, failure_reason = $3,
+           provider_response = COALESCE($4, provider_response)
+       WHERE id = $5`,
+      [
+        status.toLowerCase(),
+        providerTransactionId || null,
+        failureReason || null,
+        providerResponse ? JSON.stringify(providerResponse) : null,
+        attemptId
+      ]
+    );
+  }
+
+  private mapRowToJob(row: QueryResultRow): PayoutJob {
+    return {
+      id: row.id,
+      paymentId: row.payment_id,
+      status: row.status,
+      attempts: row.attempts,
+      maxAttempts: row.max_attempts,
+      nextRunAt: row.next_run_at,
+      lastError: row.last_error || undefined,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    };
+  }
+
+  private mapRowToAttempt(row: QueryResultRow): PayoutAttempt {
+    return {
+      id: row.id,
+      paymentId: row.payment_id,
+      payoutId: row.payout_id,
+      attemptNumber: row.attempt_number,
+      amount: parseFloat(row.amount),
+      merchantUpiId: row.merchant_upi_id,
+      provider: row.provider || undefined,
+      status: row.status,
+      providerTransactionId: row.provider_transaction_id || undefined,
+      failureReason: row.failure_reason || undefined,
+      createdAt: row.created_at
+    };
+  }
+}
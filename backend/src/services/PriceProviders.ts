@@ -0,0 +1,184 @@
+import axios from 'axios';
+
+export interface PriceQuote {
+  source: string;
+  rate: number;
+  // When the provider last updated the price, as reported by the provider
+  observedAt: Date;
+}
+
+/**
+ * A single source of exchange rates. `getRate` returns how many units of
+ * `to` one unit of `from` is worth and throws when the source is down.
+ */
+export interface PriceProvider {
+  name: string;
+  supports(from: string, to: string): boolean;
+  getRate(from: string, to: string): Promise<PriceQuote>;
+}
+
+const REQUEST_TIMEOUT_MS = 5000;
+
+// CoinGecko coin ids and vs-currency codes for the assets and currencies we price
+const COINGECKO_IDS: Record<string, string> = {
+  APT: 'aptos',
+  USDC: 'usd-coin',
+  USDT: 'tether'
+};
+const COINGECKO_CURRENCIES: Record<string, string> = {
+  USD: 'usd',
+  INR: 'inr'
+};
+
+export class CoinGeckoProvider implements PriceProvider {
+  name = 'coingecko';
+
+  supports(from: string, to: string): boolean {
+    return from in COINGECKO_IDS && to in COINGECKO_CURRENCIES;
+  }
+
+  async getRate(from: string, to: string): Promise<PriceQuote> {
+    const id = COINGECKO_IDS[from];
+    const currency = COINGECKO_CURRENCIES[to];
+    const response = await axios.get('https://api.coingecko.com/api/v3/simple/price', {
+      params: {
+        ids: id,
+        vs_currencies: currency,
+        include_last_updated_at: true
+      },
+      timeout: REQUEST_TIMEOUT_MS
+    });
+
+    const price = response.data[id];
+    if (!price?.[currency]) {
+      throw new Error(`Invalid response from CoinGecko for ${from}/${to}`);
+    }
+
+    return {
+      source: this.name,
+      rate: price[currency],
+      observedAt: price.last_updated_at ? new Date(price.last_updated_at * 1000) : new Date()
+    };
+  }
+}
+
+export class CoinbaseProvider implements PriceProvider {
+  name = 'coinbase';
+
+  supports(from: string, to: string): boolean {
+    return ['APT', 'USDC', 'USDT'].includes(from) && to === 'USD';
+  }
+
+  async getRate(from: string, to: string): Promise<PriceQuote> {
+    const response = await axios.get(`https://api.coinbase.com/v2/prices/${from}-${to}/spot`, {
+      timeout: REQUEST_TIMEOUT_MS
+    });
+
+    const rate = parseFloat(response.data.data?.amount);
+    if (!rate) {
+      throw new Error(`Invalid response from Coinbase for ${from}/${to}`);
+    }
+
+    // Spot prices are live and carry no timestamp of their own
+    return { source: this.name, rate, observedAt: new Date() };
+  }
+}
+
+// USD/INR from a fiat rates API. Each instance reads one feed.
+export class FiatRateProvider implements PriceProvider {
+  constructor(
+    public name: string,
+    private url: string,
+    private timestampField: string
+  ) {}
+
+  supports(from: string, to: string): boolean {
+    return from === 'USD' && to === 'INR';
+  }
+
+  async getRate(from: string, to: string): Promise<PriceQuote> {
+    const response = await axios.get(this.url, { timeout: REQUEST_TIMEOUT_MS });
+
+    const rate = response.data.rates?.INR;
+    if (!rate) {
+      throw new Error(`Invalid response from ${this.name} for ${from}/${to}`);
+    }
+
+    const updatedAt = response.data[this.timestampField];
+    return {
+      source: this.name,
+      rate,
+      observedAt: updatedAt ? new Date(updatedAt * 1000) : new Date()
+    };
+  }
+}
+
+// Local fake with a fixed rate, for development and tests without network access
+export class FakePriceProvider implements PriceProvider {
+  constructor(
+    public name: string,
+    private rates: Record<string, number>
+  ) {}
+
+  supports(from: string, to: string): boolean {
+    return `${from}/${to}` in this.rates;
+  }
+
+  async getRate(from: string, to: string): Promise<PriceQuote> {
+    const rate = this.rates[`${from}/${to}`];
+    if (rate === undefined) {
+      throw new Error(`${this.name} has no rate for ${from}/${to}`);
+    }
+
+    return { source: this.name, rate, observedAt: new Date() };
+  }
+}
+
+/**
+ * Parse `ORACLE_FAKE_RATES`, e.g. `APT/USD=5.2,5.3;USD/INR=84`, into one
+ * rate table per fake source. A pair lists one value per source, and
+ * sources beyond the end of a pair's list reuse its last value, so several
+ * agreeing (or disagreeing) sources can be simulated locally.
+ */
+const parseFakeRates = (spec: string): Record<string, number>[] => {
+  const pairs = spec
+    .split(';')
+    .map(entry => entry.split('='))
+    .filter(([pair, values]) => pair && values)
+    .map(([pair, values]) => ({ pair: pair.trim(), rates: values.split(',').map(value => parseFloat(value)) }));
+
+  const sourceCount = Math.max(0, ...pairs.map(({ rates }) => rates.length));
+  return Array.from({ length: sourceCount }, (_, index) =>
+    Object.fromEntries(pairs.map(({ pair, rates }) => [pair, rates[Math.min(index, rates.length - 1)]]))
+  );
+};
+
+/**
+ * Build the providers named in `ORACLE_PROVIDERS`. `fake` adds the local
+ * fakes described by `ORACLE_FAKE_RATES`.
+ */
+export const createPriceProviders = (): PriceProvider[] => {
+  const names = (process.env.ORACLE_PROVIDERS || 'coingecko,coinbase,exchangerate-api,open-er-api')
+    .split(',')
+    .map(name => name.trim())
+    .filter(Boolean);
+
+  return names.flatMap((name): PriceProvider[] => {
+    switch (name) {
+      case 'coingecko':
+        return [new CoinGeckoProvider()];
+      case 'coinbase':
+        return [new CoinbaseProvider()];
+      case 'exchangerate-api':
+        return [new FiatRateProvider(name, 'https://api.exchangerate-api.com/v4/latest/USD', 'time_last_updated')];
+      case 'open-er-api':
+        return [new FiatRateProvider(name, 'https://open.er-api.com/v6/latest/USD', 'time_last_update_unix')];
+      case 'fake':
+        return parseFakeRates(
+          process.env.ORACLE_FAKE_RATES || 'APT/USD=10,10,10;USDC/USD=1,1,1;USDT/USD=1,1,1;USD/INR=84,84,84'
+        ).map((rates, index) => new FakePriceProvider(`fake-${index + 1}`, rates));
+      default:
+        throw new Error(`Unknown price provider: ${name}`);
+    }
+  });
+};
@@ -0,0 +1,210 @@
+import { Pool, QueryResultRow } from 'pg';
+import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { db } from '../config/database';
+import { OracleService } from './OracleService';
+import { APTOS_ASSETS } from './AptosService';
+import { FeeService } from './FeeService';
+import { MerchantService } from './MerchantService';
+import { RiskService } from './RiskService';
+import { createError } from '../middleware/errorHandler';
+
+export interface QuoteFee {
+  type: string;
+  label: string;
+  amountINR: number;
+}
+
+export interface Quote {
+  id: string;
+  pair: string;
+  fromCurrency: string;
+  toCurrency: string;
+  rate: number;
+  amountINR: number;
+  cryptoAmount: number;
+  fees: QuoteFee[];
+  // Set when the fees were priced for a specific merchant's schedule
+  merchantId?: string;
+  walletAddress?: string;
+  signature: string;
+  expiresAt: Date;
+  createdAt: Date;
+}
+
+export interface CreateQuoteData {
+  amountINR: number;
+  asset?: string;
+  // Merchant id or payee VPA, so that the merchant's fee schedule applies
+  merchantId?: string;
+  walletAddress?: string;
+}
+
+export class QuoteService {
+  private db: Pool;
+  private oracleService: OracleService;
+  private feeService: FeeService;
+  private merchantService: MerchantService;
+  private riskService: RiskService;
+  private signingSecret?: string;
+  private ttlSeconds: number;
+
+  constructor() {
+    this.db = db;
+    this.oracleService = new OracleService();
+    this.feeService = new FeeService(this.oracleService);
+    this.merchantService = new MerchantService();
+    this.riskService = new RiskService();
+    this.signingSecret = process.env.QUOTE_SIGNING_SECRET;
+    this.ttlSeconds = parseInt(process.env.QUOTE_TTL_SECONDS || '120');
+  }
+
+  async createQuote(data: CreateQuoteData): Promise<Quote> {
+    const fromCurrency = data.asset || 'USDC';
+    const toCurrency = 'INR';
+
+    const asset = APTOS_ASSETS[fromCurrency];
+    if (!asset) {
+      throw createError(`Unsupported asset: ${fromCurrency}`, 400, 'unsupported_asset');
+    }
+
+    // Normalise to the precision stored in the quotes table so the signature survives a round trip
+    const rate = Number((await this.oracleService.getExchangeRate(fromCurrency, toCurrency)).toFixed(8));
+    const amountINR = Math.round(data.amountINR * 100) / 100;
+    const merchant = data.merchantId ? await this.merchantService.findMerchant(data.merchantId) : null;
+
+    // Don't price a payment the risk engine would refuse; holds are applied to the payment itself
+    if (data.walletAddress) {
+      this.riskService.assertNotBlocked(await this.riskService.assess({
+        walletAddress: data.walletAddress,
+        amountINR,
+        merchant
+      }));
+    }
+    const fees = await this.feeService.calculateFees(amountINR, merchant);
+    const totalINR = amountINR + fees.reduce((sum, fee) => sum + fee.amountINR, 0);
+
+    const now = new Date();
+    const quote: Omit<Quote, 'signature'> = {
+      id: uuidv4(),
+      pair: `${fromCurrency}/${toCurrency}`,
+      fromCurrency,
+      toCurrency,
+      rate,
+      amountINR,
+      // Round up so that rounding never leaves the payout underfunded
+      cryptoAmount: Math.ceil((totalINR / rate) * 10 ** asset.decimals) / 10 ** asset.decimals,
+      fees,
+      merchantId: merchant?.id,
+      walletAddress: data.walletAddress,
+      expiresAt: new Date(now.getTime() + this.ttlSeconds * 1000),
+      createdAt: now
+    };
+    const signature = this.sign(quote);
+
+    const query = `
+      INSERT INTO quotes (
+        id, from_currency, to_currency, rate, amount_inr, crypto_amount,
+        fees, merchant_id, wallet_address, signature, expires_at, created_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+    `;
+
+    await this.db.query(query, [
+      quote.id,
+      fromCurrency,
+      toCurrency,
+      quote.rate,
+      quote.amountINR,
+      quote.cryptoAmount,
+      JSON.stringify(fees),
+      quote.merchantId || null,
+      quote.walletAddress || null,
+      signature,
+      quote.expiresAt,
+      quote.createdAt
+    ]);
+
+    return { ...quote, signature };
+  }
+
+  async getQuoteById(id: string): Promise<Quote | null> {
+    const result = await this.db.query('SELECT * FROM quotes WHERE id = $1', [id]);
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return this.mapRowToQuote(result.rows[0]);
+  }
+
+  /**
+   * Load a quote for payment initiation, rejecting quotes that are unknown,
+   * expired, tampered with or locked to a different wallet.
+   */
+  async getValidQuote(id: string, walletAddress: string): Promise<Quote> {
+    const quote = await this.getQuoteById(id);
+
+    if (!quote) {
+      throw createError('Quote not found', 404);
+    }
+
+    if (!this.verifySignature(quote)) {
+      throw createError('Quote signature is invalid', 400);
+    }
+
+    if (quote.expiresAt.getTime() <= Date.now()) {
+      throw createError('Quote has expired, please request a new quote', 410);
+    }
+
+    if (quote.walletAddress && quote.walletAddress !== walletAddress) {
+      throw createError('Quote was issued for a different wallet', 400);
+    }
+
+    return quote;
+  }
+
+  verifySignature(quote: Quote): boolean {
+    const expected = Buffer.from(this.sign(quote), 'hex');
+    const actual = Buffer.from(quote.signature, 'hex');
+    return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+  }
+
+  // Fails closed: without QUOTE_SIGNING_SECRET quotes can be neither issued nor accepted
+  private sign(quote: Omit<Quote, 'signature'>): string {
+    if (!this.signingSecret) {
+      throw createError('Quotes are not configured', 503);
+    }
+
+    const payload = [
+      quote.id,
+      quote.pair,
+      quote.rate.toFixed(8),
+      quote.amountINR.toFixed(2),
+      quote.cryptoAmount.toFixed(8),
+      quote.fees.map(fee => `${fee.type}:${fee.amountINR.toFixed(2)}`).join(','),
+      quote.merchantId || '',
+      quote.walletAddress || '',
+      quote.expiresAt.toISOString()
+    ].join('|');
+
+    return crypto.createHmac('sha256', this.signingSecret).update(payload).digest('hex');
+  }
+
+  private mapRowToQuote(row: QueryResultRow): Quote {
+    return {
+      id: row.id,
+      pair: `${row.from_currency}/${row.to_currency}`,
+      fromCurrency: row.from_currency,
+      toCurrency: row.to_currency,
+      rate: parseFloat(row.rate),
+      amountINR: parseFloat(row.amount_inr),
+      cryptoAmount: parseFloat(row.crypto_amount),
+      fees: row.fees || [],
+      merchantId: row.merchant_id || undefined,
+      walletAddress: row.wallet_address || undefined,
+      signature: row.signature,
+      expiresAt: new Date(row.expires_at),
+      createdAt: row.created_at
+    };
+  }
+}
@@ -0,0 +1,385 @@
+import { Pool, QueryResultRow } from 'pg';
+import { db } from '../config/database';
+import { AptosService } from './AptosService';
+import { PaymentService, Payment } from './PaymentService';
+import { NotificationService } from './NotificationService';
+import { createError } from '../middleware/errorHandler';
+
+export type RefundStatus = 'pending' | 'submitted' | 'completed' | 'failed';
+
+// 'full' returns everything held for a payment, 'excess' only what was overpaid
+export type RefundKind = 'full' | 'excess';
+
+export interface Refund {
+  id: string;
+  paymentId: string;
+  kind: RefundKind;
+  asset: string;
+  grossAmount: number;
+  feeAmount: number;
+  amount: number;
+  recipientAddress: string;
+  status: RefundStatus;
+  aptosTransactionHash?: string;
+  reason: string;
+  initiatedBy: string;
+  failureReason?: string;
+  // Times the refund has been sent
+  attempts: number;
+  nextAttemptAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface RefundRequest {
+  actor: string;
+  reason: string;
+  // Defaults to what is still held in escrow for the payment
+  amount?: number;
+}
+
+// Payments whose deposit is still held in escrow and will not be paid out
+const REFUNDABLE_STATUSES = ['failed', 'expired'];
+
+/**
+ * Returns stablecoin held in escrow to the paying wallet when a payment
+ * cannot be paid out to the merchant. Refunds are reconciled in the
+ * background: a submitted one whose outcome was never learned is looked up
+ * on chain, and a failed one is sent again with backoff.
+ */
+export class RefundService {
+  private db: Pool;
+  private aptosService: AptosService;
+  private paymentService: PaymentService;
+  private notificationService: NotificationService;
+  private feeBps: number;
+  private fixedFee: number;
+  private maxAttempts: number;
+  private baseDelayMs: number;
+  private maxDelayMs: number;
+  private reconcileAfterMs: number;
+
+  constructor() {
+    this.db = db;
+    this.aptosService = new AptosService();
+    this.paymentService = new PaymentService();
+    this.notificationService = new NotificationService();
+    // Fee policy: basis points of the refunded amount plus a fixed amount in the refunded asset
+    this.feeBps = parseInt(process.env.REFUND_FEE_BPS || '0');
+    this.fixedFee = parseFloat(process.env.REFUND_FIXED_FEE || '0');
+    this.maxAttempts = parseInt(process.env.REFUND_MAX_ATTEMPTS || '5');
+    this.baseDelayMs = parseInt(process.env.REFUND_RETRY_BASE_DELAY_MS || '60000');
+    this.maxDelayMs = parseInt(process.env.REFUND_RETRY_MAX_DELAY_MS || '3600000');
+    // Well past a transaction's expiry, so one the node hasn't seen by then never commits
+    this.reconcileAfterMs = parseInt(process.env.REFUND_RECONCILE_AFTER_MS || '600000');
+  }
+
+  calculateFee(amount: number): number {
+    const fee = (amount * this.feeBps) / 10000 + this.fixedFee;
+    return Math.min(amount, Math.round(fee * 1e8) / 1e8);
+  }
+
+  async refundPayment(paymentId: string, request: RefundRequest): Promise<Refund> {
+    const payment = await this.paymentService.getPaymentById(paymentId);
+
+    if (!payment) {
+      throw createError('Payment not found', 404);
+    }
+
+    if (!REFUNDABLE_STATUSES.includes(payment.status)) {
+      throw createError(`Only failed or expired payments can be refunded, payment is ${payment.status}`, 409, 'not_refundable');
+    }
+
+    if (!payment.aptosTransactionHash) {
+      throw createError('Payment has no deposit to refund', 409, 'not_refundable');
+    }
+
+    const amount = request.amount ?? await this.getHeldAmount(payment);
+    const refund = await this.sendRefund(payment, await this.claimRefund(payment, 'full', amount, request));
+
+    if (refund.status === 'completed') {
+      await this.paymentService.updatePaymentStatus(paymentId, 'refunded', {
+        actor: request.actor,
+        reason: `Refunded ${refund.amount} ${refund.asset} in ${refund.aptosTransactionHash}: ${request.reason}`
+      });
+    }
+
+    return refund;
+  }
+
+  /**
+   * Return the part of a deposit that exceeded the payment amount. The
+   * payment itself carries on, so its status is left untouched.
+   */
+  async refundExcess(paymentId: string, amount: number, request: RefundRequest): Promise<Refund> {
+    const payment = await this.paymentService.getPaymentById(paymentId);
+
+    if (!payment) {
+      throw createError('Payment not found', 404);
+    }
+
+    if (!payment.aptosTransactionHash) {
+      throw createError('Payment has no deposit to refund', 409, 'not_refundable');
+    }
+
+    return this.sendRefund(payment, await this.claimRefund(payment, 'excess', amount, request));
+  }
+
+  async getRefundByPaymentId(paymentId: string): Promise<Refund | null> {
+    const result = await this.db.query(
+      'SELECT * FROM refunds WHERE payment_id = $1 ORDER BY created_at DESC LIMIT 1',
+      [paymentId]
+    );
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return this.mapRowToRefund(result.rows[0]);
+  }
+
+  /**
+   * Settle refunds that a single try left unfinished. Submitted refunds are
+   * looked up on chain; failed ones are sent again once their backoff has
+   * passed, until REFUND_MAX_ATTEMPTS.
+   */
+  async reconcileRefunds(limit: number): Promise<number> {
+    const submitted = await this.db.query(
+      `SELECT * FROM refunds
+       WHERE status = 'submitted' AND updated_at < CURRENT_TIMESTAMP - ($1 || ' milliseconds')::interval
+       ORDER BY updated_at ASC
+       LIMIT $2`,
+      [this.reconcileAfterMs, limit]
+    );
+
+    for (const row of submitted.rows) {
+      try {
+        await this.reconcileSubmitted(this.mapRowToRefund(row));
+      } catch (error) {
+        console.error(`Error reconciling refund ${row.id}:`, error);
+      }
+    }
+
+    const failed = await this.db.query(
+      `SELECT * FROM refunds
+       WHERE status = 'failed' AND attempts < $1 AND next_attempt_at <= CURRENT_TIMESTAMP
+       ORDER BY next_attempt_at ASC
+       LIMIT $2`,
+      [this.maxAttempts, limit]
+    );
+
+    for (const row of failed.rows) {
+      try {
+        await this.retryRefund(this.mapRowToRefund(row));
+      } catch (error) {
+        console.error(`Error retrying refund ${row.id}:`, error);
+      }
+    }
+
+    return submitted.rows.length + failed.rows.length;
+  }
+
+  private async reconcileSubmitted(refund: Refund): Promise<void> {
+    const transactionHash = refund.aptosTransactionHash as string;
+    const outcome = await this.aptosService.getTransactionOutcome(transactionHash);
+
+    if (outcome === 'failed') {
+      await this.markFailed(refund, 'Refund transaction was not committed successfully', transactionHash);
+      return;
+    }
+
+    if (outcome === 'not_found') {
+      await this.markFailed(refund, 'Refund transaction was never committed', transactionHash);
+      return;
+    }
+
+    // Still pending, or the node can't be asked right now
+    if (outcome !== 'success') {
+      return;
+    }
+
+    const payment = await this.paymentService.getPaymentById(refund.paymentId);
+    if (!payment) {
+      return;
+    }
+
+    const completed = await this.completeRefund(payment, refund, transactionHash);
+
+    if (completed.kind === 'full' && REFUNDABLE_STATUSES.includes(payment.status)) {
+      await this.paymentService.updatePaymentStatus(payment.id, 'refunded', {
+        actor: 'refund_reconciler',
+        reason: `Refunded ${completed.amount} ${completed.asset} in ${transactionHash}: ${completed.reason}`
+      });
+    }
+  }
+
+  private async retryRefund(refund: Refund): Promise<void> {
+    const payment = await this.paymentService.getPaymentById(refund.paymentId);
+
+    // Stop retrying a full refund once the payment no longer needs one, e.g. a re-quoted expired payment
+    if (!payment || (refund.kind === 'full' && !REFUNDABLE_STATUSES.includes(payment.status))) {
+      await this.db.query('UPDATE refunds SET next_attempt_at = NULL WHERE id = $1', [refund.id]);
+      return;
+    }
+
+    const request = { actor: 'refund_reconciler', reason: refund.reason };
+
+    if (refund.kind === 'full') {
+      await this.refundPayment(payment.id, request);
+    } else {
+      await this.refundExcess(payment.id, refund.grossAmount, request);
+    }
+  }
+
+  private async sendRefund(payment: Payment, refund: Refund): Promise<Refund> {
+    let transactionHash: string;
+    try {
+      transactionHash = await this.aptosService.transferFromEscrow(payment.walletAddress, refund.asset, refund.amount);
+    } catch (error) {
+      console.error(`Error submitting refund for payment ${payment.id}:`, error);
+      return this.markFailed(refund, (error as Error).message);
+    }
+
+    // Record the hash before waiting so that an interrupted refund can be traced on chain
+    await this.updateRefund(refund.id, 'submitted', transactionHash);
+
+    let success: boolean;
+    try {
+      success = await this.aptosService.waitForTransaction(transactionHash);
+    } catch (error) {
+      // Outcome unknown: left as submitted so it can't be sent twice, until the reconciler looks it up
+      console.error(`Error waiting for refund transaction ${transactionHash}:`, error);
+      return { ...refund, status: 'submitted', aptosTransactionHash: transactionHash };
+    }
+
+    if (!success) {
+      return this.markFailed(refund, 'Refund transaction was not committed successfully', transactionHash);
+    }
+
+    return this.completeRefund(payment, refund, transactionHash);
+  }
+
+  private async completeRefund(payment: Payment, refund: Refund, transactionHash: string): Promise<Refund> {
+    const completed = await this.updateRefund(refund.id, 'completed', transactionHash);
+
+    try {
+      await this.notificationService.enqueueForPayment(
+        this.db,
+        'refund_issued',
+        payment,
+        `${completed.amount} ${completed.asset}`
+      );
+    } catch (error) {
+      console.error(`Error creating refund notification for payment ${payment.id}:`, error);
+    }
+
+    return completed;
+  }
+
+  // Everything deposited for the payment, less any excess already sent back
+  private async getHeldAmount(payment: Payment): Promise<number> {
+    if (payment.amountReceived <= 0) {
+      return payment.stablecoinAmount;
+    }
+
+    const result = await this.db.query(
+      `SELECT COALESCE(SUM(gross_amount), 0) AS refunded FROM refunds
+       WHERE payment_id = $1 AND kind = 'excess' AND status IN ('submitted', 'completed')`,
+      [payment.id]
+    );
+
+    return payment.amountReceived - parseFloat(result.rows[0].refunded);
+  }
+
+  /**
+   * Create the refund row, or take over one whose previous attempt failed.
+   * The unique (payment, kind) pair guarantees nothing is refunded twice.
+   */
+  private async claimRefund(payment: Payment, kind: RefundKind, grossAmount: number, request: RefundRequest): Promise<Refund> {
+    const feeAmount = this.calculateFee(grossAmount);
+
+    const query = `
+      INSERT INTO refunds (
+        payment_id, kind, asset, gross_amount, fee_amount, amount, recipient_address,
+        status, reason, initiated_by, attempts
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, 'pending', $8, $9, 1)
+      ON CONFLICT (payment_id, kind) DO UPDATE
+        SET status = 'pending', attempts = refunds.attempts + 1, next_attempt_at = NULL, gross_amount = EXCLUDED.gross_amount, fee_amount = EXCLUDED.fee_amount,
+            amount = EXCLUDED.amount, reason = EXCLUDED.reason, initiated_by = EXCLUDED.initiated_by,
+            failure_reason = NULL, aptos_transaction_hash = NULL
+        WHERE refunds.status = 'failed'
+      RETURNING *
+    `;
+
+    const result = await this.db.query(query, [
+      payment.id,
+      kind,
+      payment.asset,
+      grossAmount,
+      feeAmount,
+      grossAmount - feeAmount,
+      payment.walletAddress,
+      request.reason,
+      request.actor
+    ]);
+
+    if (result.rows.length === 0) {
+      throw createError('A refund for this payment is already in progress or completed', 409, 'refund_exists');
+    }
+
+    return this.mapRowToRefund(result.rows[0]);
+  }
+
+  // Sent again by the reconciler after an exponential backoff
+  private async markFailed(refund: Refund, failureReason: string, aptosTransactionHash?: string): Promise<Refund> {
+    const delay = Math.min(this.baseDelayMs * 2 ** Math.max(refund.attempts - 1, 0), this.maxDelayMs);
+
+    const query = `
+      UPDATE refunds
+      SET status = 'failed', aptos_transaction_hash = COALESCE($1, aptos_transaction_hash), failure_reason = $2,
+          next_attempt_at = CURRENT_TIMESTAMP + ($3 || ' milliseconds')::interval
+      WHERE id = $4
+      RETURNING *
+    `;
+    const result = await this.db.query(query, [aptosTransactionHash || null, failureReason, delay, refund.id]);
+    return this.mapRowToRefund(result.rows[0]);
+  }
+
+  private async updateRefund(
+    id: string,
+    status: RefundStatus,
+    aptosTransactionHash?: string,
+    failureReason?: string
+  ): Promise<Refund> {
+    const query = `
+      UPDATE refunds
+      SET status = $1, aptos_transaction_hash = COALESCE($2, aptos_transaction_hash), failure_reason = $3
+      WHERE id = $4
+      RETURNING *
+    `;
+    const result = await this.db.query(query, [status, aptosTransactionHash || null, failureReason || null, id]);
+    return this.mapRowToRefund(result.rows[0]);
+  }
+
+  private mapRowToRefund(row: QueryResultRow): Refund {
+    return {
+      id: row.id,
+      paymentId: row.payment_id,
+      kind: row.kind,
+      asset: row.asset,
+      grossAmount: parseFloat(row.gross_amount),
+      feeAmount: parseFloat(row.fee_amount),
+      amount: parseFloat(row.amount),
+      recipientAddress: row.recipient_address,
+      status: row.status,
+      aptosTransactionHash: row.aptos_transaction_hash || undefined,
+      reason: row.reason,
+      initiatedBy: row.initiated_by,
+      failureReason: row.failure_reason || undefined,
+      attempts: row.attempts,
+      nextAttemptAt: row.next_attempt_at || undefined,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    };
+  }
+}
@@ -0,0 +1,353 @@
+import { Pool, PoolClient } from 'pg';
+import { validate as isUuid } from 'uuid';
+import { db } from '../config/database';
+import { createError } from '../middleware/errorHandler';
+import type { Merchant } from './MerchantService';
+
+export type RiskDecision = 'allow' | 'hold' | 'block';
+
+export type RiskRule =
+  | 'transaction_limit'
+  | 'daily_limit'
+  | 'monthly_limit'
+  | 'velocity'
+  | 'new_merchant_exposure'
+  | 'vpa_fan_in';
+
+export interface RiskReason {
+  rule: RiskRule;
+  decision: Exclude<RiskDecision, 'allow'>;
+  message: string;
+}
+
+export interface RiskAssessment {
+  decision: RiskDecision;
+  reasons: RiskReason[];
+}
+
+export interface RiskCheckData {
+  walletAddress: string;
+  amountINR: number;
+  // The payee, where known; VPAs never seen before have no merchant record yet
+  merchant?: Merchant | null;
+  merchantUpiId?: string;
+}
+
+export type WalletTier = 'basic' | 'verified' | 'trusted';
+
+export const WALLET_TIERS: WalletTier[] = ['basic', 'verified', 'trusted'];
+
+export interface TierLimits {
+  perTransactionINR: number;
+  dailyINR: number;
+  monthlyINR: number;
+}
+
+const DEFAULT_TIER_LIMITS: Record<WalletTier, TierLimits> = {
+  basic: { perTransactionINR: 10000, dailyINR: 25000, monthlyINR: 100000 },
+  verified: { perTransactionINR: 50000, dailyINR: 200000, monthlyINR: 1000000 },
+  trusted: { perTransactionINR: 200000, dailyINR: 1000000, monthlyINR: 5000000 }
+};
+
+// Payments that never moved money don't count towards limits
+const SETTLED_OR_OPEN = `status NOT IN ('failed', 'expired', 'refunded')`;
+
+// First key of the per-wallet advisory locks taken while creating payments
+const WALLET_LOCK_CLASS = 7301;
+
+const formatINR = (amount: number) => `₹${amount.toLocaleString('en-IN')}`;
+
+/**
+ * Evaluates payments against per-wallet limits and patterns that point to
+ * fraud or money mules. Limit breaches block the payment outright; unusual
+ * but plausible activity lets it through on hold, so that its payout waits
+ * for an operator to release it.
+ */
+export class RiskService {
+  private db: Pool;
+  private tierLimits: Record<WalletTier, TierLimits>;
+  private velocityWindowMinutes: number;
+  private velocityMaxPayments: number;
+  private newMerchantDays: number;
+  private newMerchantMaxExposureINR: number;
+  private fanInWindowHours: number;
+  private fanInMaxWallets: number;
+
+  constructor() {
+    this.db = db;
+    this.tierLimits = Object.fromEntries(WALLET_TIERS.map(tier => {
+      const prefix = `RISK_${tier.toUpperCase()}`;
+      const defaults = DEFAULT_TIER_LIMITS[tier];
+      return [tier, {
+        perTransactionINR: parseFloat(process.env[`${prefix}_TRANSACTION_LIMIT_INR`] || String(defaults.perTransactionINR)),
+        dailyINR: parseFloat(process.env[`${prefix}_DAILY_LIMIT_INR`] || String(defaults.dailyINR)),
+        monthlyINR: parseFloat(process.env[`${prefix}_MONTHLY_LIMIT_INR`] || String(defaults.monthlyINR))
+      }];
+    })) as Record<WalletTier, TierLimits>;
+    this.velocityWindowMinutes = parseInt(process.env.RISK_VELOCITY_WINDOW_MINUTES || '10');
+    this.velocityMaxPayments = parseInt(process.env.RISK_VELOCITY_MAX_PAYMENTS || '5');
+    this.newMerchantDays = parseInt(process.env.RISK_NEW_MERCHANT_DAYS || '7');
+    this.newMerchantMaxExposureINR = parseFloat(process.env.RISK_NEW_MERCHANT_MAX_EXPOSURE_INR || '50000');
+    this.fanInWindowHours = parseInt(process.env.RISK_FAN_IN_WINDOW_HOURS || '24');
+    this.fanInMaxWallets = parseInt(process.env.RISK_FAN_IN_MAX_WALLETS || '20');
+  }
+
+  async assess(data: RiskCheckData, queryable: Pool | PoolClient = this.db): Promise<RiskAssessment> {
+    const reasons: RiskReason[] = [
+      ...await this.checkLimits(data, queryable),
+      ...await this.checkVelocity(data, queryable),
+      ...await this.checkMerchantExposure(data, queryable),
+      ...await this.checkFanIn(data, queryable)
+    ];
+
+    const decision: RiskDecision = reasons.some(reason => reason.decision === 'block')
+      ? 'block'
+      : reasons.length > 0 ? 'hold' : 'allow';
+
+    return { decision, reasons };
+  }
+
+  /**
+   * Assess a payment inside the transaction that creates it. A per-wallet
+   * advisory lock, held until that transaction ends, makes concurrent
+   * payments from one wallet wait for each other, so each one's limit and
+   * velocity checks count the others.
+   */
+  async assessForCreation(client: PoolClient, data: RiskCheckData): Promise<RiskAssessment> {
+    await client.query('SELECT pg_advisory_xact_lock($1, hashtext(LOWER($2)))', [WALLET_LOCK_CLASS, data.walletAddress]);
+    return this.assess(data, client);
+  }
+
+  // Reject blocked payments with the reasons, which are safe to show the payer
+  assertNotBlocked(assessment: RiskAssessment): void {
+    if (assessment.decision === 'block') {
+      throw createError(
+        assessment.reasons.filter(reason => reason.decision === 'block').map(reason => reason.message).join('; '),
+        403,
+        'payment_blocked'
+      );
+    }
+  }
+
+  async getWalletTier(walletAddress: string, queryable: Pool | PoolClient = this.db): Promise<WalletTier> {
+    const result = await queryable.query(
+      'SELECT tier FROM wallet_risk_profiles WHERE LOWER(wallet_address) = LOWER($1)',
+      [walletAddress]
+    );
+    return result.rows[0]?.tier || 'basic';
+  }
+
+  async setWalletTier(walletAddress: string, tier: WalletTier): Promise<void> {
+    if (!WALLET_TIERS.includes(tier)) {
+      throw createError(`Invalid tier, expected one of ${WALLET_TIERS.join(', ')}`, 400);
+    }
+
+    await this.db.query(
+      `INSERT INTO wallet_risk_profiles (wallet_address, tier)
+       VALUES (LOWER($1), $2)
+       ON CONFLICT (wallet_address) DO UPDATE SET tier = EXCLUDED.tier`,
+      [walletAddress, tier]
+    );
+  }
+
+  getTierLimits(tier: WalletTier): TierLimits {
+    return this.tierLimits[tier];
+  }
+
+  /**
+   * Clear a payment's hold after review. A payout that was waiting on the
+   * hold is queued straight away.
+   */
+  async releaseHold(paymentId: string, reviewer: string): Promise<void> {
+    if (!isUuid(paymentId)) {
+      throw createError('Payment is not on hold', 404);
+    }
+
+    const client = await this.db.connect();
+    try {
+      await client.query('BEGIN');
+
+      const result = await client.query(
+        `UPDATE payments SET risk_decision = 'allow', risk_reviewed_at = CURRENT_TIMESTAMP, risk_reviewed_by = $1
+         WHERE id = $2 AND risk_decision = 'hold'`,
+        [reviewer, paymentId]
+      );
+      if (result.rowCount === 0) {
+        throw createError('Payment is not on hold', 404);
+      }
+
+      await client.query(
+        `UPDATE payout_jobs SET status = 'queued', next_run_at = CURRENT_TIMESTAMP
+         WHERE payment_id = $1 AND status = 'held'`,
+        [paymentId]
+      );
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Turn a hold into a block after review. The payout is abandoned; the
+   * caller fails the payment so that any deposit can be refunded.
+   */
+  async rejectHold(paymentId: string, reviewer: string): Promise<void> {
+    if (!isUuid(paymentId)) {
+      throw createError('Payment is not on hold', 404);
+    }
+
+    const client = await this.db.connect();
+    try {
+      await client.query('BEGIN');
+
+      const result = await client.query(
+        `UPDATE payments SET risk_decision = 'block', risk_reviewed_at = CURRENT_TIMESTAMP, risk_reviewed_by = $1
+         WHERE id = $2 AND risk_decision = 'hold'`,
+        [reviewer, paymentId]
+      );
+      if (result.rowCount === 0) {
+        throw createError('Payment is not on hold', 404);
+      }
+
+      await client.query(
+        `UPDATE payout_jobs SET status = 'dead', last_error = 'Rejected in risk review'
+         WHERE payment_id = $1 AND status = 'held'`,
+        [paymentId]
+      );
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  private async checkLimits(data: RiskCheckData, queryable: Pool | PoolClient): Promise<RiskReason[]> {
+    const tier = await this.getWalletTier(data.walletAddress, queryable);
+    const limits = this.tierLimits[tier];
+    const reasons: RiskReason[] = [];
+
+    if (data.amountINR > limits.perTransactionINR) {
+      reasons.push({
+        rule: 'transaction_limit',
+        decision: 'block',
+        message: `Payments are limited to ${formatINR(limits.perTransactionINR)} each for ${tier} wallets`
+      });
+    }
+
+    const result = await queryable.query(
+      `SELECT
+         COALESCE(SUM(amount_inr) FILTER (WHERE created_at > CURRENT_TIMESTAMP - INTERVAL '1 day'), 0) AS daily,
+         COALESCE(SUM(amount_inr), 0) AS monthly
+       FROM payments
+       WHERE LOWER(wallet_address) = LOWER($1) AND ${SETTLED_OR_OPEN}
+         AND created_at > CURRENT_TIMESTAMP - INTERVAL '30 days'`,
+      [data.walletAddress]
+    );
+    const daily = parseFloat(result.rows[0].daily) + data.amountINR;
+    const monthly = parseFloat(result.rows[0].monthly) + data.amountINR;
+
+    if (daily > limits.dailyINR) {
+      reasons.push({
+        rule: 'daily_limit',
+        decision: 'block',
+        message: `This payment would take the wallet over its daily limit of ${formatINR(limits.dailyINR)}`
+      });
+    }
+
+    if (monthly > limits.monthlyINR) {
+      reasons.push({
+        rule: 'monthly_limit',
+        decision: 'block',
+        message: `This payment would take the wallet over its 30-day limit of ${formatINR(limits.monthlyINR)}`
+      });
+    }
+
+    return reasons;
+  }
+
+  private async checkVelocity(data: RiskCheckData, queryable: Pool | PoolClient): Promise<RiskReason[]> {
+    const result = await queryable.query(
+      `SELECT COUNT(*) FROM payments
+       WHERE LOWER(wallet_address) = LOWER($1)
+         AND created_at > CURRENT_TIMESTAMP - ($2 || ' minutes')::interval`,
+      [data.walletAddress, this.velocityWindowMinutes]
+    );
+
+    if (parseInt(result.rows[0].count) < this.velocityMaxPayments) {
+      return [];
+    }
+
+    return [{
+      rule: 'velocity',
+      decision: 'hold',
+      message: `More than ${this.velocityMaxPayments} payments from this wallet in ${this.velocityWindowMinutes} minutes`
+    }];
+  }
+
+  // Unverified merchants seen only recently can receive a limited amount before review
+  private async checkMerchantExposure(data: RiskCheckData, queryable: Pool | PoolClient): Promise<RiskReason[]> {
+    const merchant = data.merchant;
+    if (merchant?.verified) {
+      return [];
+    }
+
+    const isNew = !merchant ||
+      Date.now() - new Date(merchant.createdAt).getTime() < this.newMerchantDays * 24 * 60 * 60 * 1000;
+    if (!isNew) {
+      return [];
+    }
+
+    let exposure = data.amountINR;
+    if (merchant) {
+      const result = await queryable.query(
+        `SELECT COALESCE(SUM(amount_inr), 0) AS total FROM payments WHERE merchant_id = $1 AND ${SETTLED_OR_OPEN}`,
+        [merchant.id]
+      );
+      exposure += parseFloat(result.rows[0].total);
+    }
+
+    if (exposure <= this.newMerchantMaxExposureINR) {
+      return [];
+    }
+
+    return [{
+      rule: 'new_merchant_exposure',
+      decision: 'hold',
+      message: `Unverified merchant under ${this.newMerchantDays} days old would receive over ${formatINR(this.newMerchantMaxExposureINR)}`
+    }];
+  }
+
+  // Many unrelated wallets paying one VPA is a pattern of collection accounts
+  private async checkFanIn(data: RiskCheckData, queryable: Pool | PoolClient): Promise<RiskReason[]> {
+    const upiId = data.merchantUpiId || data.merchant?.upiId;
+    if (!upiId || data.merchant?.verified) {
+      return [];
+    }
+
+    const result = await queryable.query(
+      `SELECT COUNT(DISTINCT LOWER(wallet_address)) FILTER (WHERE LOWER(wallet_address) <> LOWER($3)) AS wallets
+       FROM payments
+       WHERE merchant_upi_id = $1
+         AND created_at > CURRENT_TIMESTAMP - ($2 || ' hours')::interval`,
+      [upiId, this.fanInWindowHours, data.walletAddress]
+    );
+
+    // Count this wallet as well
+    if (parseInt(result.rows[0].wallets) + 1 <= this.fanInMaxWallets) {
+      return [];
+    }
+
+    return [{
+      rule: 'vpa_fan_in',
+      decision: 'hold',
+      message: `More than ${this.fanInMaxWallets} wallets paid ${upiId} in ${this.fanInWindowHours} hours`
+    }];
+  }
+}
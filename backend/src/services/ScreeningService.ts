@@ -0,0 +1,370 @@
+import fs from 'fs/promises';
+import { Pool, QueryResultRow } from 'pg';
+import { validate as isUuid } from 'uuid';
+import { db } from '../config/database';
+import { createError } from '../middleware/errorHandler';
+import { normalizeAddress } from './AptosService';
+import { isValidVpa, normalizeVpa } from './MerchantService';
+import { SecurityEventService } from './SecurityEventService';
+
+export type ScreeningListType = 'wallet' | 'vpa';
+
+// `handle` matches every VPA at a PSP handle, `pattern` is a case-insensitive regular expression
+export type ScreeningMatchType = 'exact' | 'handle' | 'pattern';
+
+export const SCREENING_LIST_TYPES: ScreeningListType[] = ['wallet', 'vpa'];
+export const SCREENING_MATCH_TYPES: ScreeningMatchType[] = ['exact', 'handle', 'pattern'];
+
+export interface ScreeningEntry {
+  // Entries loaded from files or config have no id and can't be removed through the API
+  id?: string;
+  listType: ScreeningListType;
+  matchType: ScreeningMatchType;
+  value: string;
+  reason?: string;
+  source: 'database' | 'file' | 'config';
+  createdBy?: string;
+  createdAt?: Date;
+}
+
+export interface CreateScreeningEntryData {
+  listType: ScreeningListType;
+  matchType?: ScreeningMatchType;
+  value: string;
+  reason?: string;
+  createdBy?: string;
+}
+
+export interface ScreeningSubject {
+  walletAddress?: string;
+  vpa?: string;
+}
+
+export interface ScreeningMatch {
+  listType: ScreeningListType;
+  screenedValue: string;
+  entry: ScreeningEntry;
+}
+
+export interface ScreeningResult {
+  blocked: boolean;
+  matches: ScreeningMatch[];
+}
+
+export interface ScreeningContext {
+  stage: 'payment' | 'payout';
+  paymentId?: string;
+  merchantId?: string;
+  ipAddress?: string;
+}
+
+const HANDLE_PATTERN = /^[a-z][a-z0-9]{1,63}$/;
+
+const normalizeWallet = (value: string): string => {
+  try {
+    return normalizeAddress(value);
+  } catch {
+    return value.trim().toLowerCase();
+  }
+};
+
+const getHandle = (vpa: string): string | undefined => vpa.split('@')[1];
+
+/**
+ * Parse a line-based denylist file. Blank lines and `#` comments are
+ * skipped. In VPA lists a line of `@handle` blocks a whole PSP handle and
+ * `/regex/` adds a pattern; anything else is an exact value.
+ */
+const parseDenylistFile = (contents: string, listType: ScreeningListType): ScreeningEntry[] => {
+  return contents
+    .split('\n')
+    .map(line => line.replace(/#.*/, '').trim())
+    .filter(Boolean)
+    .map((line): ScreeningEntry => {
+      if (listType === 'vpa' && line.startsWith('@')) {
+        return { listType, matchType: 'handle', value: line.slice(1).toLowerCase(), source: 'file' };
+      }
+      if (listType === 'vpa' && line.length > 2 && line.startsWith('/') && line.endsWith('/')) {
+        return { listType, matchType: 'pattern', value: line.slice(1, -1), source: 'file' };
+      }
+      return {
+        listType,
+        matchType: 'exact',
+        value: listType === 'wallet' ? normalizeWallet(line) : normalizeVpa(line),
+        source: 'file'
+      };
+    });
+};
+
+/**
+ * Screens payer wallets and payee VPAs against denylists before money
+ * moves. Lists come from the screening_entries table, which operators
+ * manage through the admin API, and from local files named in
+ * `SCREENING_WALLET_DENYLIST_FILE` and `SCREENING_VPA_DENYLIST_FILE`.
+ * `SCREENING_BLOCKED_VPA_HANDLES` blocks disposable or untrusted handles.
+ */
+export class ScreeningService {
+  private db: Pool;
+  private securityEventService: SecurityEventService;
+  private walletListFile?: string;
+  private vpaListFile?: string;
+  private configEntries: ScreeningEntry[];
+  private localEntries?: Promise<ScreeningEntry[]>;
+
+  constructor() {
+    this.db = db;
+    this.securityEventService = new SecurityEventService();
+    this.walletListFile = process.env.SCREENING_WALLET_DENYLIST_FILE;
+    this.vpaListFile = process.env.SCREENING_VPA_DENYLIST_FILE;
+    this.configEntries = (process.env.SCREENING_BLOCKED_VPA_HANDLES || '')
+      .split(',')
+      .map(handle => handle.trim().replace(/^@/, '').toLowerCase())
+      .filter(Boolean)
+      .map(handle => ({
+        listType: 'vpa',
+        matchType: 'handle',
+        value: handle,
+        reason: 'Blocked VPA handle',
+        source: 'config'
+      }));
+  }
+
+  async screen(subject: ScreeningSubject): Promise<ScreeningResult> {
+    const matches: ScreeningMatch[] = [];
+
+    if (subject.walletAddress) {
+      matches.push(...await this.screenValue('wallet', normalizeWallet(subject.walletAddress)));
+    }
+
+    if (subject.vpa) {
+      matches.push(...await this.screenValue('vpa', normalizeVpa(subject.vpa)));
+    }
+
+    return { blocked: matches.length > 0, matches };
+  }
+
+  // Log a blocked attempt with the rules it matched; never fails the caller
+  async recordBlocked(subject: ScreeningSubject, result: ScreeningResult, context: ScreeningContext): Promise<void> {
+    try {
+      await this.securityEventService.record({
+        eventType: 'screening_blocked',
+        paymentId: context.paymentId,
+        walletAddress: subject.walletAddress,
+        ipAddress: context.ipAddress,
+        details: {
+          stage: context.stage,
+          merchantId: context.merchantId,
+          vpa: subject.vpa,
+          matches: result.matches.map(match => ({
+            listType: match.listType,
+            screenedValue: match.screenedValue,
+            entryId: match.entry.id,
+            matchType: match.entry.matchType,
+            value: match.entry.value,
+            source: match.entry.source,
+            reason: match.entry.reason
+          }))
+        }
+      });
+    } catch (error) {
+      console.error('Error recording security event:', error);
+    }
+  }
+
+  // The matched rules stay in the security log; the payer only learns that screening failed
+  assertNotBlocked(result: ScreeningResult): void {
+    if (result.blocked) {
+      throw createError('This payment cannot be processed', 403, 'screening_blocked');
+    }
+  }
+
+  async listEntries(
+    page: number = 1,
+    limit: number = 50,
+    filters: { listType?: ScreeningListType } = {}
+  ): Promise<{ entries: ScreeningEntry[]; localEntries: ScreeningEntry[]; total: number; page: number; totalPages: number }> {
+    const params: unknown[] = [];
+    let where = '';
+
+    if (filters.listType) {
+      params.push(filters.listType);
+      where = 'WHERE list_type = $1';
+    }
+
+    const countResult = await this.db.query(`SELECT COUNT(*) FROM screening_entries ${where}`, params);
+    const total = parseInt(countResult.rows[0].count);
+
+    const result = await this.db.query(
+      `SELECT * FROM screening_entries ${where}
+       ORDER BY created_at DESC
+       LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+      [...params, limit, (page - 1) * limit]
+    );
+
+    const localEntries = (await this.getLocalEntries())
+      .filter(entry => !filters.listType || entry.listType === filters.listType);
+
+    return {
+      entries: result.rows.map(row => this.mapRowToEntry(row)),
+      localEntries,
+      total,
+      page,
+      totalPages: Math.ceil(total / limit)
+    };
+  }
+
+  async addEntry(data: CreateScreeningEntryData): Promise<ScreeningEntry> {
+    const matchType = data.matchType || 'exact';
+
+    if (!SCREENING_LIST_TYPES.includes(data.listType)) {
+      throw createError(`Invalid listType, expected one of ${SCREENING_LIST_TYPES.join(', ')}`, 400);
+    }
+
+    if (!SCREENING_MATCH_TYPES.includes(matchType)) {
+      throw createError(`Invalid matchType, expected one of ${SCREENING_MATCH_TYPES.join(', ')}`, 400);
+    }
+
+    const value = await this.normalizeEntryValue(data.listType, matchType, data.value);
+
+    const result = await this.db.query(
+      `INSERT INTO screening_entries (list_type, match_type, value, reason, created_by)
+       VALUES ($1, $2, $3, $4, $5)
+       ON CONFLICT (list_type, match_type, value) DO UPDATE SET reason = COALESCE(EXCLUDED.reason, screening_entries.reason)
+       RETURNING *`,
+      [data.listType, matchType, value, data.reason || null, data.createdBy || null]
+    );
+
+    return this.mapRowToEntry(result.rows[0]);
+  }
+
+  async removeEntry(entryId: string): Promise<void> {
+    if (!isUuid(entryId)) {
+      throw createError('Screening entry not found', 404);
+    }
+
+    const result = await this.db.query('DELETE FROM screening_entries WHERE id = $1', [entryId]);
+
+    if (result.rowCount === 0) {
+      throw createError('Screening entry not found', 404);
+    }
+  }
+
+  private async screenValue(listType: ScreeningListType, value: string): Promise<ScreeningMatch[]> {
+    const handle = listType === 'vpa' ? getHandle(value) : undefined;
+
+    // Stored patterns are POSIX regular expressions, matched in the database
+    const result = await this.db.query(
+      `SELECT * FROM screening_entries
+       WHERE list_type = $1
+         AND ((match_type = 'exact' AND value = $2)
+           OR (match_type = 'handle' AND value = $3)
+           OR (match_type = 'pattern' AND $2 ~* value))`,
+      [listType, value, handle || null]
+    );
+
+    const entries = [
+      ...result.rows.map(row => this.mapRowToEntry(row)),
+      ...(await this.getLocalEntries()).filter(entry =>
+        entry.listType === listType && this.matchesLocalEntry(entry, value, handle)
+      )
+    ];
+
+    return entries.map(entry => ({ listType, screenedValue: value, entry }));
+  }
+
+  private matchesLocalEntry(entry: ScreeningEntry, value: string, handle?: string): boolean {
+    switch (entry.matchType) {
+      case 'exact':
+        return entry.value === value;
+      case 'handle':
+        return entry.value === handle;
+      case 'pattern':
+        return new RegExp(entry.value, 'i').test(value);
+    }
+  }
+
+  /**
+   * Entries from config and the local files. The files are read once; a
+   * file that is configured but can't be read fails screening, and with it
+   * every payment, rather than letting payments through unscreened.
+   */
+  private getLocalEntries(): Promise<ScreeningEntry[]> {
+    if (!this.localEntries) {
+      this.localEntries = (async () => {
+        const entries = [...this.configEntries];
+
+        for (const [listType, file] of [['wallet', this.walletListFile], ['vpa', this.vpaListFile]] as const) {
+          if (file) {
+            entries.push(...parseDenylistFile(await fs.readFile(file, 'utf8'), listType));
+          }
+        }
+
+        return entries;
+      })();
+
+      // Let the next call try again, e.g. once the file is in place
+      this.localEntries.catch(() => {
+        this.localEntries = undefined;
+      });
+    }
+
+    return this.localEntries;
+  }
+
+  private async normalizeEntryValue(
+    listType: ScreeningListType,
+    matchType: ScreeningMatchType,
+    value: unknown
+  ): Promise<string> {
+    if (typeof value !== 'string' || !value.trim()) {
+      throw createError('value is required', 400);
+    }
+
+    if (matchType === 'pattern') {
+      try {
+        // Validate with the engine that will run the pattern
+        await this.db.query(`SELECT '' ~* $1`, [value]);
+      } catch {
+        throw createError('value is not a valid regular expression', 400, 'invalid_screening_pattern');
+      }
+      return value;
+    }
+
+    if (listType === 'wallet') {
+      if (matchType !== 'exact') {
+        throw createError('Wallet entries must be exact addresses or patterns', 400);
+      }
+      try {
+        return normalizeAddress(value);
+      } catch {
+        throw createError('value is not a valid Aptos address', 400);
+      }
+    }
+
+    if (matchType === 'handle') {
+      const handle = value.trim().replace(/^@/, '').toLowerCase();
+      if (!HANDLE_PATTERN.test(handle)) {
+        throw createError('value is not a valid UPI handle', 400);
+      }
+      return handle;
+    }
+
+    if (!isValidVpa(value.trim())) {
+      throw createError('value is not a valid UPI ID', 400);
+    }
+    return normalizeVpa(value);
+  }
+
+  private mapRowToEntry(row: QueryResultRow): ScreeningEntry {
+    return {
+      id: row.id,
+      listType: row.list_type,
+      matchType: row.match_type,
+      value: row.value,
+      reason: row.reason || undefined,
+      source: 'database',
+      createdBy: row.created_by || undefined,
+      createdAt: row.created_at
+    };
+  }
+}
@@ -0,0 +1,94 @@
+import { Pool, QueryResultRow } from 'pg';
+import { db } from '../config/database';
+
+export type SecurityEventType = 'transaction_hash_replay' | 'payment_blocked' | 'screening_blocked';
+
+export interface SecurityEvent {
+  id: string;
+  eventType: SecurityEventType;
+  paymentId?: string;
+  walletAddress?: string;
+  ipAddress?: string;
+  details: Record<string, unknown>;
+  reviewed: boolean;
+  createdAt: Date;
+}
+
+export interface RecordSecurityEventData {
+  eventType: SecurityEventType;
+  paymentId?: string;
+  walletAddress?: string;
+  ipAddress?: string;
+  details?: Record<string, unknown>;
+}
+
+export class SecurityEventService {
+  private db: Pool;
+
+  constructor() {
+    this.db = db;
+  }
+
+  async record(data: RecordSecurityEventData): Promise<SecurityEvent> {
+    const query = `
+      INSERT INTO security_events (event_type, payment_id, wallet_address, ip_address, details)
+      VALUES ($1, $2, $3, $4, $5)
+      RETURNING *
+    `;
+
+    const result = await this.db.query(query, [
+      data.eventType,
+      data.paymentId || null,
+      data.walletAddress || null,
+      data.ipAddress || null,
+      JSON.stringify(data.details || {})
+    ]);
+
+    console.warn(`Security event recorded: ${data.eventType}`, data.details);
+    return this.mapRowToEvent(result.rows[0]);
+  }
+
+  async listEvents(
+    page: number = 1,
+    limit: number = 20,
+    filters: { eventType?: SecurityEventType } = {}
+  ): Promise<{ events: SecurityEvent[]; total: number; page: number; totalPages: number }> {
+    const params: unknown[] = [];
+    let where = '';
+
+    if (filters.eventType) {
+      params.push(filters.eventType);
+      where = 'WHERE event_type = $1';
+    }
+
+    const countResult = await this.db.query(`SELECT COUNT(*) FROM security_events ${where}`, params);
+    const total = parseInt(countResult.rows[0].count);
+
+    const result = await this.db.query(
+      `SELECT * FROM security_events ${where}
+       ORDER BY created_at DESC
+       LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+      [...params, limit, (page - 1) * limit]
+    );
+
+    return {
+      events: result.rows.map(row => this.mapRowToEvent(row)),
+      total,
+      page,
+      totalPages: Math.ceil(total / limit)
+    };
+  }
+
+  private mapRowToEvent(row: QueryResultRow): SecurityEvent {
+    return {
+      id: row.id,
+      eventType: row.event_type,
+      paymentId: row.payment_id || undefined,
+      walletAddress: row.wallet_address || undefined,
+      ipAddress: row.ip_address || undefined,
+      details: row.details || {},
+      reviewed: row.reviewed,
+      createdAt: row.created_at
+    };
+  }
+}
@@ -1,213 +1,180 @@
-import axios from 'axios';
-import { v4 as uuidv4 } from 'uuid';
-
-export interface UpiPayoutRequest {
-  transactionId: string;
-  merchantUpiId: string;
-  amount: number;
-  currency: string;
-}
-
-export interface UpiPayoutResponse {
-  payoutId: string;
-  status: 'PENDING' | 'SUCCESS' | 'FAILED';
-  message: string;
-  transactionId?: string;
-}
-
-export interface UpiPayoutStatus {
-  payoutId: string;
-  status: 'PENDING' | 'SUCCESS' | 'FAILED';
-  amount: number;
-  merchantUpiId: string;
-  transactionId?: string;
-  failureReason?: string;
-  createdAt: Date;
-  updatedAt: Date;
-}
-
+import { Pool } from 'pg';
+import { v5 as uuidv5 } from 'uuid';
+import { db } from '../config/database';
+import { createError } from '../middleware/errorHandler';
+import {
+  PayoutBalance,
+  PayoutProvider,
+  PayoutProviderName,
+  PayoutWebhookEvent,
+  UpiBeneficiary,
+  UpiPayoutRequest,
+  UpiPayoutResponse,
+  UpiPayoutStatus,
+  WebhookHeaders,
+  createPayoutProviders,
+  getDefaultPayoutProvider
+} from './PayoutProviders';
+
+// Namespace for deriving payout references from payment ids and attempt numbers
+const PAYOUT_REFERENCE_NAMESPACE = '5b8f1c2e-3d4a-4f6b-9c7d-8e9f0a1b2c3d';
+
+/**
+ * UPI payouts through the configured payout providers. A merchant can be
+ * paid through a provider of its own; everyone else goes through the
+ * default one. Each payout remembers its provider, so status checks and
+ * webhooks reach the provider that made it.
+ */
 export class UpiService {
-  private baseUrl: string;
-  private apiKey: string;
-  private secretKey: string;
+  private db: Pool;
+  private providers: Partial<Record<PayoutProviderName, PayoutProvider>>;
+  private defaultProvider: PayoutProviderName;
+  private beneficiaryCache: Map<string, { beneficiary: UpiBeneficiary; cachedAt: number }> = new Map();
+  private beneficiaryCacheTtlMs: number;
 
   constructor() {
-    // Using Cashfree sandbox for demo
-    this.baseUrl = process.env.UPI_SANDBOX_URL || 'https://sandbox.cashfree.com/pg';
-    this.apiKey = process.env.UPI_API_KEY || 'demo_api_key';
-    this.secretKey = process.env.UPI_SECRET_KEY || 'demo_secret_key';
+    this.db = db;
+    this.providers = createPayoutProviders();
+    this.defaultProvider = getDefaultPayoutProvider();
+    this.beneficiaryCacheTtlMs = parseInt(process.env.UPI_VERIFY_CACHE_TTL_MS || '3600000');
   }
 
-  async initiatePayout(request: UpiPayoutRequest): Promise<UpiPayoutResponse> {
-    try {
-      const payoutId = uuidv4();
-      
-      // For demo purposes, we'll simulate the UPI payout
-      if (process.env.NODE_ENV === 'development' || process.env.USE_UPI_MOCK === 'true') {
-        return this.mockUpiPayout(request, payoutId);
-      }
-
-      // Real UPI payout implementation
-      const payoutData = {
-        payout_id: payoutId,
-        amount: request.amount,
-        currency: request.currency,
-        beneficiary: {
-          upi_id: request.merchantUpiId,
-          name: 'Merchant Name' // In production, get from merchant data
-        },
-        purpose: 'PAYMENT',
-        remarks: `AptPay payment for transaction ${request.transactionId}`
-      };
+  /**
+   * Derive the provider idempotency reference for one payout attempt of a
+   * payment. Resending an attempt's reference can't pay twice, and providers
+   * won't accept it again once the attempt has failed, so a retry after a
+   * definite failure needs the next attempt number.
+   */
+  getPayoutReference(transactionId: string, attemptNumber: number): string {
+    return uuidv5(`${transactionId}:${attemptNumber}`, PAYOUT_REFERENCE_NAMESPACE);
+  }
 
-      const response = await axios.post(
-        `${this.baseUrl}/payouts`,
-        payoutData,
-        {
-          headers: {
-            'Authorization': `Bearer ${this.apiKey}`,
-            'Content-Type': 'application/json',
-            'X-Client-Secret': this.secretKey
-          },
-          timeout: 30000
-        }
-      );
+  // The merchant's own provider while it is enabled, otherwise the default
+  getProviderName(merchant?: { payoutProvider?: PayoutProviderName } | null): PayoutProviderName {
+    const name = merchant?.payoutProvider;
+    if (name && !this.providers[name]) {
+      console.warn(`Payout provider ${name} is not enabled, using ${this.defaultProvider}`);
+    }
+    return name && this.providers[name] ? name : this.defaultProvider;
+  }
 
-      return {
-        payoutId,
-        status: response.data.status || 'PENDING',
-        message: 'Payout initiated successfully',
-        transactionId: response.data.transaction_id
-      };
+  async initiatePayout(
+    request: UpiPayoutRequest,
+    providerName: PayoutProviderName = this.defaultProvider
+  ): Promise<UpiPayoutResponse> {
+    const payoutId = request.referenceId || this.getPayoutReference(request.transactionId, 1);
+    const provider = this.getProvider(providerName);
+
+    try {
+      return await provider.initiatePayout(request, payoutId);
     } catch (error) {
-      console.error('Error initiating UPI payout:', error);
-      
+      console.error(`Error initiating UPI payout with ${provider.name}:`, error);
+
+      // A timeout can hide a payout the provider accepted, so this is not a failure
       return {
-        payoutId: uuidv4(),
-        status: 'FAILED',
-        message: 'Failed to initiate payout'
+        payoutId,
+        status: 'PENDING',
+        message: 'Outcome of the payout request is unknown',
+        outcomeUnknown: true
       };
     }
   }
 
-  async getPayoutStatus(payoutId: string): Promise<UpiPayoutStatus | null> {
+  /**
+   * Ask the provider that made a payout for its status. Without a provider
+   * name the payout's recorded provider is used. Resolves to null when the
+   * status can't be determined.
+   */
+  async getPayoutStatus(payoutId: string, providerName?: PayoutProviderName): Promise<UpiPayoutStatus | null> {
+    const status = await this.findPayout(payoutId, providerName);
+    return status === 'not_found' ? null : status;
+  }
+
+  /**
+   * Like `getPayoutStatus`, but tells a payout the provider has never seen
+   * (`not_found`, safe to send) apart from one whose status can't be
+   * determined right now (null).
+   */
+  async findPayout(payoutId: string, providerName?: PayoutProviderName): Promise<UpiPayoutStatus | 'not_found' | null> {
     try {
-      // For demo purposes, simulate status check
-      if (process.env.NODE_ENV === 'development' || process.env.USE_UPI_MOCK === 'true') {
-        return this.mockPayoutStatus(payoutId);
-      }
-
-      const response = await axios.get(
-        `${this.baseUrl}/payouts/${payoutId}`,
-        {
-          headers: {
-            'Authorization': `Bearer ${this.apiKey}`,
-            'X-Client-Secret': this.secretKey
-          },
-          timeout: 10000
-        }
-      );
-
-      const data = response.data;
-      
-      return {
-        payoutId,
-        status: data.status,
-        amount: data.amount,
-        merchantUpiId: data.beneficiary.upi_id,
-        transactionId: data.transaction_id,
-        failureReason: data.failure_reason,
-        createdAt: new Date(data.created_at),
-        updatedAt: new Date(data.updated_at)
-      };
+      const provider = this.getProvider(providerName || await this.getRecordedProvider(payoutId));
+      return await provider.getPayoutStatus(payoutId) || 'not_found';
     } catch (error) {
       console.error('Error getting payout status:', error);
       return null;
     }
   }
 
-  verifyWebhookSignature(payload: string, signature: string): boolean {
-    // Implement webhook signature verification based on UPI provider
-    // This is a simplified version for demo
+  /**
+   * Look up a VPA's registered name, cached so that repeated scans of the
+   * same QR code don't each cost a provider call. Lookups that fail are not
+   * cached and return null.
+   */
+  async verifyBeneficiary(upiId: string): Promise<UpiBeneficiary | null> {
+    const cached = this.beneficiaryCache.get(upiId);
+    if (cached && Date.now() - cached.cachedAt < this.beneficiaryCacheTtlMs) {
+      return cached.beneficiary;
+    }
+
+    let beneficiary: UpiBeneficiary;
     try {
-      const crypto = require('crypto');
-      const expectedSignature = crypto
-        .createHmac('sha256', this.secretKey)
-        .update(payload)
-        .digest('hex');
-      
-      return signature === expectedSignature;
+      beneficiary = await this.getProvider(this.defaultProvider).verifyBeneficiary(upiId);
     } catch (error) {
-      console.error('Error verifying webhook signature:', error);
-      return false;
+      console.error('Error verifying UPI ID:', error);
+      return null;
     }
+
+    this.beneficiaryCache.set(upiId, { beneficiary, cachedAt: Date.now() });
+    return beneficiary;
   }
 
-  private mockUpiPayout(request: UpiPayoutRequest, payoutId: string): UpiPayoutResponse {
-    // Simulate different outcomes for demo
-    const random = Math.random();
-    
-    if (random < 0.8) {
-      // 80% success rate
-      return {
-        payoutId,
-        status: 'PENDING',
-        message: 'Mock payout initiated successfully',
-        transactionId: `mock_txn_${Date.now()}`
-      };
-    } else {
-      // 20% failure rate for demo
-      return {
-        payoutId,
-        status: 'FAILED',
-        message: 'Mock payout failed - insufficient balance'
-      };
+  /**
+   * Verify a status webhook with the provider it claims to come from, the
+   * default provider when none is named. A payout can only be updated by
+   * webhooks from the provider that made it.
+   */
+  async parseWebhook(
+    providerName: string | undefined,
+    rawBody: Buffer,
+    getHeader: WebhookHeaders
+  ): Promise<PayoutWebhookEvent> {
+    const provider = this.providers[(providerName || this.defaultProvider) as PayoutProviderName];
+    if (!provider) {
+      throw createError('Unknown payout provider', 404);
     }
-  }
 
-  private mockPayoutStatus(payoutId: string): UpiPayoutStatus {
-    // Simulate status progression
-    const random = Math.random();
-    const now = new Date();
-    
-    return {
-      payoutId,
-      status: random < 0.7 ? 'SUCCESS' : (random < 0.9 ? 'PENDING' : 'FAILED'),
-      amount: 100, // Mock amount
-      merchantUpiId: 'merchant@upi',
-      transactionId: `mock_txn_${Date.now()}`,
-      failureReason: random >= 0.9 ? 'Insufficient balance' : undefined,
-      createdAt: new Date(now.getTime() - 60000), // 1 minute ago
-      updatedAt: now
-    };
+    const event = provider.verifyWebhook(rawBody, getHeader);
+
+    const result = await this.db.query('SELECT provider FROM upi_payouts WHERE payout_id = $1', [event.payoutId]);
+    if (result.rows.length > 0 && (result.rows[0].provider || this.defaultProvider) !== provider.name) {
+      throw createError('Webhook is not from the provider that made the payout', 401);
+    }
+
+    return event;
   }
 
-  async getBeneficiaryDetails(upiId: string): Promise<any> {
-    // Verify UPI ID and get beneficiary details
+  async getBalance(providerName: PayoutProviderName = this.defaultProvider): Promise<PayoutBalance> {
+    const provider = this.getProvider(providerName);
+
     try {
-      if (process.env.NODE_ENV === 'development' || process.env.USE_UPI_MOCK === 'true') {
-        return {
-          upiId,
-          name: 'Mock Merchant',
-          verified: true
-        };
-      }
-
-      const response = await axios.post(
-        `${this.baseUrl}/verification/upi`,
-        { upi_id: upiId },
-        {
-          headers: {
-            'Authorization': `Bearer ${this.apiKey}`,
-            'X-Client-Secret': this.secretKey
-          }
-        }
-      );
-
-      return response.data;
+      return await provider.getBalance();
     } catch (error) {
-      console.error('Error verifying UPI ID:', error);
-      return null;
+      console.error(`Error getting payout balance from ${provider.name}:`, error);
+      throw createError('Could not get the payout balance from the provider', 502, 'payout_provider_error');
     }
   }
-}
\ No newline at end of file
+
+  private getProvider(name: PayoutProviderName): PayoutProvider {
+    const provider = this.providers[name];
+    if (!provider) {
+      throw createError(`Payout provider ${name} is not enabled`, 400, 'payout_provider_unavailable');
+    }
+    return provider;
+  }
+
+  // Payouts made before providers were recorded went through the default provider
+  private async getRecordedProvider(payoutId: string): Promise<PayoutProviderName> {
+    const result = await this.db.query('SELECT provider FROM upi_payouts WHERE payout_id = $1', [payoutId]);
+    return result.rows[0]?.provider || this.defaultProvider;
+  }
+}
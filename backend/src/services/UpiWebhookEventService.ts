@@ -0,0 +1,39 @@
+import { Pool } from 'pg';
+import { db } from '../config/database';
+
+/**
+ * Log of UPI provider webhook deliveries, keyed by the provider's event id
+ * so that a redelivered event is only applied once.
+ */
+export class UpiWebhookEventService {
+  private db: Pool;
+
+  constructor() {
+    this.db = db;
+  }
+
+  /**
+   * Record an incoming event. Returns false when the event id was seen before.
+   */
+  async recordEvent(eventId: string, payoutId: string, status: string, payload: unknown): Promise<boolean> {
+    const query = `
+      INSERT INTO upi_webhook_events (event_id, payout_id, status, payload)
+      VALUES ($1, $2, $3, $4)
+      ON CONFLICT (event_id) DO NOTHING
+    `;
+    const result = await this.db.query(query, [eventId, payoutId, status, JSON.stringify(payload)]);
+    return (result.rowCount || 0) > 0;
+  }
+
+  async markProcessed(eventId: string, outcome: string): Promise<void> {
+    await this.db.query(
+      'UPDATE upi_webhook_events SET processed_at = CURRENT_TIMESTAMP, outcome = $1 WHERE event_id = $2',
+      [outcome, eventId]
+    );
+  }
+
+  // Forget an event that could not be applied so that the provider's retry is processed
+  async release(eventId: string): Promise<void> {
+    await this.db.query('DELETE FROM upi_webhook_events WHERE event_id = $1', [eventId]);
+  }
+}
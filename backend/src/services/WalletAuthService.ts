@@ -0,0 +1,171 @@
+import { Pool } from 'pg';
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { AnyPublicKey, Ed25519PublicKey, Ed25519Signature } from '@aptos-labs/ts-sdk';
+import { db } from '../config/database';
+import { createError } from '../middleware/errorHandler';
+import { AptosService, normalizeAddress } from './AptosService';
+
+export interface WalletChallenge {
+  walletAddress: string;
+  nonce: string;
+  message: string;
+  expiresAt: Date;
+}
+
+export interface WalletSignIn {
+  walletAddress: string;
+  nonce: string;
+  // Hex-encoded Ed25519 public key and signature from the wallet
+  publicKey: string;
+  signature: string;
+  // The exact text the wallet signed, including its APTOS prefix lines
+  fullMessage: string;
+}
+
+export interface WalletSession {
+  token: string;
+  walletAddress: string;
+  expiresAt: Date;
+}
+
+const TOKEN_AUDIENCE = 'aptupi:wallet';
+
+/**
+ * Sign-in with an Aptos wallet. The wallet signs a one-time challenge, the
+ * signing key is checked against the account's authentication key and a
+ * JWT naming the wallet is issued. Sessions are signed with `JWT_SECRET`;
+ * without it sign-in and session checks are unavailable.
+ */
+export class WalletAuthService {
+  private db: Pool;
+  private aptosService: AptosService;
+  private jwtSecret?: string;
+  private challengeTtlSeconds: number;
+  private sessionTtlSeconds: number;
+
+  constructor() {
+    this.db = db;
+    this.aptosService = new AptosService();
+    this.jwtSecret = process.env.JWT_SECRET;
+    this.challengeTtlSeconds = parseInt(process.env.WALLET_CHALLENGE_TTL_SECONDS || '300');
+    this.sessionTtlSeconds = parseInt(process.env.WALLET_SESSION_TTL_SECONDS || '86400');
+  }
+
+  async createChallenge(walletAddress: string): Promise<WalletChallenge> {
+    const address = this.parseWalletAddress(walletAddress);
+    const nonce = crypto.randomBytes(16).toString('hex');
+    const expiresAt = new Date(Date.now() + this.challengeTtlSeconds * 1000);
+    const message = `Sign in to AptUPI as ${address}`;
+
+    await this.db.query(
+      `INSERT INTO wallet_auth_challenges (nonce, wallet_address, message, expires_at)
+       VALUES ($1, $2, $3, $4)`,
+      [nonce, address, message, expiresAt]
+    );
+
+    // Challenges only matter until they expire
+    await this.db.query(
+      `DELETE FROM wallet_auth_challenges WHERE expires_at < NOW() - INTERVAL '1 day'`
+    );
+
+    return { walletAddress: address, nonce, message, expiresAt };
+  }
+
+  async signIn(data: WalletSignIn): Promise<WalletSession> {
+    const jwtSecret = this.getJwtSecret();
+    const address = this.parseWalletAddress(data.walletAddress);
+
+    // Claim the challenge first so a signature can only be exchanged once
+    const result = await this.db.query(
+      `UPDATE wallet_auth_challenges SET used_at = NOW()
+       WHERE nonce = $1 AND wallet_address = $2 AND used_at IS NULL AND expires_at > NOW()
+       RETURNING message`,
+      [data.nonce, address]
+    );
+
+    if (result.rows.length === 0) {
+      throw createError('Sign-in challenge is invalid or has expired', 401, 'invalid_challenge');
+    }
+
+    const { message } = result.rows[0];
+    const lines = data.fullMessage.split('\n');
+    if (lines[0] !== 'APTOS' || !lines.includes(`message: ${message}`) || !lines.includes(`nonce: ${data.nonce}`)) {
+      throw createError('Signed message does not match the challenge', 401, 'invalid_signature');
+    }
+
+    let publicKey: Ed25519PublicKey;
+    let signature: Ed25519Signature;
+    try {
+      publicKey = new Ed25519PublicKey(data.publicKey);
+      signature = new Ed25519Signature(data.signature);
+    } catch {
+      throw createError('Only Ed25519 wallet keys are supported', 400, 'unsupported_key');
+    }
+
+    if (!publicKey.verifySignature({ message: new TextEncoder().encode(data.fullMessage), signature })) {
+      throw createError('Invalid wallet signature', 401, 'invalid_signature');
+    }
+
+    await this.assertKeyControlsAccount(publicKey, address);
+
+    const token = jwt.sign({}, jwtSecret, {
+      subject: address,
+      audience: TOKEN_AUDIENCE,
+      expiresIn: this.sessionTtlSeconds
+    });
+
+    return {
+      token,
+      walletAddress: address,
+      expiresAt: new Date(Date.now() + this.sessionTtlSeconds * 1000)
+    };
+  }
+
+  // Returns the wallet address a session token was issued to
+  verifyToken(token: string): string {
+    const jwtSecret = this.getJwtSecret();
+
+    try {
+      const payload = jwt.verify(token, jwtSecret, { audience: TOKEN_AUDIENCE });
+      if (typeof payload === 'string' || !payload.sub) {
+        throw new Error('Token has no subject');
+      }
+      return payload.sub;
+    } catch {
+      throw createError('Invalid or expired session', 401, 'invalid_session');
+    }
+  }
+
+  private getJwtSecret(): string {
+    if (!this.jwtSecret) {
+      throw createError('Wallet sign-in is not configured', 503);
+    }
+    return this.jwtSecret;
+  }
+
+  /**
+   * The key may be the account's legacy Ed25519 key or a single-key
+   * authenticator; accounts not yet on chain still have their original
+   * authentication key as their address.
+   */
+  private async assertKeyControlsAccount(publicKey: Ed25519PublicKey, address: string): Promise<void> {
+    const candidates = [publicKey.authKey(), new AnyPublicKey(publicKey).authKey()]
+      .map((authKey): string => authKey.derivedAddress().toStringLong());
+
+    const onChainKey = await this.aptosService.getAuthenticationKey(address);
+    const expected = onChainKey ? normalizeAddress(onChainKey) : address;
+
+    if (!candidates.includes(expected)) {
+      throw createError('Public key does not control this account', 401, 'invalid_signature');
+    }
+  }
+
+  private parseWalletAddress(walletAddress: string): string {
+    try {
+      return normalizeAddress(walletAddress || '');
+    } catch {
+      throw createError('Invalid wallet address', 400);
+    }
+  }
+}
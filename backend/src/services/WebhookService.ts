@@ -0,0 +1,443 @@
+import { Pool, PoolClient, QueryResultRow } from 'pg';
+import axios from 'axios';
+import crypto from 'crypto';
+import { validate as isUuid } from 'uuid';
+import { db } from '../config/database';
+import { createError } from '../middleware/errorHandler';
+import { assertPublicUrl, publicLookup } from './OutboundUrlGuard';
+import type { Payment } from './PaymentService';
+import type { PaymentStatus } from './PaymentStateMachine';
+
+export type WebhookEventStatus = 'pending' | 'delivering' | 'delivered' | 'failed';
+
+export interface WebhookEndpoint {
+  id: string;
+  merchantId: string;
+  url: string;
+  description?: string;
+  active: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface WebhookEvent {
+  id: string;
+  endpointId: string;
+  merchantId: string;
+  paymentId: string;
+  eventType: string;
+  payload: Record<string, unknown>;
+  status: WebhookEventStatus;
+  attempts: number;
+  maxAttempts: number;
+  nextAttemptAt: Date;
+  lastError?: string;
+  deliveredAt?: Date;
+  createdAt: Date;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  eventId: string;
+  attemptNumber: number;
+  url: string;
+  responseStatus?: number;
+  error?: string;
+  durationMs: number;
+  createdAt: Date;
+}
+
+/**
+ * Outbound webhooks to merchants. Payment status changes are written to the
+ * webhook_events outbox in the same transaction as the change itself and
+ * delivered by the webhook worker with retries; every attempt is logged in
+ * webhook_deliveries.
+ */
+export class WebhookService {
+  private db: Pool;
+  private maxAttempts: number;
+  private baseDelayMs: number;
+  private maxDelayMs: number;
+  private lockTimeoutMs: number;
+  private timeoutMs: number;
+
+  constructor() {
+    this.db = db;
+    this.maxAttempts = parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '8');
+    this.baseDelayMs = parseInt(process.env.WEBHOOK_RETRY_BASE_DELAY_MS || '10000');
+    this.maxDelayMs = parseInt(process.env.WEBHOOK_RETRY_MAX_DELAY_MS || '3600000');
+    this.lockTimeoutMs = parseInt(process.env.WEBHOOK_LOCK_TIMEOUT_MS || '120000');
+    this.timeoutMs = parseInt(process.env.WEBHOOK_TIMEOUT_MS || '10000');
+  }
+
+  async createEndpoint(
+    merchantId: string,
+    data: { url: string; description?: string }
+  ): Promise<{ endpoint: WebhookEndpoint; secret: string }> {
+    const url = (await assertPublicUrl(data.url, 'Webhook URL')).toString();
+
+    const result = await this.db.query(
+      `INSERT INTO webhook_endpoints (merchant_id, url, description)
+       VALUES ($1, $2, $3)
+       RETURNING *`,
+      [merchantId, url, data.description || null]
+    );
+
+    return {
+      endpoint: this.mapRowToEndpoint(result.rows[0]),
+      secret: await this.getSigningSecret(merchantId)
+    };
+  }
+
+  async listEndpoints(merchantId: string): Promise<WebhookEndpoint[]> {
+    const result = await this.db.query(
+      'SELECT * FROM webhook_endpoints WHERE merchant_id = $1 ORDER BY created_at DESC',
+      [merchantId]
+    );
+    return result.rows.map(row => this.mapRowToEndpoint(row));
+  }
+
+  // Stops new events for the endpoint; events already queued are still delivered
+  async disableEndpoint(merchantId: string, endpointId: string): Promise<WebhookEndpoint> {
+    if (!isUuid(endpointId)) {
+      throw createError('Webhook endpoint not found', 404);
+    }
+
+    const result = await this.db.query(
+      `UPDATE webhook_endpoints SET active = FALSE
+       WHERE id = $1 AND merchant_id = $2
+       RETURNING *`,
+      [endpointId, merchantId]
+    );
+
+    if (result.rows.length === 0) {
+      throw createError('Webhook endpoint not found', 404);
+    }
+
+    return this.mapRowToEndpoint(result.rows[0]);
+  }
+
+  /**
+   * The merchant's signing secret, created on first use. One secret signs
+   * events for all of a merchant's endpoints.
+   */
+  async getSigningSecret(merchantId: string): Promise<string> {
+    const result = await this.db.query(
+      `UPDATE merchants SET webhook_secret = COALESCE(webhook_secret, $1)
+       WHERE id = $2
+       RETURNING webhook_secret`,
+      [this.generateSecret(), merchantId]
+    );
+
+    if (result.rows.length === 0) {
+      throw createError('Merchant not found', 404);
+    }
+
+    return result.rows[0].webhook_secret;
+  }
+
+  async rotateSigningSecret(merchantId: string): Promise<string> {
+    const result = await this.db.query(
+      'UPDATE merchants SET webhook_secret = $1 WHERE id = $2 RETURNING webhook_secret',
+      [this.generateSecret(), merchantId]
+    );
+
+    if (result.rows.length === 0) {
+      throw createError('Merchant not found', 404);
+    }
+
+    return result.rows[0].webhook_secret;
+  }
+
+  /**
+   * Queue a `payment.<status>` event for each of the merchant's active
+   * endpoints. Runs inside the caller's transaction so that events exist
+   * exactly for the status changes that were committed.
+   */
+  async enqueuePaymentEvent(
+    client: PoolClient,
+    payment: Payment,
+    previousStatus: PaymentStatus | null
+  ): Promise<void> {
+    const payload = {
+      payment: {
+        id: payment.id,
+        merchantId: payment.merchantId,
+        paymentLinkId: payment.paymentLinkId,
+        status: payment.status,
+        previousStatus,
+        amountINR: payment.amountINR,
+        stablecoinAmount: payment.stablecoinAmount,
+        amountReceived: payment.amountReceived,
+        asset: payment.asset,
+        exchangeRate: payment.exchangeRate,
+        merchantUpiId: payment.merchantUpiId,
+        aptosTransactionHash: payment.aptosTransactionHash,
+        upiPayoutId: payment.upiPayoutId,
+        failureReason: payment.failureReason,
+        updatedAt: payment.updatedAt
+      }
+    };
+
+    await client.query(
+      `INSERT INTO webhook_events (endpoint_id, merchant_id, payment_id, event_type, payload, max_attempts)
+       SELECT id, merchant_id, $1, $2, $3, $4 FROM webhook_endpoints
+       WHERE merchant_id = $5 AND active = TRUE`,
+      [payment.id, `payment.${payment.status}`, JSON.stringify(payload), this.maxAttempts, payment.merchantId]
+    );
+  }
+
+  async listEvents(
+    merchantId: string,
+    page: number = 1,
+    limit: number = 20,
+    filters: { status?: WebhookEventStatus; paymentId?: string } = {}
+  ): Promise<{ events: WebhookEvent[]; total: number; page: number; totalPages: number }> {
+    const conditions = ['merchant_id = $1'];
+    const params: unknown[] = [merchantId];
+
+    if (filters.status) {
+      params.push(filters.status);
+      conditions.push(`status = $${params.length}`);
+    }
+
+    if (filters.paymentId) {
+      params.push(filters.paymentId);
+      conditions.push(`payment_id = $${params.length}`);
+    }
+
+    const where = conditions.join(' AND ');
+    const countResult = await this.db.query(`SELECT COUNT(*) FROM webhook_events WHERE ${where}`, params);
+    const total = parseInt(countResult.rows[0].count);
+
+    const result = await this.db.query(
+      `SELECT * FROM webhook_events WHERE ${where}
+       ORDER BY created_at DESC
+       LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+      [...params, limit, (page - 1) * limit]
+    );
+
+    return {
+      events: result.rows.map(row => this.mapRowToEvent(row)),
+      total,
+      page,
+      totalPages: Math.ceil(total / limit)
+    };
+  }
+
+  async getEvent(merchantId: string, eventId: string): Promise<WebhookEvent> {
+    if (!isUuid(eventId)) {
+      throw createError('Webhook event not found', 404);
+    }
+
+    const result = await this.db.query(
+      'SELECT * FROM webhook_events WHERE id = $1 AND merchant_id = $2',
+      [eventId, merchantId]
+    );
+
+    if (result.rows.length === 0) {
+      throw createError('Webhook event not found', 404);
+    }
+
+    return this.mapRowToEvent(result.rows[0]);
+  }
+
+  async getDeliveries(merchantId: string, eventId: string): Promise<WebhookDelivery[]> {
+    await this.getEvent(merchantId, eventId);
+
+    const result = await this.db.query(
+      'SELECT * FROM webhook_deliveries WHERE event_id = $1 ORDER BY attempt_number ASC',
+      [eventId]
+    );
+    return result.rows.map(row => this.mapRowToDelivery(row));
+  }
+
+  /**
+   * Deliver an event now, whatever its status. A failed manual attempt
+   * does not change the event's retry schedule.
+   */
+  async redeliver(merchantId: string, eventId: string): Promise<WebhookDelivery> {
+    const event = await this.getEvent(merchantId, eventId);
+    const delivery = await this.attemptDelivery(event);
+
+    if (this.isSuccess(delivery)) {
+      await this.markDelivered(event.id);
+    }
+
+    return delivery;
+  }
+
+  /**
+   * Claim due events for delivery. Events left in `delivering` by a worker
+   * that died are picked up again once their lock times out.
+   */
+  async claimDueEvents(limit: number): Promise<WebhookEvent[]> {
+    const query = `
+      UPDATE webhook_events SET status = 'delivering', locked_at = CURRENT_TIMESTAMP
+      WHERE id IN (
+        SELECT id FROM webhook_events
+        WHERE (status = 'pending' AND next_attempt_at <= CURRENT_TIMESTAMP)
+           OR (status = 'delivering' AND locked_at < CURRENT_TIMESTAMP - ($1 || ' milliseconds')::interval)
+        ORDER BY next_attempt_at ASC
+        LIMIT $2
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING *
+    `;
+    const result = await this.db.query(query, [this.lockTimeoutMs, limit]);
+    return result.rows.map(row => this.mapRowToEvent(row));
+  }
+
+  async processEvent(event: WebhookEvent): Promise<void> {
+    const delivery = await this.attemptDelivery(event);
+
+    if (this.isSuccess(delivery)) {
+      await this.markDelivered(event.id);
+      return;
+    }
+
+    const error = delivery.error || `Endpoint responded with HTTP ${delivery.responseStatus}`;
+    const attempts = event.attempts + 1;
+
+    if (attempts >= event.maxAttempts) {
+      await this.db.query(
+        `UPDATE webhook_events
+         SET status = 'failed', attempts = $1, last_error = $2, locked_at = NULL
+         WHERE id = $3`,
+        [attempts, error, event.id]
+      );
+      return;
+    }
+
+    // Exponential backoff with jitter so that a recovering endpoint is not hit all at once
+    const delay = Math.min(this.baseDelayMs * 2 ** (attempts - 1), this.maxDelayMs);
+    const jitter = Math.floor(Math.random() * delay * 0.2);
+
+    await this.db.query(
+      `UPDATE webhook_events
+       SET status = 'pending', attempts = $1, last_error = $2, locked_at = NULL,
+           next_attempt_at = CURRENT_TIMESTAMP + ($3 || ' milliseconds')::interval
+       WHERE id = $4`,
+      [attempts, error, delay + jitter, event.id]
+    );
+  }
+
+  /**
+   * POST the event, signed like the provider webhooks we receive: an
+   * HMAC-SHA256 with the merchant's secret over `<timestamp>.<raw body>`,
+   * sent in `X-Webhook-Signature` with the timestamp in `X-Webhook-Timestamp`.
+   * The URL is checked again before every attempt, and only the response
+   * status is kept, never the body.
+   */
+  private async attemptDelivery(event: WebhookEvent): Promise<WebhookDelivery> {
+    const endpointResult = await this.db.query('SELECT url FROM webhook_endpoints WHERE id = $1', [event.endpointId]);
+    const url: string = endpointResult.rows[0].url;
+    const secret = await this.getSigningSecret(event.merchantId);
+
+    const body = JSON.stringify({
+      id: event.id,
+      type: event.eventType,
+      createdAt: event.createdAt,
+      data: event.payload
+    });
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    const signature = crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+
+    const startedAt = Date.now();
+    let responseStatus: number | undefined;
+    let error: string | undefined;
+
+    try {
+      await assertPublicUrl(url, 'Webhook URL');
+
+      const response = await axios.post(url, body, {
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'AptUPI-Webhooks/1.0',
+          'X-Webhook-Id': event.id,
+          'X-Webhook-Event': event.eventType,
+          'X-Webhook-Timestamp': timestamp,
+          'X-Webhook-Signature': signature
+        },
+        timeout: this.timeoutMs,
+        lookup: publicLookup,
+        maxRedirects: 0,
+        responseType: 'text',
+        transformResponse: data => data,
+        validateStatus: () => true
+      });
+      responseStatus = response.status;
+    } catch (err) {
+      error = err instanceof Error ? err.message : 'Delivery failed';
+    }
+
+    const result = await this.db.query(
+      `INSERT INTO webhook_deliveries (event_id, attempt_number, url, response_status, error, duration_ms)
+       VALUES ($1, (SELECT COUNT(*) + 1 FROM webhook_deliveries WHERE event_id = $1), $2, $3, $4, $5)
+       RETURNING *`,
+      [event.id, url, responseStatus ?? null, error ?? null, Date.now() - startedAt]
+    );
+
+    return this.mapRowToDelivery(result.rows[0]);
+  }
+
+  private isSuccess(delivery: WebhookDelivery): boolean {
+    return !!delivery.responseStatus && delivery.responseStatus >= 200 && delivery.responseStatus < 300;
+  }
+
+  private async markDelivered(eventId: string): Promise<void> {
+    await this.db.query(
+      `UPDATE webhook_events
+       SET status = 'delivered', delivered_at = CURRENT_TIMESTAMP, last_error = NULL, locked_at = NULL
+       WHERE id = $1`,
+      [eventId]
+    );
+  }
+
+  private generateSecret(): string {
+    return `whsec_${crypto.randomBytes(24).toString('hex')}`;
+  }
+
+  private mapRowToEndpoint(row: QueryResultRow): WebhookEndpoint {
+    return {
+      id: row.id,
+      merchantId: row.merchant_id,
+      url: row.url,
+      description: row.description || undefined,
+      active: row.active,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    };
+  }
+
+  private mapRowToEvent(row: QueryResultRow): WebhookEvent {
+    return {
+      id: row.id,
+      endpointId: row.endpoint_id,
+      merchantId: row.merchant_id,
+      paymentId: row.payment_id,
+      eventType: row.event_type,
+      payload: row.payload,
+      status: row.status,
+      attempts: row.attempts,
+      maxAttempts: row.max_attempts,
+      nextAttemptAt: row.next_attempt_at,
+      lastError: row.last_error || undefined,
+      deliveredAt: row.delivered_at || undefined,
+      createdAt: row.created_at
+    };
+  }
+
+  private mapRowToDelivery(row: QueryResultRow): WebhookDelivery {
+    return {
+      id: row.id,
+      eventId: row.event_id,
+      attemptNumber: row.attempt_number,
+      url: row.url,
+      responseStatus: row.response_status ?? undefined,
+      error: row.error || undefined,
+      durationMs: row.duration_ms,
+      createdAt: row.created_at
+    };
+  }
+}
@@ -0,0 +1,57 @@
+import { EscrowIndexerService } from '../services/EscrowIndexerService';
+
+/**
+ * Polls the Aptos indexer for new escrow activity and confirms the payments
+ * it pays for. Run a single indexer per escrow account.
+ */
+export class EscrowIndexerWorker {
+  private escrowIndexerService: EscrowIndexerService;
+  private intervalMs: number;
+  private pageSize: number;
+  private maxPagesPerTick: number;
+  private timer?: NodeJS.Timeout;
+  private running = false;
+
+  constructor() {
+    this.escrowIndexerService = new EscrowIndexerService();
+    this.intervalMs = parseInt(process.env.ESCROW_INDEXER_INTERVAL_MS || '5000');
+    this.pageSize = parseInt(process.env.ESCROW_INDEXER_PAGE_SIZE || '50');
+    this.maxPagesPerTick = parseInt(process.env.ESCROW_INDEXER_MAX_PAGES || '10');
+  }
+
+  start(): void {
+    console.log('Starting escrow indexer...');
+    this.timer = setInterval(() => this.tick(), this.intervalMs);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  async tick(): Promise<void> {
+    // Skip this round if the previous one is still catching up
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    try {
+      for (let page = 0; page < this.maxPagesPerTick; page++) {
+        const indexed = await this.escrowIndexerService.indexNextPage(this.pageSize);
+        if (indexed < this.pageSize) {
+          break;
+        }
+      }
+
+      await this.escrowIndexerService.processPendingDeposits(this.pageSize);
+    } catch (error) {
+      // The cursor only moves past stored versions, so the next round resumes where this one stopped
+      console.error('Error indexing escrow deposits:', error);
+    } finally {
+      this.running = false;
+    }
+  }
+}
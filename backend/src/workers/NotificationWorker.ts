@@ -0,0 +1,56 @@
+import { NotificationService } from '../services/NotificationService';
+
+/**
+ * Dispatches due notifications through their channel adapters. Several
+ * workers can run side by side; notifications are claimed with SKIP LOCKED.
+ */
+export class NotificationWorker {
+  private notificationService: NotificationService;
+  private intervalMs: number;
+  private batchSize: number;
+  private timer?: NodeJS.Timeout;
+  private running = false;
+
+  constructor() {
+    this.notificationService = new NotificationService();
+    this.intervalMs = parseInt(process.env.NOTIFICATION_WORKER_INTERVAL_MS || '5000');
+    this.batchSize = parseInt(process.env.NOTIFICATION_WORKER_BATCH_SIZE || '20');
+  }
+
+  start(): void {
+    console.log('Starting notification worker...');
+    this.timer = setInterval(() => this.tick(), this.intervalMs);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  async tick(): Promise<void> {
+    // Skip this round if the previous one is still draining
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    try {
+      const notifications = await this.notificationService.claimDueNotifications(this.batchSize);
+
+      for (const notification of notifications) {
+        try {
+          await this.notificationService.dispatch(notification);
+        } catch (error) {
+          // The notification stays locked and is picked up again after the lock timeout
+          console.error(`Error dispatching notification ${notification.id}:`, error);
+        }
+      }
+    } catch (error) {
+      console.error('Error polling notifications:', error);
+    } finally {
+      this.running = false;
+    }
+  }
+}
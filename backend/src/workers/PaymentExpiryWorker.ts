@@ -0,0 +1,54 @@
+import { PaymentExpiryService } from '../services/PaymentExpiryService';
+
+/**
+ * Periodically expires pending payments that were never paid and refunds
+ * expired payments' deposits that were left unrefunded.
+ */
+export class PaymentExpiryWorker {
+  private paymentExpiryService: PaymentExpiryService;
+  private intervalMs: number;
+  private batchSize: number;
+  private timer?: NodeJS.Timeout;
+  private running = false;
+
+  constructor() {
+    this.paymentExpiryService = new PaymentExpiryService();
+    this.intervalMs = parseInt(process.env.PAYMENT_SWEEPER_INTERVAL_MS || '60000');
+    this.batchSize = parseInt(process.env.PAYMENT_SWEEPER_BATCH_SIZE || '100');
+  }
+
+  start(): void {
+    console.log('Starting payment expiry sweeper...');
+    this.timer = setInterval(() => this.tick(), this.intervalMs);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  async tick(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    try {
+      const expired = await this.paymentExpiryService.expireStalePayments(this.batchSize);
+      if (expired > 0) {
+        console.log(`Expired ${expired} abandoned payments`);
+      }
+
+      const refunded = await this.paymentExpiryService.refundExpiredDeposits(this.batchSize);
+      if (refunded > 0) {
+        console.log(`Refunded deposits of ${refunded} expired payments`);
+      }
+    } catch (error) {
+      console.error('Error sweeping expired payments:', error);
+    } finally {
+      this.running = false;
+    }
+  }
+}
@@ -0,0 +1,66 @@
+import { PayoutQueueService } from '../services/PayoutQueueService';
+
+/**
+ * Polls the payout queue and hands due jobs to the UPI provider. Several
+ * workers can run side by side; jobs are claimed with SKIP LOCKED. Now and
+ * then it also checks accepted payouts that never got a final webhook.
+ */
+export class PayoutWorker {
+  private payoutQueueService: PayoutQueueService;
+  private intervalMs: number;
+  private batchSize: number;
+  private reconcileIntervalMs: number;
+  private lastReconcileAt = 0;
+  private timer?: NodeJS.Timeout;
+  private running = false;
+
+  constructor() {
+    this.payoutQueueService = new PayoutQueueService();
+    this.intervalMs = parseInt(process.env.PAYOUT_WORKER_INTERVAL_MS || '5000');
+    this.batchSize = parseInt(process.env.PAYOUT_WORKER_BATCH_SIZE || '10');
+    this.reconcileIntervalMs = parseInt(process.env.PAYOUT_RECONCILE_INTERVAL_MS || '60000');
+  }
+
+  start(): void {
+    console.log('Starting payout worker...');
+    this.timer = setInterval(() => this.tick(), this.intervalMs);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  async tick(): Promise<void> {
+    // Skip this round if the previous one is still draining
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    try {
+      await this.payoutQueueService.enqueueMissing();
+      const jobs = await this.payoutQueueService.claimDueJobs(this.batchSize);
+
+      for (const job of jobs) {
+        try {
+          await this.payoutQueueService.processJob(job);
+        } catch (error) {
+          // The job stays locked and is picked up again after the lock timeout
+          console.error(`Error processing payout job ${job.id}:`, error);
+        }
+      }
+
+      if (Date.now() - this.lastReconcileAt >= this.reconcileIntervalMs) {
+        this.lastReconcileAt = Date.now();
+        await this.payoutQueueService.reconcileInitiatedPayouts(this.batchSize);
+      }
+    } catch (error) {
+      console.error('Error polling payout queue:', error);
+    } finally {
+      this.running = false;
+    }
+  }
+}
@@ -0,0 +1,46 @@
+import { RefundService } from '../services/RefundService';
+
+/**
+ * Periodically settles refunds left unfinished: looks up submitted refunds
+ * on chain and sends failed ones again.
+ */
+export class RefundWorker {
+  private refundService: RefundService;
+  private intervalMs: number;
+  private batchSize: number;
+  private timer?: NodeJS.Timeout;
+  private running = false;
+
+  constructor() {
+    this.refundService = new RefundService();
+    this.intervalMs = parseInt(process.env.REFUND_WORKER_INTERVAL_MS || '60000');
+    this.batchSize = parseInt(process.env.REFUND_WORKER_BATCH_SIZE || '20');
+  }
+
+  start(): void {
+    console.log('Starting refund reconciler...');
+    this.timer = setInterval(() => this.tick(), this.intervalMs);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  async tick(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    try {
+      await this.refundService.reconcileRefunds(this.batchSize);
+    } catch (error) {
+      console.error('Error reconciling refunds:', error);
+    } finally {
+      this.running = false;
+    }
+  }
+}
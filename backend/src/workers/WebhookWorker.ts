@@ -0,0 +1,56 @@
+import { WebhookService } from '../services/WebhookService';
+
+/**
+ * Polls the webhook outbox and delivers due events to merchant endpoints.
+ * Several workers can run side by side; events are claimed with SKIP LOCKED.
+ */
+export class WebhookWorker {
+  private webhookService: WebhookService;
+  private intervalMs: number;
+  private batchSize: number;
+  private timer?: NodeJS.Timeout;
+  private running = false;
+
+  constructor() {
+    this.webhookService = new WebhookService();
+    this.intervalMs = parseInt(process.env.WEBHOOK_WORKER_INTERVAL_MS || '5000');
+    this.batchSize = parseInt(process.env.WEBHOOK_WORKER_BATCH_SIZE || '20');
+  }
+
+  start(): void {
+    console.log('Starting webhook worker...');
+    this.timer = setInterval(() => this.tick(), this.intervalMs);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  async tick(): Promise<void> {
+    // Skip this round if the previous one is still draining
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    try {
+      const events = await this.webhookService.claimDueEvents(this.batchSize);
+
+      for (const event of events) {
+        try {
+          await this.webhookService.processEvent(event);
+        } catch (error) {
+          // The event stays locked and is picked up again after the lock timeout
+          console.error(`Error delivering webhook event ${event.id}:`, error);
+        }
+      }
+    } catch (error) {
+      console.error('Error polling webhook outbox:', error);
+    } finally {
+      this.running = false;
+    }
+  }
+}
@@ -0,0 +1,96 @@
+import { beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { QueryResultRow } from 'pg';
+import { EscrowIndexerService } from '../src/services/EscrowIndexerService';
+import { FakeDb, inject } from './helpers';
+
+const EVENT_ID = 'event-1';
+
+const makeRow = (attempts = 0): QueryResultRow => ({
+  id: EVENT_ID,
+  blockchain_hash: '0xdeposit',
+  ledger_version: '1200',
+  event_data: { sender: '0xpayer', deposits: [{ asset: 'USDC', amount: 6 }] },
+  attempts,
+  created_at: new Date()
+});
+
+describe('EscrowIndexerService', () => {
+  let rows: QueryResultRow[];
+  let openPayment: { id: string; asset: string; status: string } | null;
+  let settle: () => Promise<unknown>;
+  let db: FakeDb;
+  let service: EscrowIndexerService;
+
+  beforeEach(() => {
+    rows = [makeRow()];
+    openPayment = { id: 'payment-1', asset: 'USDC', status: 'pending' };
+    settle = async () => ({ ...openPayment, status: 'confirmed' });
+
+    db = new FakeDb().on(/SELECT \* FROM transaction_events/, () => rows);
+
+    process.env.ESCROW_DEPOSIT_MAX_ATTEMPTS = '3';
+    service = inject(new EscrowIndexerService(), {
+      db,
+      paymentService: {
+        getPaymentByTransactionHash: async () => null,
+        findPaymentForDeposit: async () => openPayment
+      },
+      depositSettlementService: {
+        applyDeposit: () => settle()
+      }
+    });
+    delete process.env.ESCROW_DEPOSIT_MAX_ATTEMPTS;
+  });
+
+  it('marks a matched deposit processed against its payment', async () => {
+    await service.processPendingDeposits(10);
+
+    const [processed] = db.find(/SET processed = TRUE, payment_id/);
+    assert.deepEqual(processed.params, ['payment-1', EVENT_ID]);
+    assert.equal(db.find(/review_reason = \$1/).length, 0);
+  });
+
+  it('holds a deposit that matches no payment for review', async () => {
+    openPayment = null;
+
+    await service.processPendingDeposits(10);
+
+    const [held] = db.find(/review_reason = \$1/);
+    assert.deepEqual(held.params, ['unmatched', 'No open payment matches the deposit', 0, EVENT_ID]);
+    assert.equal(db.find(/payment_id = \$1/).length, 0);
+  });
+
+  it('backs off exponentially when settlement fails', async () => {
+    rows = [makeRow(1)];
+    settle = async () => {
+      throw new Error('Database unavailable');
+    };
+
+    await service.processPendingDeposits(10);
+
+    const [retry] = db.find(/next_attempt_at = CURRENT_TIMESTAMP/);
+    assert.deepEqual(retry.params, [2, 'Database unavailable', 60000, EVENT_ID]);
+    assert.equal(db.find(/SET processed = TRUE/).length, 0);
+  });
+
+  it('holds a deposit for review once its last attempt fails', async () => {
+    rows = [makeRow(2)];
+    settle = async () => {
+      throw new Error('Database unavailable');
+    };
+
+    await service.processPendingDeposits(10);
+
+    const [held] = db.find(/review_reason = \$1/);
+    assert.deepEqual(held.params, ['failed', 'Database unavailable', 3, EVENT_ID]);
+    assert.equal(db.find(/next_attempt_at = CURRENT_TIMESTAMP/).length, 0);
+  });
+
+  it('only picks up deposits that are due', async () => {
+    await service.processPendingDeposits(10);
+
+    const [select] = db.find(/SELECT \* FROM transaction_events/);
+    assert.match(select.sql, /next_attempt_at IS NULL OR next_attempt_at <= CURRENT_TIMESTAMP/);
+  });
+});
@@ -0,0 +1,26 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { OracleService } from '../src/services/OracleService';
+import { FakeDb, inject } from './helpers';
+
+describe('OracleService', () => {
+  it('rejects rate history intervals that are not its own', async () => {
+    const db = new FakeDb();
+    const service = inject(new OracleService(), { db });
+
+    for (const interval of ['constructor', 'toString', '__proto__', 'hasOwnProperty', '2h']) {
+      await assert.rejects(service.getRateHistory('USDC', 'INR', interval), { statusCode: 400, code: 'invalid_interval' }, interval);
+    }
+    assert.equal(db.queries.length, 0);
+  });
+
+  it('buckets rate history by a known interval', async () => {
+    const db = new FakeDb();
+    const service = inject(new OracleService(), { db });
+
+    await service.getRateHistory('USDC', 'INR', '1h');
+
+    const [history] = db.find(/FROM exchange_rates/);
+    assert.equal(history.params[2], 3600);
+  });
+});
@@ -0,0 +1,48 @@
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { assertPublicUrl, isPrivateAddress, publicLookup } from '../src/services/OutboundUrlGuard';
+
+describe('OutboundUrlGuard', () => {
+  afterEach(() => {
+    delete process.env.OUTBOUND_ALLOWED_PRIVATE_HOSTS;
+  });
+
+  it('treats loopback, private, link-local and reserved addresses as private', () => {
+    for (const address of ['127.0.0.1', '10.1.2.3', '172.20.0.1', '192.168.1.1', '169.254.169.254', '100.64.0.1', '0.0.0.0', '::1', 'fd00::1', 'fe80::1']) {
+      assert.equal(isPrivateAddress(address), true, address);
+    }
+  });
+
+  it('sees through IPv4-mapped IPv6 addresses', () => {
+    assert.equal(isPrivateAddress('::ffff:127.0.0.1'), true);
+    assert.equal(isPrivateAddress('::ffff:8.8.8.8'), false);
+  });
+
+  it('treats public addresses as public', () => {
+    for (const address of ['8.8.8.8', '1.1.1.1', '2606:4700:4700::1111']) {
+      assert.equal(isPrivateAddress(address), false, address);
+    }
+  });
+
+  it('accepts public http(s) URLs', async () => {
+    const url = await assertPublicUrl('https://8.8.8.8/hooks', 'Webhook URL');
+    assert.equal(url.hostname, '8.8.8.8');
+  });
+
+  it('rejects private hosts, other protocols and malformed URLs with a 400', async () => {
+    for (const value of ['http://127.0.0.1/', 'http://[::1]/', 'http://169.254.169.254/latest', 'ftp://8.8.8.8/', 'not a url']) {
+      await assert.rejects(assertPublicUrl(value, 'Webhook URL'), { statusCode: 400 }, value);
+    }
+  });
+
+  it('allows listed private hosts for local development', async () => {
+    process.env.OUTBOUND_ALLOWED_PRIVATE_HOSTS = 'localhost, 127.0.0.1';
+
+    await assertPublicUrl('http://127.0.0.1:4000/hooks', 'Webhook URL');
+    assert.equal((await publicLookup('localhost', {})).address.length > 0, true);
+  });
+
+  it('refuses to connect to hosts that resolve to private addresses', async () => {
+    await assert.rejects(publicLookup('localhost', {}), /private or local address/);
+  });
+});
@@ -0,0 +1,57 @@
+import { beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { PaymentExpiryService } from '../src/services/PaymentExpiryService';
+import { inject } from './helpers';
+
+describe('PaymentExpiryService', () => {
+  let payment: { id: string; status: string; amountReceived: number; expiresAt: Date };
+  let refundFailures: number;
+  let refunded: string[];
+  let service: PaymentExpiryService;
+
+  beforeEach(() => {
+    payment = { id: 'payment-1', status: 'awaiting_topup', amountReceived: 2, expiresAt: new Date(Date.now() - 1000) };
+    refundFailures = 0;
+    refunded = [];
+
+    service = inject(new PaymentExpiryService(), {
+      paymentService: {
+        getExpiredPendingPayments: async () => (payment.status === 'awaiting_topup' ? [payment] : []),
+        getUnrefundedExpiredPayments: async () =>
+          (payment.status === 'expired' && !refunded.includes(payment.id) ? [payment] : []),
+        updatePaymentStatus: async (_id: string, status: string) => {
+          payment.status = status;
+          return payment;
+        }
+      },
+      refundService: {
+        refundPayment: async (paymentId: string) => {
+          if (refundFailures > 0) {
+            refundFailures--;
+            throw new Error('Escrow node unavailable');
+          }
+          refunded.push(paymentId);
+        }
+      }
+    });
+  });
+
+  it('refunds the partial deposit of a payment it expires', async () => {
+    assert.equal(await service.expireStalePayments(10), 1);
+
+    assert.equal(payment.status, 'expired');
+    assert.deepEqual(refunded, ['payment-1']);
+  });
+
+  it('refunds a deposit later when the refund at expiry fails', async () => {
+    refundFailures = 1;
+
+    await service.expireStalePayments(10);
+    assert.equal(payment.status, 'expired');
+    assert.deepEqual(refunded, []);
+
+    assert.equal(await service.refundExpiredDeposits(10), 1);
+    assert.deepEqual(refunded, ['payment-1']);
+    assert.equal(await service.refundExpiredDeposits(10), 0);
+  });
+});
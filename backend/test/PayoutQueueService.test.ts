@@ -0,0 +1,216 @@
+import { beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { QueryResultRow } from 'pg';
+import { PayoutJob, PayoutQueueService } from '../src/services/PayoutQueueService';
+import type { UpiPayoutResponse, UpiPayoutStatus } from '../src/services/PayoutProviders';
+import { FakeDb, inject } from './helpers';
+
+const PAYMENT_ID = 'payment-1';
+const REFERENCE = `ref-${PAYMENT_ID}-1`;
+
+const makeJob = (attempts: number): PayoutJob => ({
+  id: 'job-1',
+  paymentId: PAYMENT_ID,
+  status: 'processing',
+  attempts,
+  maxAttempts: 3,
+  nextRunAt: new Date(),
+  createdAt: new Date(),
+  updatedAt: new Date()
+});
+
+const providerStatus = (status: UpiPayoutStatus['status']): UpiPayoutStatus => ({
+  payoutId: REFERENCE,
+  status,
+  amount: 500,
+  merchantUpiId: 'shop@okaxis',
+  createdAt: new Date(),
+  updatedAt: new Date()
+});
+
+describe('PayoutQueueService', () => {
+  let payouts: QueryResultRow[];
+  let db: FakeDb;
+  let initiated: string[];
+  let initiateResults: UpiPayoutResponse[];
+  let lookups: (UpiPayoutStatus | 'not_found' | null)[];
+  let statusChanges: string[];
+  let refunds: string[];
+  let sequence: string[];
+  let service: PayoutQueueService;
+
+  beforeEach(() => {
+    payouts = [];
+    initiated = [];
+    initiateResults = [];
+    lookups = [];
+    statusChanges = [];
+    refunds = [];
+    sequence = [];
+
+    // One upi_payouts row per attempt
+    db = new FakeDb()
+      .on(/SELECT \* FROM upi_payouts WHERE payment_id/, () => payouts)
+      .on(/INSERT INTO upi_payouts/, ([paymentId, payoutId, attemptNumber, amount, merchantUpiId, provider]) => {
+        const row = {
+          id: `attempt-${payouts.length + 1}`,
+          payment_id: paymentId,
+          payout_id: payoutId,
+          attempt_number: attemptNumber,
+          amount,
+          merchant_upi_id: merchantUpiId,
+          provider,
+          status: 'pending',
+          created_at: new Date()
+        };
+        payouts.push(row);
+        return [row];
+      })
+      .on(/UPDATE upi_payouts\s+SET status = \$1/, ([status, , failureReason, , id]) => {
+        Object.assign(payouts.find(row => row.id === id) || {}, { status, failure_reason: failureReason });
+        return [];
+      });
+
+    const payment = {
+      id: PAYMENT_ID,
+      merchantId: 'merchant-1',
+      status: 'confirmed',
+      amountINR: 500,
+      merchantUpiId: 'shop@okaxis',
+      walletAddress: '0x1'
+    };
+
+    service = inject(new PayoutQueueService(), {
+      db,
+      paymentService: {
+        getPaymentById: async () => payment,
+        updatePaymentStatus: async (_id: string, status: string) => {
+          statusChanges.push(status);
+          payment.status = status;
+          return payment;
+        },
+        updatePaymentPayout: async (_id: string, payoutId: string) => {
+          sequence.push(`link ${payoutId}`);
+          return payment;
+        }
+      },
+      upiService: {
+        getPayoutReference: (id: string, attemptNumber: number) => `ref-${id}-${attemptNumber}`,
+        getProviderName: () => 'mock',
+        initiatePayout: async (request: { referenceId: string }) => {
+          initiated.push(request.referenceId);
+          sequence.push(`send ${request.referenceId}`);
+          return initiateResults.shift();
+        },
+        findPayout: async () => lookups.shift() ?? null
+      },
+      refundService: {
+        refundPayment: async (paymentId: string) => {
+          refunds.push(paymentId);
+        }
+      },
+      screeningService: {
+        screen: async () => ({ blocked: false, matches: [] })
+      },
+      merchantService: {
+        getMerchantById: async () => ({ id: 'merchant-1', name: 'Shop' })
+      }
+    });
+  });
+
+  it('sends a new reference after a definite failure and keeps every attempt', async () => {
+    initiateResults.push(
+      { payoutId: REFERENCE, status: 'FAILED', message: 'Beneficiary bank offline' },
+      { payoutId: `ref-${PAYMENT_ID}-2`, status: 'PENDING', message: 'Transfer PENDING' }
+    );
+
+    await service.processJob(makeJob(0));
+    await service.processJob(makeJob(1));
+
+    assert.deepEqual(initiated, [REFERENCE, `ref-${PAYMENT_ID}-2`]);
+    assert.deepEqual(payouts.map(row => [row.attempt_number, row.status]), [[1, 'failed'], [2, 'pending']]);
+    assert.deepEqual(statusChanges, ['payout_initiated']);
+  });
+
+  it('links the payout to the payment before sending it', async () => {
+    initiateResults.push({ payoutId: REFERENCE, status: 'PENDING', message: 'Transfer PENDING' });
+
+    await service.processJob(makeJob(0));
+
+    assert.deepEqual(sequence.slice(0, 2), [`link ${REFERENCE}`, `send ${REFERENCE}`]);
+  });
+
+  it('looks up a payout with an unknown outcome instead of sending it again', async () => {
+    initiateResults.push({ payoutId: REFERENCE, status: 'PENDING', message: 'Timed out', outcomeUnknown: true });
+
+    await service.processJob(makeJob(0));
+
+    assert.equal(payouts[0].status, 'pending');
+    assert.equal(db.find(/SET status = 'queued'/).length, 1);
+    assert.deepEqual(statusChanges, []);
+
+    lookups.push(providerStatus('SUCCESS'));
+    await service.processJob(makeJob(1));
+
+    assert.deepEqual(initiated, [REFERENCE]);
+    assert.equal(payouts[0].status, 'success');
+    assert.deepEqual(statusChanges, ['payout_initiated', 'completed']);
+  });
+
+  it('resends the same reference when the provider never received it', async () => {
+    payouts.push({ id: 'attempt-1', payout_id: REFERENCE, attempt_number: 1, status: 'pending', created_at: new Date() });
+    lookups.push('not_found');
+    initiateResults.push({ payoutId: REFERENCE, status: 'PENDING', message: 'Transfer PENDING' });
+
+    await service.processJob(makeJob(1));
+
+    assert.deepEqual(initiated, [REFERENCE]);
+    assert.equal(payouts.length, 1);
+    assert.deepEqual(statusChanges, ['payout_initiated']);
+  });
+
+  it('neither dead-letters nor refunds while the outcome is unknown', async () => {
+    payouts.push({ id: 'attempt-1', payout_id: REFERENCE, attempt_number: 3, status: 'pending', created_at: new Date() });
+    lookups.push(null);
+
+    await service.processJob(makeJob(3));
+
+    assert.deepEqual(initiated, []);
+    assert.equal(db.find(/SET status = 'queued'/).length, 1);
+    assert.equal(db.find(/SET status = 'dead'/).length, 0);
+    assert.deepEqual(refunds, []);
+  });
+
+  it('refunds the payer once the last attempt definitely fails', async () => {
+    initiateResults.push({ payoutId: REFERENCE, status: 'FAILED', message: 'Invalid VPA' });
+
+    await service.processJob(makeJob(2));
+
+    assert.equal(db.find(/SET status = 'dead'/).length, 1);
+    assert.deepEqual(statusChanges, ['failed']);
+    assert.deepEqual(refunds, [PAYMENT_ID]);
+  });
+
+  it('completes payments whose accepted payout succeeded without a webhook', async () => {
+    db.on(/FROM payments\s+WHERE status = 'payout_initiated'/, () => [{ id: PAYMENT_ID, upi_payout_id: REFERENCE }]);
+    inject(service, {
+      upiService: { getPayoutStatus: async () => providerStatus('SUCCESS') }
+    });
+
+    await service.reconcileInitiatedPayouts(10);
+
+    assert.equal(db.find(/SET status = 'success'/).length, 1);
+    assert.deepEqual(statusChanges, ['completed']);
+  });
+
+  it('leaves payouts the provider still reports as pending', async () => {
+    db.on(/FROM payments\s+WHERE status = 'payout_initiated'/, () => [{ id: PAYMENT_ID, upi_payout_id: REFERENCE }]);
+    inject(service, {
+      upiService: { getPayoutStatus: async () => providerStatus('PENDING') }
+    });
+
+    await service.reconcileInitiatedPayouts(10);
+
+    assert.deepEqual(statusChanges, []);
+  });
+});
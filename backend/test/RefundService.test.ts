@@ -0,0 +1,246 @@
+import { beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { QueryResultRow } from 'pg';
+import { RefundService } from '../src/services/RefundService';
+import { FakeDb, inject } from './helpers';
+
+const PAYMENT_ID = 'payment-1';
+const REFUND_TX = '0xrefund';
+
+describe('RefundService', () => {
+  let refunds: QueryResultRow[];
+  let transfers: { recipient: string; asset: string; amount: number }[];
+  let statusChanges: string[];
+  let committed: boolean | Error;
+  let outcome: string | null;
+  // Whether failed refunds' backoff has passed
+  let retriesDue: boolean;
+  let payment: Record<string, unknown>;
+  let service: RefundService;
+
+  beforeEach(() => {
+    refunds = [];
+    transfers = [];
+    statusChanges = [];
+    committed = true;
+    outcome = 'success';
+    retriesDue = true;
+    payment = {
+      id: PAYMENT_ID,
+      status: 'failed',
+      asset: 'USDC',
+      walletAddress: '0xpayer',
+      stablecoinAmount: 6,
+      amountReceived: 6.5,
+      aptosTransactionHash: '0xdeposit'
+    };
+
+    // One refund per payment and kind, and a failed one can be taken over, as in the refunds table
+    const db = new FakeDb()
+      .on(/SELECT COALESCE\(SUM\(gross_amount\), 0\) AS refunded/, () => [{ refunded: '0.5' }])
+      .on(/INSERT INTO refunds/, params => {
+        const [paymentId, kind, asset, grossAmount, feeAmount, amount, recipient, reason, actor] = params;
+        const existing = refunds.find(row => row.payment_id === paymentId && row.kind === kind);
+        if (existing && existing.status !== 'failed') {
+          return [];
+        }
+        const row = {
+          id: `refund-${refunds.length + 1}`,
+          payment_id: paymentId,
+          kind,
+          asset,
+          gross_amount: String(grossAmount),
+          fee_amount: String(feeAmount),
+          amount: String(amount),
+          recipient_address: recipient,
+          status: 'pending',
+          reason,
+          initiated_by: actor,
+          attempts: existing ? existing.attempts + 1 : 1
+        };
+        if (existing) {
+          Object.assign(existing, row, { id: existing.id, next_attempt_at: null });
+          return [existing];
+        }
+        refunds.push(row);
+        return [row];
+      })
+      .on(/SET status = 'failed'/, ([hash, failureReason, delay, id]) => {
+        const row = refunds.find(refund => refund.id === id) as QueryResultRow;
+        Object.assign(row, { status: 'failed', aptos_transaction_hash: hash ?? row.aptos_transaction_hash, failure_reason: failureReason, retry_delay: delay });
+        return [row];
+      })
+      .on(/SET next_attempt_at = NULL/, ([id]) => {
+        Object.assign(refunds.find(refund => refund.id === id) || {}, { retry_delay: null });
+        return [];
+      })
+      .on(/WHERE status = 'submitted'/, () => refunds.filter(row => row.status === 'submitted'))
+      .on(/WHERE status = 'failed' AND attempts/, ([maxAttempts]) => retriesDue
+        ? refunds.filter(row => row.status === 'failed' && row.retry_delay !== null && row.attempts < Number(maxAttempts))
+        : [])
+      .on(/UPDATE refunds/, ([status, hash, failureReason, id]) => {
+        const row = refunds.find(refund => refund.id === id) as QueryResultRow;
+        Object.assign(row, { status, aptos_transaction_hash: hash ?? row.aptos_transaction_hash, failure_reason: failureReason });
+        return [row];
+      });
+
+    process.env.REFUND_FEE_BPS = '100';
+    service = inject(new RefundService(), {
+      db,
+      aptosService: {
+        transferFromEscrow: async (recipient: string, asset: string, amount: number) => {
+          transfers.push({ recipient, asset, amount });
+          return REFUND_TX;
+        },
+        waitForTransaction: async () => {
+          if (committed instanceof Error) {
+            throw committed;
+          }
+          return committed;
+        },
+        getTransactionOutcome: async () => outcome
+      },
+      paymentService: {
+        getPaymentById: async () => payment,
+        updatePaymentStatus: async (_id: string, status: string) => {
+          statusChanges.push(status);
+          payment.status = status;
+          return payment;
+        }
+      },
+      notificationService: {
+        enqueueForPayment: async () => undefined
+      }
+    });
+    delete process.env.REFUND_FEE_BPS;
+  });
+
+  it('returns what is still held, less the refund fee and any excess already sent back', async () => {
+    const refund = await service.refundPayment(PAYMENT_ID, { actor: 'operator', reason: 'Customer request' });
+
+    assert.equal(refund.status, 'completed');
+    assert.equal(refund.grossAmount, 6);
+    assert.equal(refund.feeAmount, 0.06);
+    assert.deepEqual(transfers, [{ recipient: '0xpayer', asset: 'USDC', amount: 5.94 }]);
+    assert.deepEqual(statusChanges, ['refunded']);
+  });
+
+  it('only refunds payments that will not be paid out', async () => {
+    payment.status = 'confirmed';
+
+    await assert.rejects(
+      service.refundPayment(PAYMENT_ID, { actor: 'operator', reason: 'Customer request' }),
+      { statusCode: 409, code: 'not_refundable' }
+    );
+    assert.deepEqual(transfers, []);
+  });
+
+  it('never sends a second refund for the same payment', async () => {
+    await service.refundPayment(PAYMENT_ID, { actor: 'operator', reason: 'Customer request' });
+    payment.status = 'failed';
+
+    await assert.rejects(
+      service.refundPayment(PAYMENT_ID, { actor: 'operator', reason: 'Again' }),
+      { statusCode: 409, code: 'refund_exists' }
+    );
+    assert.equal(transfers.length, 1);
+  });
+
+  it('leaves a refund whose outcome is unknown as submitted', async () => {
+    committed = new Error('Request timed out');
+
+    const refund = await service.refundPayment(PAYMENT_ID, { actor: 'payout_queue', reason: 'UPI payout failed' });
+
+    assert.equal(refund.status, 'submitted');
+    assert.equal(refund.aptosTransactionHash, REFUND_TX);
+    assert.deepEqual(statusChanges, []);
+    await assert.rejects(
+      service.refundPayment(PAYMENT_ID, { actor: 'operator', reason: 'Retry' }),
+      { code: 'refund_exists' }
+    );
+  });
+
+  it('lets a failed refund be retried', async () => {
+    committed = false;
+    const failed = await service.refundPayment(PAYMENT_ID, { actor: 'operator', reason: 'Customer request' });
+    assert.equal(failed.status, 'failed');
+
+    committed = true;
+    const retried = await service.refundPayment(PAYMENT_ID, { actor: 'operator', reason: 'Customer request' });
+
+    assert.equal(retried.status, 'completed');
+    assert.equal(transfers.length, 2);
+    assert.deepEqual(statusChanges, ['refunded']);
+  });
+
+  it('backs off before a failed refund is sent again', async () => {
+    committed = false;
+
+    await service.refundPayment(PAYMENT_ID, { actor: 'operator', reason: 'Customer request' });
+
+    assert.equal(refunds[0].status, 'failed');
+    assert.equal(refunds[0].retry_delay, 60000);
+  });
+
+  it('completes a submitted refund once it is found committed on chain', async () => {
+    committed = new Error('Request timed out');
+    await service.refundPayment(PAYMENT_ID, { actor: 'payout_queue', reason: 'UPI payout failed' });
+
+    await service.reconcileRefunds(10);
+
+    assert.equal(refunds[0].status, 'completed');
+    assert.deepEqual(statusChanges, ['refunded']);
+    assert.equal(transfers.length, 1);
+  });
+
+  it('fails a submitted refund that failed on chain or never committed', async () => {
+    retriesDue = false;
+    for (const [found, reason] of [['failed', 'not committed successfully'], ['not_found', 'never committed']]) {
+      refunds.length = 0;
+      committed = new Error('Request timed out');
+      outcome = found;
+      await service.refundPayment(PAYMENT_ID, { actor: 'payout_queue', reason: 'UPI payout failed' });
+
+      await service.reconcileRefunds(10);
+
+      assert.equal(refunds[0].status, 'failed');
+      assert.match(refunds[0].failure_reason, new RegExp(reason));
+    }
+    assert.deepEqual(statusChanges, []);
+  });
+
+  it('leaves a submitted refund alone while its transaction is pending', async () => {
+    committed = new Error('Request timed out');
+    outcome = 'pending';
+    await service.refundPayment(PAYMENT_ID, { actor: 'payout_queue', reason: 'UPI payout failed' });
+
+    await service.reconcileRefunds(10);
+
+    assert.equal(refunds[0].status, 'submitted');
+  });
+
+  it('sends a failed refund again until it succeeds', async () => {
+    committed = false;
+    await service.refundPayment(PAYMENT_ID, { actor: 'payout_queue', reason: 'UPI payout failed' });
+
+    committed = true;
+    await service.reconcileRefunds(10);
+
+    assert.equal(refunds[0].status, 'completed');
+    assert.equal(refunds[0].attempts, 2);
+    assert.equal(transfers.length, 2);
+    assert.deepEqual(statusChanges, ['refunded']);
+  });
+
+  it('stops retrying once the payment no longer needs a refund', async () => {
+    committed = false;
+    await service.refundPayment(PAYMENT_ID, { actor: 'payout_queue', reason: 'UPI payout failed' });
+    payment.status = 'confirmed';
+
+    await service.reconcileRefunds(10);
+    await service.reconcileRefunds(10);
+
+    assert.equal(transfers.length, 1);
+    assert.equal(refunds[0].retry_delay, null);
+  });
+});
@@ -0,0 +1,42 @@
+import { beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { PoolClient } from 'pg';
+import { RiskService } from '../src/services/RiskService';
+import { FakeDb, inject } from './helpers';
+
+const WALLET = '0xAbC';
+
+describe('RiskService', () => {
+  let pool: FakeDb;
+  let client: FakeDb;
+  let dailyTotal: number;
+  let service: RiskService;
+
+  beforeEach(() => {
+    dailyTotal = 0;
+    pool = new FakeDb();
+    client = new FakeDb()
+      .on(/AS daily/, () => [{ daily: String(dailyTotal), monthly: String(dailyTotal) }])
+      .on(/SELECT COUNT\(\*\) FROM payments/, () => [{ count: '0' }]);
+    service = inject(new RiskService(), { db: pool });
+  });
+
+  it('locks the wallet before reading its totals in the creating transaction', async () => {
+    await service.assessForCreation(client as unknown as PoolClient, { walletAddress: WALLET, amountINR: 1000 });
+
+    assert.match(client.queries[0].sql, /pg_advisory_xact_lock/);
+    assert.equal(client.queries[0].params[1], WALLET);
+    assert.ok(client.find(/AS daily/).length > 0);
+    assert.equal(pool.queries.length, 0);
+  });
+
+  it('blocks a payment that would take the wallet over its daily limit', async () => {
+    dailyTotal = 24500;
+
+    const risk = await service.assessForCreation(client as unknown as PoolClient, { walletAddress: WALLET, amountINR: 1000 });
+
+    assert.equal(risk.decision, 'block');
+    assert.deepEqual(risk.reasons.map(reason => reason.rule), ['daily_limit']);
+    assert.throws(() => service.assertNotBlocked(risk), { statusCode: 403, code: 'payment_blocked' });
+  });
+});
@@ -0,0 +1,160 @@
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import { QueryResultRow } from 'pg';
+import { WebhookEvent, WebhookService } from '../src/services/WebhookService';
+import { FakeDb, inject, startReceiver } from './helpers';
+
+const SECRET = 'whsec_test';
+const MERCHANT_ID = '6f1c3a52-8d1e-4c55-9a0b-3c2f1e7d9a10';
+const EVENT_ID = '0b9e4f7a-2c6d-4e1f-8a3b-5d7c9e1f2a4b';
+
+const makeEvent = (overrides: Partial<WebhookEvent> = {}): WebhookEvent => ({
+  id: EVENT_ID,
+  endpointId: 'endpoint-1',
+  merchantId: MERCHANT_ID,
+  paymentId: 'payment-1',
+  eventType: 'payment.confirmed',
+  payload: { payment: { id: 'payment-1', status: 'confirmed' } },
+  status: 'delivering',
+  attempts: 0,
+  maxAttempts: 3,
+  nextAttemptAt: new Date(),
+  createdAt: new Date('2026-01-01T00:00:00Z'),
+  ...overrides
+});
+
+const makeDb = (url: string, eventRow?: QueryResultRow) =>
+  new FakeDb()
+    .on(/SELECT url FROM webhook_endpoints/, () => [{ url }])
+    .on(/UPDATE merchants SET webhook_secret = COALESCE/, () => [{ webhook_secret: SECRET }])
+    .on(/SELECT \* FROM webhook_events WHERE id = \$1 AND merchant_id/, () => (eventRow ? [eventRow] : []))
+    .on(/INSERT INTO webhook_deliveries/, ([eventId, deliveryUrl, responseStatus, error, durationMs]) => [{
+      id: 'delivery-1',
+      event_id: eventId,
+      attempt_number: 1,
+      url: deliveryUrl,
+      response_status: responseStatus,
+      error,
+      duration_ms: durationMs,
+      created_at: new Date()
+    }]);
+
+describe('WebhookService', () => {
+  let receiver: Awaited<ReturnType<typeof startReceiver>>;
+  const statuses: number[] = [];
+
+  before(async () => {
+    receiver = await startReceiver(statuses);
+  });
+
+  after(async () => {
+    await receiver.close();
+  });
+
+  beforeEach(() => {
+    process.env.OUTBOUND_ALLOWED_PRIVATE_HOSTS = '127.0.0.1';
+    receiver.requests.length = 0;
+    statuses.length = 0;
+  });
+
+  it('signs the delivered body with the merchant secret', async () => {
+    const db = makeDb(receiver.url);
+    const service = inject(new WebhookService(), { db });
+
+    await service.processEvent(makeEvent());
+
+    assert.equal(receiver.requests.length, 1);
+    const { headers, body } = receiver.requests[0];
+    const expected = crypto
+      .createHmac('sha256', SECRET)
+      .update(`${headers['x-webhook-timestamp']}.${body}`)
+      .digest('hex');
+
+    assert.equal(headers['x-webhook-signature'], expected);
+    assert.equal(headers['x-webhook-id'], EVENT_ID);
+    assert.equal(JSON.parse(body).type, 'payment.confirmed');
+    assert.equal(db.find(/SET status = 'delivered'/).length, 1);
+  });
+
+  it('never stores the response body', async () => {
+    const db = makeDb(receiver.url);
+    const service = inject(new WebhookService(), { db });
+
+    await service.processEvent(makeEvent());
+
+    const [insert] = db.find(/INSERT INTO webhook_deliveries/);
+    assert.doesNotMatch(insert.sql, /response_body/);
+    assert.ok(!insert.params.includes('internal receiver details'));
+  });
+
+  it('schedules a retry with backoff when the endpoint fails', async () => {
+    statuses.push(500);
+    const db = makeDb(receiver.url);
+    const service = inject(new WebhookService(), { db });
+
+    await service.processEvent(makeEvent());
+
+    const [retry] = db.find(/SET status = 'pending'/);
+    assert.deepEqual(retry.params.slice(0, 2), [1, 'Endpoint responded with HTTP 500']);
+    assert.ok(Number(retry.params[2]) >= 10000);
+    assert.equal(db.find(/SET status = 'delivered'/).length, 0);
+  });
+
+  it('gives up after the last attempt', async () => {
+    statuses.push(503);
+    const db = makeDb(receiver.url);
+    const service = inject(new WebhookService(), { db });
+
+    await service.processEvent(makeEvent({ attempts: 2 }));
+
+    const [failed] = db.find(/SET status = 'failed'/);
+    assert.deepEqual(failed.params, [3, 'Endpoint responded with HTTP 503', EVENT_ID]);
+  });
+
+  it('redelivers a failed event on request', async () => {
+    const eventRow = {
+      id: EVENT_ID,
+      endpoint_id: 'endpoint-1',
+      merchant_id: MERCHANT_ID,
+      payment_id: 'payment-1',
+      event_type: 'payment.failed',
+      payload: { payment: { id: 'payment-1', status: 'failed' } },
+      status: 'failed',
+      attempts: 3,
+      max_attempts: 3,
+      next_attempt_at: new Date(),
+      created_at: new Date()
+    };
+    const db = makeDb(receiver.url, eventRow);
+    const service = inject(new WebhookService(), { db });
+
+    const delivery = await service.redeliver(MERCHANT_ID, EVENT_ID);
+
+    assert.equal(delivery.responseStatus, 200);
+    assert.equal(receiver.requests.length, 1);
+    assert.equal(JSON.parse(receiver.requests[0].body).type, 'payment.failed');
+    assert.equal(db.find(/SET status = 'delivered'/).length, 1);
+  });
+
+  it('refuses to deliver to private addresses', async () => {
+    delete process.env.OUTBOUND_ALLOWED_PRIVATE_HOSTS;
+    const db = makeDb(receiver.url);
+    const service = inject(new WebhookService(), { db });
+
+    await service.processEvent(makeEvent());
+
+    assert.equal(receiver.requests.length, 0);
+    const [insert] = db.find(/INSERT INTO webhook_deliveries/);
+    assert.match(String(insert.params[3]), /private or local address/);
+  });
+
+  it('rejects endpoints that point to private addresses', async () => {
+    delete process.env.OUTBOUND_ALLOWED_PRIVATE_HOSTS;
+    const service = inject(new WebhookService(), { db: new FakeDb() });
+
+    for (const url of ['http://127.0.0.1/hooks', 'http://169.254.169.254/latest', 'http://[::1]/', 'ftp://example.com']) {
+      await assert.rejects(service.createEndpoint(MERCHANT_ID, { url }), { statusCode: 400 });
+    }
+  });
+});
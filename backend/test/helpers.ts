@@ -0,0 +1,81 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { QueryResultRow } from 'pg';
+
+// Services read their config when constructed; the Aptos service needs an escrow key to start
+process.env.APTOS_ESCROW_PRIVATE_KEY ||= `0x${'11'.repeat(32)}`;
+
+export interface RecordedQuery {
+  sql: string;
+  params: unknown[];
+}
+
+type QueryHandler = (params: unknown[]) => QueryResultRow[];
+
+/**
+ * Stand-in for the pg pool. Queries are answered by the first handler whose
+ * pattern matches the SQL, or with no rows, and every query is recorded so
+ * that tests can assert on what was written.
+ */
+export class FakeDb {
+  queries: RecordedQuery[] = [];
+  private handlers: { pattern: RegExp; handler: QueryHandler }[] = [];
+
+  on(pattern: RegExp, handler: QueryHandler): this {
+    this.handlers.push({ pattern, handler });
+    return this;
+  }
+
+  async query(sql: string, params: unknown[] = []) {
+    this.queries.push({ sql, params });
+    const match = this.handlers.find(({ pattern }) => pattern.test(sql));
+    const rows = match ? match.handler(params) : [];
+    return { rows, rowCount: rows.length };
+  }
+
+  async connect() {
+    return { query: this.query.bind(this), release: () => undefined };
+  }
+
+  find(pattern: RegExp): RecordedQuery[] {
+    return this.queries.filter(({ sql }) => pattern.test(sql));
+  }
+}
+
+// Replace a service's collaborators, which are private fields, with fakes
+export const inject = <T extends object>(service: T, fakes: Record<string, unknown>): T =>
+  Object.assign(service, fakes);
+
+export interface ReceivedRequest {
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+/**
+ * Local HTTP receiver for outbound webhooks. Responds with the statuses
+ * queued in `statuses`, then with 200.
+ */
+export const startReceiver = async (statuses: number[] = []) => {
+  const requests: ReceivedRequest[] = [];
+
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => {
+      body += chunk;
+    });
+    req.on('end', () => {
+      requests.push({ headers: req.headers, body });
+      res.statusCode = statuses.shift() ?? 200;
+      res.end('internal receiver details');
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}/hooks`,
+    requests,
+    close: () => new Promise<void>(resolve => server.close(() => resolve()))
+  };
+};
@@ -9,7 +9,9 @@ import QRScanner from '@/components/QRScanner';
 import UPIQRScanner from '@/components/UPIQRScanner';
 import UPIPaymentFlow from '@/components/UPIPaymentFlow';
 import TestQRCode from '@/components/TestQRCode';
-import aptosService from '@/services/aptosService';
+import RateChart from '@/components/RateChart';
+import aptosService, { PAYMENT_ASSET } from '@/services/aptosService';
+import { useRates } from '@/hooks/useRates';
 
 interface UPIData {
   payeeAddress: string;
@@ -27,7 +29,8 @@ export default function Home() {
   const [merchantData, setMerchantData] = useState<{ merchantId: string; merchantName: string; amount: number; currency: string; description?: string; upiId?: string } | null>(null);
   const [upiData, setUpiData] = useState<UPIData | null>(null);
   const [balance, setBalance] = useState<number>(0);
-  const [balanceInINR, setBalanceInINR] = useState<number>(0);
+  const { getRate } = useRates();
+  const assetRate = getRate(PAYMENT_ASSET);
 
   // Fetch balance when wallet connects
   useEffect(() => {
@@ -35,7 +38,6 @@ export default function Home() {
       fetchBalance();
     } else {
       setBalance(0);
-      setBalanceInINR(0);
     }
   }, [connected, account]);
 
@@ -44,10 +46,7 @@ export default function Home() {
     
     try {
       const addressString = typeof account.address === 'string' ? account.address : account.address.toString();
-      const aptBalance = await aptosService.getUSDCBalance(addressString);
-      setBalance(aptBalance);
-      // Convert APT to INR (mock rate: 1 APT = 830 INR)
-      setBalanceInINR(aptBalance * 830);
+      setBalance(await aptosService.getUSDCBalance(addressString));
     } catch (error) {
       console.error('Error fetching balance:', error);
     }
@@ -102,16 +101,21 @@ export default function Home() {
               </div>
               <div className="space-y-2">
                 <div className="flex justify-between">
-                  <span className="text-gray-600">APT</span>
+                  <span className="text-gray-600">{PAYMENT_ASSET}</span>
                   <span className="font-semibold">{balance.toFixed(6)}</span>
                 </div>
                 <div className="flex justify-between text-sm">
                   <span className="text-gray-500">≈ INR</span>
-                  <span className="text-gray-500">₹{balanceInINR.toFixed(2)}</span>
+                  <span className="text-gray-500">
+                    {assetRate !== undefined ? `₹${(balance * assetRate).toFixed(2)}` : 'Rate unavailable'}
+                  </span>
                 </div>
               </div>
             </div>
 
+            {/* Rate Trend */}
+            <RateChart asset={PAYMENT_ASSET} />
+
             {/* Action Buttons */}
             <div className="space-y-3">
               <button
@@ -0,0 +1,163 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useParams } from 'next/navigation';
+import QRCode from 'react-qr-code';
+import { CreditCard, AlertCircle, CheckCircle, Clock, Loader, ShieldCheck, ArrowRight } from 'lucide-react';
+import { useWallet } from '@aptos-labs/wallet-adapter-react';
+import WalletConnect from '@/components/WalletConnect';
+import UPIPaymentFlow from '@/components/UPIPaymentFlow';
+import { paymentService } from '@/services/paymentService';
+import type { PaymentLink } from '@/services/paymentService';
+
+export default function CheckoutPage() {
+  const { linkId } = useParams<{ linkId: string }>();
+  const { connected } = useWallet();
+  const [link, setLink] = useState<PaymentLink | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string>('');
+  const [paying, setPaying] = useState(false);
+
+  const fetchLink = useCallback(async () => {
+    setLoading(true);
+    setError('');
+
+    try {
+      const paymentLink = await paymentService.getPaymentLink(linkId);
+      if (!paymentLink || !paymentLink.merchant) {
+        setError('This payment link does not exist');
+      }
+      setLink(paymentLink);
+    } catch (err: unknown) {
+      console.error('Error fetching payment link:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load payment link');
+    } finally {
+      setLoading(false);
+    }
+  }, [linkId]);
+
+  useEffect(() => {
+    fetchLink();
+  }, [fetchLink]);
+
+  if (paying && link?.merchant) {
+    return (
+      <UPIPaymentFlow
+        upiData={{
+          payeeAddress: link.merchant.upiId,
+          payeeName: link.merchant.name,
+          amount: link.amountINR.toFixed(2),
+          transactionNote: link.description,
+          rawData: link.checkoutUrl
+        }}
+        paymentLink={{ id: link.id, merchantId: link.merchantId }}
+        onBack={() => setPaying(false)}
+        onSuccess={() => {
+          setPaying(false);
+          fetchLink();
+        }}
+      />
+    );
+  }
+
+  const renderStatus = (paymentLink: PaymentLink) => {
+    if (paymentLink.status === 'paid') {
+      return (
+        <div className="bg-green-50 rounded-xl p-4 flex items-center space-x-3">
+          <CheckCircle className="w-5 h-5 text-green-600" />
+          <span className="text-green-900 font-medium">This payment link has been paid</span>
+        </div>
+      );
+    }
+
+    if (paymentLink.status === 'expired') {
+      return (
+        <div className="bg-orange-50 rounded-xl p-4 flex items-center space-x-3">
+          <Clock className="w-5 h-5 text-orange-600" />
+          <span className="text-orange-900 font-medium">This payment link has expired</span>
+        </div>
+      );
+    }
+
+    return (
+      <button
+        onClick={() => setPaying(true)}
+        disabled={!connected}
+        className="w-full bg-gradient-to-r from-blue-600 to-indigo-600 text-white rounded-xl py-4 px-6 flex items-center justify-center space-x-3 font-semibold shadow-lg hover:shadow-xl transition-all disabled:from-gray-300 disabled:to-gray-300 disabled:cursor-not-allowed"
+      >
+        <span>{connected ? `Pay ₹${paymentLink.amountINR.toFixed(2)} with Crypto` : 'Connect a wallet to pay'}</span>
+        <ArrowRight className="w-5 h-5" />
+      </button>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100">
+      {/* Header */}
+      <header className="bg-white shadow-sm border-b">
+        <div className="max-w-md mx-auto px-4 py-4 flex items-center justify-between">
+          <div className="flex items-center space-x-2">
+            <div className="w-8 h-8 bg-gradient-to-r from-blue-600 to-indigo-600 rounded-lg flex items-center justify-center">
+              <CreditCard className="w-5 h-5 text-white" />
+            </div>
+            <h1 className="text-xl font-bold text-gray-900">AptPay</h1>
+          </div>
+          <WalletConnect />
+        </div>
+      </header>
+
+      <main className="max-w-md mx-auto px-4 py-6">
+        {loading && (
+          <div className="flex justify-center py-12">
+            <Loader className="w-8 h-8 text-blue-600 animate-spin" />
+          </div>
+        )}
+
+        {!loading && error && (
+          <div className="bg-white rounded-2xl p-6 shadow-lg text-center space-y-4">
+            <div className="w-16 h-16 bg-red-100 rounded-full flex items-center justify-center mx-auto">
+              <AlertCircle className="w-8 h-8 text-red-600" />
+            </div>
+            <p className="text-gray-600">{error}</p>
+          </div>
+        )}
+
+        {!loading && !error && link?.merchant && (
+          <div className="bg-white rounded-2xl p-6 shadow-lg space-y-6">
+            {/* Payment Request */}
+            <div className="text-center space-y-1">
+              <p className="text-gray-600 flex items-center justify-center">
+                {link.merchant.name}
+                {link.merchant.verified && <ShieldCheck className="w-4 h-4 ml-1 text-green-600" aria-label="Verified merchant" />}
+              </p>
+              <h2 className="text-3xl font-bold text-gray-900">₹{link.amountINR.toFixed(2)}</h2>
+              {link.description && <p className="text-gray-500 text-sm">{link.description}</p>}
+            </div>
+
+            {/* Link QR */}
+            <div className="flex justify-center">
+              <div className="bg-white p-4 rounded-xl border border-gray-200">
+                <QRCode value={link.checkoutUrl} size={180} />
+              </div>
+            </div>
+
+            <div className="space-y-2 text-sm">
+              <div className="flex justify-between">
+                <span className="text-gray-600">UPI ID:</span>
+                <span className="font-mono text-gray-900 text-xs">{link.merchant.upiId}</span>
+              </div>
+              {link.expiresAt && (
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Expires:</span>
+                  <span className="text-gray-900">{new Date(link.expiresAt).toLocaleString()}</span>
+                </div>
+              )}
+            </div>
+
+            {renderStatus(link)}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,50 @@
+'use client';
+
+import type { Payment } from '@/services/paymentService';
+
+interface DepositSummaryProps {
+  payment: Payment;
+}
+
+const formatAmount = (amount: number) => Number(amount.toFixed(8)).toString();
+
+export default function DepositSummary({ payment }: DepositSummaryProps) {
+  const difference = payment.amountReceived - payment.stablecoinAmount;
+
+  return (
+    <div className="bg-white rounded-xl p-4 border border-gray-200 space-y-2 text-sm">
+      <div className="flex justify-between">
+        <span className="text-gray-600">Expected</span>
+        <span className="text-gray-900">{formatAmount(payment.stablecoinAmount)} {payment.asset}</span>
+      </div>
+
+      <div className="flex justify-between">
+        <span className="text-gray-600">Received</span>
+        <span className="font-medium text-gray-900">{formatAmount(payment.amountReceived)} {payment.asset}</span>
+      </div>
+
+      {payment.status === 'awaiting_topup' && (
+        <div className="flex justify-between text-orange-600">
+          <span>Remaining</span>
+          <span className="font-medium">{formatAmount(-difference)} {payment.asset}</span>
+        </div>
+      )}
+
+      {payment.status !== 'awaiting_topup' && difference > 0 && (
+        <div className="border-t pt-2">
+          <div className="flex justify-between text-gray-600">
+            <span>Overpaid</span>
+            <span>{formatAmount(difference)} {payment.asset}</span>
+          </div>
+          <p className="text-xs text-gray-500 mt-1">Overpayments beyond the rounding tolerance are refunded to your wallet.</p>
+        </div>
+      )}
+
+      {payment.riskDecision === 'hold' && (
+        <p className="border-t pt-2 text-xs text-orange-600">
+          This payment is being reviewed. The merchant will be paid once the review is complete.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -1,9 +1,15 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState } from 'react';
 import { ArrowLeft, Check, Clock, AlertCircle, ExternalLink } from 'lucide-react';
 import { useWallet } from '@aptos-labs/wallet-adapter-react';
-import aptosService from '@/services/aptosService';
+import aptosService, { PAYMENT_ASSET } from '@/services/aptosService';
+import { paymentService } from '@/services/paymentService';
+import type { Payment } from '@/services/paymentService';
+import { useQuote } from '@/hooks/useQuote';
+import QuoteSummary from '@/components/QuoteSummary';
+import RateChart from '@/components/RateChart';
+import DepositSummary from '@/components/DepositSummary';
 
 interface PaymentFlowProps {
   merchantData: {
@@ -23,27 +29,50 @@ type PaymentStatus = 'review' | 'processing' | 'success' | 'failed';
 export default function PaymentFlow({ merchantData, onBack, onComplete }: PaymentFlowProps) {
   const { account, connected, signAndSubmitTransaction } = useWallet();
   const [status, setStatus] = useState<PaymentStatus>('review');
-  const [exchangeRate, setExchangeRate] = useState<number>(830); // INR per APT
-  const [aptAmount, setAptAmount] = useState<number>(0);
   const [transactionHash, setTransactionHash] = useState<string>('');
   const [error, setError] = useState<string>('');
+  const [settledPayment, setSettledPayment] = useState<Payment | null>(null);
+  const [escrowAddress, setEscrowAddress] = useState<string>('');
 
-  useEffect(() => {
-    // Calculate APT amount based on INR amount and exchange rate
-    const calculatedAptAmount = merchantData.amount / exchangeRate;
-    setAptAmount(Number(calculatedAptAmount.toFixed(6)));
-    
-    // Fetch real-time exchange rate
-    fetchExchangeRate();
-  }, [merchantData.amount]);
+  const { quote, secondsLeft, loading: quoteLoading, error: quoteError, refresh: refreshQuote } =
+    useQuote(merchantData.amount, account?.address?.toString(), status === 'review', PAYMENT_ASSET, merchantData.merchantId);
+
+  const sendToEscrow = async (escrow: string, amount: number): Promise<string> => {
+    const transaction = {
+      data: {
+        function: "0x1::coin::transfer",
+        functionArguments: [
+          escrow,
+          aptosService.parseAmount(amount).toString()
+        ]
+      }
+    };
+
+    // Sign and submit transaction
+    const response = await (window as any).aptos.signAndSubmitTransaction(transaction);
+    const txHash = typeof response === 'string' ? response : response.hash;
+    setTransactionHash(txHash);
+
+    // Wait for transaction confirmation
+    await aptosService.waitForTransaction(txHash);
+    return txHash;
+  };
+
+  // Send the outstanding part of an underpaid payment
+  const handleTopUp = async () => {
+    if (!settledPayment) return;
+
+    setStatus('processing');
+    setError('');
 
-  const fetchExchangeRate = async () => {
     try {
-      // This would typically call your backend API
-      // For now, we'll use a mock rate: 1 APT = 830 INR
-      setExchangeRate(830);
+      const txHash = await sendToEscrow(escrowAddress, settledPayment.stablecoinAmount - settledPayment.amountReceived);
+      setSettledPayment(await paymentService.updatePaymentStatus(settledPayment.id, 'confirmed', txHash));
+      setStatus('success');
     } catch (error) {
-      console.error('Failed to fetch exchange rate:', error);
+      console.error('Top-up failed:', error);
+      setError(`Top-up failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      setStatus('failed');
     }
   };
 
@@ -53,33 +82,31 @@ export default function PaymentFlow({ merchantData, onBack, onComplete }: Paymen
       return;
     }
 
+    if (!quote || secondsLeft === 0) {
+      setError('Your quote has expired, please wait for a fresh rate');
+      return;
+    }
+
     setStatus('processing');
     setError('');
 
     try {
-      // Create APT transfer transaction using the Aptos SDK
-      const escrowAddress = '0x1234567890abcdef1234567890abcdef1234567890abcdef1234567890abcdef';
-      
-      const transaction = {
-        data: {
-          function: "0x1::coin::transfer",
-          functionArguments: [
-            escrowAddress,
-            aptosService.parseAmount(aptAmount).toString()
-          ]
-        }
-      };
-
-      // Sign and submit transaction
-      const response = await (window as any).aptos.signAndSubmitTransaction(transaction);
-      const txHash = typeof response === 'string' ? response : response.hash;
-      setTransactionHash(txHash);
-
-      // Wait for transaction confirmation
-      await aptosService.waitForTransaction(txHash);
-
-      // Call backend to initiate UPI payout
-      await initiateUpiPayout(txHash);
+      // Lock the quoted price in a payment record before signing
+      const payment = await paymentService.createPayment({
+        merchantId: merchantData.merchantId,
+        quoteId: quote.id,
+        walletAddress: account.address.toString(),
+        merchantName: merchantData.merchantName,
+        merchantUpiId: merchantData.upiId
+      });
+
+      // Transfer the quoted amount into escrow
+      const escrow = payment.escrowAddress || '0x1234567890abcdef1234567890abcdef1234567890abcdef1234567890abcdef';
+      setEscrowAddress(escrow);
+      const txHash = await sendToEscrow(escrow, quote.cryptoAmount);
+
+      // Confirm the deposit with the backend, which queues the UPI payout
+      setSettledPayment(await paymentService.updatePaymentStatus(payment.transactionId, 'confirmed', txHash));
       
       setStatus('success');
     } catch (error) {
@@ -89,31 +116,6 @@ export default function PaymentFlow({ merchantData, onBack, onComplete }: Paymen
     }
   };
 
-  const initiateUpiPayout = async (txHash: string) => {
-    try {
-      const response = await fetch('/api/payments/initiate', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          merchantId: merchantData.merchantId,
-          amount: merchantData.amount,
-          currency: merchantData.currency,
-          transactionHash: txHash,
-          upiId: merchantData.upiId,
-        }),
-      });
-
-      if (!response.ok) {
-        throw new Error('Failed to initiate UPI payout');
-      }
-    } catch (error) {
-      console.error('UPI payout initiation failed:', error);
-      // Don't fail the entire payment for this
-    }
-  };
-
   const renderReviewStep = () => (
     <div className="space-y-6">
       {/* Header */}
@@ -150,23 +152,16 @@ export default function PaymentFlow({ merchantData, onBack, onComplete }: Paymen
       <div className="bg-white rounded-2xl p-6 border">
         <h4 className="font-semibold text-gray-900 mb-4">Payment Details</h4>
         
-        <div className="space-y-3">
-          <div className="flex justify-between">
-            <span className="text-gray-600">Amount (INR)</span>
-            <span className="font-semibold">₹{merchantData.amount.toFixed(2)}</span>
-          </div>
-          
-          <div className="flex justify-between">
-            <span className="text-gray-600">Exchange Rate</span>
-            <span className="text-sm text-gray-500">1 APT = ₹{exchangeRate}</span>
-          </div>
-          
-          <div className="border-t pt-3">
-            <div className="flex justify-between">
-              <span className="text-gray-600">You Pay (APT)</span>
-              <span className="font-semibold text-lg">{aptAmount} APT</span>
-            </div>
-          </div>
+        <QuoteSummary
+          quote={quote}
+          secondsLeft={secondsLeft}
+          loading={quoteLoading}
+          error={quoteError}
+          onRefresh={refreshQuote}
+        />
+
+        <div className="mt-4">
+          <RateChart asset={PAYMENT_ASSET} lockedRate={quote?.rate} />
         </div>
       </div>
 
@@ -179,7 +174,7 @@ export default function PaymentFlow({ merchantData, onBack, onComplete }: Paymen
           <div>
             <p className="text-blue-900 font-medium text-sm">Payment Process</p>
             <p className="text-blue-700 text-sm">
-              Your APT will be transferred to an escrow wallet. The merchant will receive INR via UPI instantly.
+              Your {quote?.fromCurrency || 'crypto'} will be transferred to an escrow wallet. The merchant will receive INR via UPI instantly.
             </p>
           </div>
         </div>
@@ -199,10 +194,10 @@ export default function PaymentFlow({ merchantData, onBack, onComplete }: Paymen
       {/* Pay Button */}
       <button
         onClick={handlePayment}
-        disabled={!connected}
+        disabled={!connected || !quote || quoteLoading || secondsLeft === 0}
         className="w-full bg-gradient-to-r from-blue-600 to-indigo-600 text-white rounded-xl py-4 px-6 font-semibold shadow-lg hover:shadow-xl transition-all disabled:opacity-50 disabled:cursor-not-allowed"
       >
-        {connected ? `Pay ${aptAmount} APT` : 'Connect Wallet to Pay'}
+        {!connected ? 'Connect Wallet to Pay' : quote ? `Pay ${quote.cryptoAmount} ${quote.fromCurrency}` : 'Fetching quote...'}
       </button>
     </div>
   );
@@ -221,7 +216,32 @@ export default function PaymentFlow({ merchantData, onBack, onComplete }: Paymen
     </div>
   );
 
-  const renderSuccessStep = () => (
+  const renderTopUpStep = (payment: Payment) => (
+    <div className="space-y-6 text-center">
+      <div className="bg-white rounded-2xl p-8 border">
+        <div className="w-16 h-16 bg-orange-100 rounded-full flex items-center justify-center mx-auto mb-4">
+          <AlertCircle className="w-8 h-8 text-orange-600" />
+        </div>
+        <h3 className="text-xl font-bold text-gray-900 mb-2">Partial Payment Received</h3>
+        <p className="text-gray-600 mb-4">
+          Send the remaining amount to complete your payment to {merchantData.merchantName}.
+        </p>
+
+        <div className="text-left">
+          <DepositSummary payment={payment} />
+        </div>
+      </div>
+
+      <button
+        onClick={handleTopUp}
+        className="w-full bg-gradient-to-r from-blue-600 to-indigo-600 text-white rounded-xl py-4 px-6 font-semibold shadow-lg hover:shadow-xl transition-all"
+      >
+        Send Remaining {Number((payment.stablecoinAmount - payment.amountReceived).toFixed(8))} {payment.asset}
+      </button>
+    </div>
+  );
+
+  const renderSuccessStep = () => settledPayment?.status === 'awaiting_topup' ? renderTopUpStep(settledPayment) : (
     <div className="space-y-6 text-center">
       <div className="bg-white rounded-2xl p-8 border">
         <div className="w-16 h-16 bg-green-100 rounded-full flex items-center justify-center mx-auto mb-4">
@@ -231,6 +251,12 @@ export default function PaymentFlow({ merchantData, onBack, onComplete }: Paymen
         <p className="text-gray-600 mb-4">
           Your payment has been processed successfully. The merchant will receive INR via UPI.
         </p>
+
+        {settledPayment && (
+          <div className="text-left mb-4">
+            <DepositSummary payment={settledPayment} />
+          </div>
+        )}
         
         {transactionHash && (
           <div className="bg-gray-50 rounded-lg p-4 mb-4">
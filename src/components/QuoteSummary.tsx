@@ -0,0 +1,89 @@
+'use client';
+
+import { Clock, RefreshCw } from 'lucide-react';
+import type { Quote } from '@/services/paymentService';
+
+interface QuoteSummaryProps {
+  quote: Quote | null;
+  secondsLeft: number;
+  loading: boolean;
+  error?: string;
+  onRefresh: () => void;
+}
+
+const formatCountdown = (seconds: number) => {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${(seconds % 60).toString().padStart(2, '0')}`;
+};
+
+export default function QuoteSummary({ quote, secondsLeft, loading, error, onRefresh }: QuoteSummaryProps) {
+  if (error) {
+    return (
+      <div className="bg-red-50 border border-red-200 rounded-xl p-4 flex items-center justify-between">
+        <p className="text-red-700 text-sm">{error}</p>
+        <button onClick={onRefresh} className="text-red-700 hover:text-red-800">
+          <RefreshCw className="w-4 h-4" />
+        </button>
+      </div>
+    );
+  }
+
+  if (!quote) {
+    return (
+      <div className="bg-gray-50 rounded-xl p-4 text-sm text-gray-500 text-center">
+        {loading ? 'Fetching live rate...' : 'Enter an amount to get a quote'}
+      </div>
+    );
+  }
+
+  // Fees are charged on top of the amount the merchant receives
+  const totalINR = quote.amountINR + quote.fees.reduce((sum, fee) => sum + fee.amountINR, 0);
+
+  return (
+    <div className="bg-white rounded-xl p-4 border border-gray-200 space-y-3">
+      <div className="flex justify-between text-sm">
+        <span className="text-gray-600">Exchange Rate</span>
+        <span className="text-gray-900">1 {quote.fromCurrency} = ₹{quote.rate.toFixed(2)}</span>
+      </div>
+
+      <div className="flex justify-between text-sm">
+        <span className="text-gray-600">Amount (INR)</span>
+        <span className="text-gray-900">₹{quote.amountINR.toFixed(2)}</span>
+      </div>
+
+      {quote.fees.map(fee => (
+        <div key={fee.type} className="flex justify-between text-sm">
+          <span className="text-gray-600">{fee.label}</span>
+          <span className="text-gray-900">₹{fee.amountINR.toFixed(2)}</span>
+        </div>
+      ))}
+
+      {quote.fees.length > 0 && (
+        <div className="flex justify-between text-sm font-medium">
+          <span className="text-gray-700">Total (INR)</span>
+          <span className="text-gray-900">₹{totalINR.toFixed(2)}</span>
+        </div>
+      )}
+
+      <div className="border-t pt-3 flex justify-between">
+        <span className="text-gray-600">You Pay</span>
+        <span className="font-semibold text-lg">{quote.cryptoAmount} {quote.fromCurrency}</span>
+      </div>
+
+      <div className="flex items-center justify-between text-xs">
+        <span className={`flex items-center ${secondsLeft <= 15 ? 'text-orange-600' : 'text-gray-500'}`}>
+          <Clock className="w-3 h-3 mr-1" />
+          {loading ? 'Refreshing rate...' : `Rate locked for ${formatCountdown(secondsLeft)}`}
+        </span>
+        <button
+          onClick={onRefresh}
+          disabled={loading}
+          className="flex items-center text-blue-600 hover:text-blue-700 disabled:text-gray-400"
+        >
+          <RefreshCw className={`w-3 h-3 mr-1 ${loading ? 'animate-spin' : ''}`} />
+          Refresh
+        </button>
+      </div>
+    </div>
+  );
+}
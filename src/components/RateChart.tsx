@@ -0,0 +1,84 @@
+'use client';
+
+import { TrendingUp, TrendingDown } from 'lucide-react';
+import { useRateHistory } from '@/hooks/useRateHistory';
+
+interface RateChartProps {
+  asset: string;
+  // Rate the current quote is locked at, drawn as a reference line
+  lockedRate?: number;
+}
+
+const WIDTH = 300;
+const HEIGHT = 80;
+const PADDING = 4;
+
+export default function RateChart({ asset, lockedRate }: RateChartProps) {
+  const { candles, loading, error } = useRateHistory(asset);
+
+  if (error || candles.length === 0) {
+    return (
+      <div className="bg-gray-50 rounded-xl p-4 text-sm text-gray-500 text-center">
+        {loading ? 'Loading rate history...' : 'No rate history yet'}
+      </div>
+    );
+  }
+
+  const values = [
+    ...candles.flatMap(candle => [candle.high, candle.low]),
+    ...(lockedRate !== undefined ? [lockedRate] : [])
+  ];
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const range = max - min || max * 0.001 || 1;
+
+  const x = (index: number) =>
+    candles.length === 1 ? WIDTH / 2 : PADDING + (index / (candles.length - 1)) * (WIDTH - PADDING * 2);
+  const y = (value: number) => PADDING + (1 - (value - min) / range) * (HEIGHT - PADDING * 2);
+
+  const closeLine = candles.map((candle, index) => `${x(index)},${y(candle.close)}`).join(' ');
+  // High/low band: along the highs, then back along the lows
+  const band = [
+    ...candles.map((candle, index) => `${x(index)},${y(candle.high)}`),
+    ...candles.map((candle, index) => `${x(index)},${y(candle.low)}`).reverse()
+  ].join(' ');
+
+  const first = candles[0].open;
+  const last = candles[candles.length - 1].close;
+  const change = ((last - first) / first) * 100;
+  const rising = change >= 0;
+
+  return (
+    <div className="bg-white rounded-xl p-4 border border-gray-200 space-y-2">
+      <div className="flex items-center justify-between text-sm">
+        <span className="text-gray-600">{asset}/INR · 24h</span>
+        <span className={`flex items-center ${rising ? 'text-green-600' : 'text-red-600'}`}>
+          {rising ? <TrendingUp className="w-3 h-3 mr-1" /> : <TrendingDown className="w-3 h-3 mr-1" />}
+          {rising ? '+' : ''}{change.toFixed(2)}%
+        </span>
+      </div>
+
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-20" preserveAspectRatio="none" role="img" aria-label={`${asset} to INR rate over the last 24 hours`}>
+        <polygon points={band} className="fill-blue-100" />
+        <polyline points={closeLine} fill="none" strokeWidth={1.5} className="stroke-blue-600" />
+        {lockedRate !== undefined && (
+          <line
+            x1={0}
+            x2={WIDTH}
+            y1={y(lockedRate)}
+            y2={y(lockedRate)}
+            strokeWidth={1}
+            strokeDasharray="4 3"
+            className="stroke-orange-500"
+          />
+        )}
+      </svg>
+
+      <div className="flex justify-between text-xs text-gray-500">
+        <span>Low ₹{Math.min(...candles.map(candle => candle.low)).toFixed(2)}</span>
+        {lockedRate !== undefined && <span className="text-orange-600">Your rate ₹{lockedRate.toFixed(2)}</span>}
+        <span>High ₹{Math.max(...candles.map(candle => candle.high)).toFixed(2)}</span>
+      </div>
+    </div>
+  );
+}
@@ -1,10 +1,17 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { ArrowLeft, User, CreditCard, AlertCircle, CheckCircle, Loader } from 'lucide-react';
+import { ArrowLeft, User, CreditCard, AlertCircle, AlertTriangle, CheckCircle, Loader, ShieldCheck } from 'lucide-react';
 import { useWallet } from '@aptos-labs/wallet-adapter-react';
-import aptosService from '@/services/aptosService';
+import aptosService, { PAYMENT_ASSET } from '@/services/aptosService';
 import { paymentService } from '@/services/paymentService';
+import type { Payment } from '@/services/paymentService';
+import { useQuote } from '@/hooks/useQuote';
+import { useRates } from '@/hooks/useRates';
+import { useVpaVerification } from '@/hooks/useVpaVerification';
+import QuoteSummary from '@/components/QuoteSummary';
+import RateChart from '@/components/RateChart';
+import DepositSummary from '@/components/DepositSummary';
 
 interface UPIData {
   payeeAddress: string;
@@ -18,11 +25,13 @@ interface UPIData {
 
 interface UPIPaymentFlowProps {
   upiData: UPIData;
+  // Set when paying a merchant payment link; its amount can't be changed
+  paymentLink?: { id: string; merchantId: string };
   onBack: () => void;
   onSuccess: () => void;
 }
 
-export default function UPIPaymentFlow({ upiData, onBack, onSuccess }: UPIPaymentFlowProps) {
+export default function UPIPaymentFlow({ upiData, paymentLink, onBack, onSuccess }: UPIPaymentFlowProps) {
   const { account, connected } = useWallet();
   const [balance, setBalance] = useState<number>(0);
   const [step, setStep] = useState<'review' | 'processing' | 'success' | 'error'>('review');
@@ -30,6 +39,28 @@ export default function UPIPaymentFlow({ upiData, onBack, onSuccess }: UPIPaymen
   const [transactionHash, setTransactionHash] = useState<string>('');
   const [error, setError] = useState<string>('');
   const [processingStep, setProcessingStep] = useState<string>('');
+  const [settledPayment, setSettledPayment] = useState<Payment | null>(null);
+  const [escrowAddress, setEscrowAddress] = useState<string>('');
+  const [merchantVerified, setMerchantVerified] = useState(false);
+  const [payeeWarningAcknowledged, setPayeeWarningAcknowledged] = useState(false);
+
+  const walletAddress = account?.address?.toString();
+  const amountINR = parseFloat(customAmount) || 0;
+  const { quote, secondsLeft, loading: quoteLoading, error: quoteError, refresh: refreshQuote } =
+    useQuote(
+      amountINR,
+      walletAddress,
+      step === 'review',
+      PAYMENT_ASSET,
+      paymentLink?.merchantId || upiData.payeeAddress
+    );
+  const { getRate } = useRates();
+  const assetRate = getRate(PAYMENT_ASSET);
+
+  // Payment links come from the merchant's own record, so only scanned codes need checking
+  const { beneficiary, loading: beneficiaryLoading, nameMatches } =
+    useVpaVerification(paymentLink ? '' : upiData.payeeAddress, upiData.payeeName);
+  const payeeWarning = nameMatches === false || beneficiary?.verified === false;
 
   // Fetch balance when component mounts
   useEffect(() => {
@@ -51,20 +82,72 @@ export default function UPIPaymentFlow({ upiData, onBack, onSuccess }: UPIPaymen
     }
   };
 
+  const sendToEscrow = async (escrow: string, amount: number): Promise<string> => {
+    const transaction = {
+      data: {
+        function: "0x1::coin::transfer",
+        functionArguments: [
+          escrow,
+          aptosService.parseAmount(amount).toString()
+        ]
+      }
+    };
+
+    setProcessingStep('Signing transaction...');
+    const response = await (window as unknown as { aptos: { signAndSubmitTransaction: (tx: unknown) => Promise<unknown> } }).aptos.signAndSubmitTransaction(transaction);
+    const txHash = (response as any).hash || response;
+    setTransactionHash(txHash);
+
+    setProcessingStep('Waiting for confirmation...');
+    await aptosService.waitForTransaction(txHash);
+    return txHash;
+  };
+
+  // Send the outstanding part of an underpaid payment
+  const handleTopUp = async () => {
+    if (!settledPayment) return;
+
+    setStep('processing');
+    setError('');
+
+    try {
+      const remaining = settledPayment.stablecoinAmount - settledPayment.amountReceived;
+      const txHash = await sendToEscrow(escrowAddress, remaining);
+
+      setProcessingStep('Confirming top-up...');
+      setSettledPayment(await paymentService.updatePaymentStatus(settledPayment.id, 'confirmed', txHash));
+      setStep('success');
+    } catch (err: unknown) {
+      console.error('Top-up failed:', err);
+      setError(err instanceof Error ? err.message : 'Top-up failed. Please try again.');
+      setStep('error');
+    }
+  };
+
   const handlePayment = async () => {
     if (!account) {
       setError('Please connect your wallet first');
       return;
     }
 
-    if (!customAmount || parseFloat(customAmount) <= 0) {
+    if (!customAmount || amountINR <= 0) {
       setError('Please enter a valid amount');
       return;
     }
 
-    const amountInUSDC = parseFloat(customAmount);
-    if (amountInUSDC > balance) {
-      setError(`Insufficient balance. You have ${balance} USDC`);
+    if (!quote || secondsLeft === 0) {
+      setError('Your quote has expired, please wait for a fresh rate');
+      return;
+    }
+
+    if (payeeWarning && !payeeWarningAcknowledged) {
+      setError('Please confirm the payee before paying');
+      return;
+    }
+
+    const cryptoAmount = quote.cryptoAmount;
+    if (cryptoAmount > balance) {
+      setError(`Insufficient balance. You have ${balance} ${quote.fromCurrency}`);
       return;
     }
 
@@ -75,55 +158,26 @@ export default function UPIPaymentFlow({ upiData, onBack, onSuccess }: UPIPaymen
       // Step 1: Create payment record
       setProcessingStep('Creating payment record...');
       const paymentData = {
-        merchantId: upiData.payeeAddress,
-        amountINR: amountInUSDC * 83, // Convert USDC to INR for backend
+        merchantId: paymentLink?.merchantId || upiData.payeeAddress,
+        quoteId: quote.id,
         walletAddress: account!.address.toString(),
-        merchantUpiId: upiData.payeeAddress
+        merchantName: upiData.payeeName,
+        merchantUpiId: upiData.payeeAddress,
+        paymentLinkId: paymentLink?.id
       };
 
       const payment = await paymentService.createPayment(paymentData);
+      setMerchantVerified(payment.merchantVerified);
       
-      // Step 2: Create Aptos transaction
+      // Step 2: Create, sign and submit the Aptos transaction, then wait for it
       setProcessingStep('Creating blockchain transaction...');
-      const transaction = {
-        data: {
-          function: "0x1::coin::transfer",
-          functionArguments: [
-            "0x742d35Cc6634C0532925a3b8D400E4C0C0C0C0C0", // Treasury address
-            aptosService.parseAmount(amountInUSDC).toString()
-          ]
-        }
-      };
+      const escrow = payment.escrowAddress || "0x742d35Cc6634C0532925a3b8D400E4C0C0C0C0C0"; // Treasury address
+      setEscrowAddress(escrow);
+      const txHash = await sendToEscrow(escrow, cryptoAmount);
 
-      // Step 3: Sign and submit transaction
-      setProcessingStep('Signing transaction...');
-      const response = await (window as unknown as { aptos: { signAndSubmitTransaction: (tx: unknown) => Promise<unknown> } }).aptos.signAndSubmitTransaction(transaction);
-      const txHash = (response as any).hash || response;
-      setTransactionHash(txHash);
-
-      // Step 4: Wait for confirmation
-      setProcessingStep('Waiting for confirmation...');
-      await aptosService.waitForTransaction(txHash);
-
-      // Step 5: Update payment status
-      setProcessingStep('Updating payment status...');
-      await paymentService.updatePaymentStatus(payment.id, 'completed', txHash);
-
-      // Step 6: Initiate UPI payout (if applicable)
-      if (upiData.payeeAddress && upiData.payeeAddress.includes('@')) {
-        setProcessingStep('Initiating UPI payout...');
-        try {
-          await paymentService.initiateUPIPayout({
-            paymentId: payment.id,
-            upiId: upiData.payeeAddress,
-            amount: amountInUSDC,
-            merchantName: upiData.payeeName
-          });
-        } catch (payoutError) {
-          console.warn('UPI payout failed, but payment was successful:', payoutError);
-          // Don't fail the entire transaction for payout issues
-        }
-      }
+      // Step 3: Confirm the deposit; the backend queues the UPI payout from here
+      setProcessingStep('Confirming payment...');
+      setSettledPayment(await paymentService.updatePaymentStatus(payment.transactionId, 'confirmed', txHash));
 
       setStep('success');
     } catch (err: unknown) {
@@ -135,6 +189,39 @@ export default function UPIPaymentFlow({ upiData, onBack, onSuccess }: UPIPaymen
 
   const renderReviewStep = () => (
     <div className="space-y-6">
+      {/* Payee Check */}
+      {payeeWarning && beneficiary && (
+        <div className="bg-red-50 border-2 border-red-500 rounded-xl p-4" role="alert">
+          <h3 className="font-semibold text-red-900 mb-2 flex items-center">
+            <AlertTriangle className="w-5 h-5 mr-2 text-red-600" />
+            {beneficiary.verified ? 'Payee name does not match' : 'UPI ID could not be verified'}
+          </h3>
+          {beneficiary.verified ? (
+            <p className="text-sm text-red-800">
+              This QR code says <span className="font-semibold">{upiData.payeeName}</span>, but the UPI ID is
+              registered to <span className="font-semibold">{beneficiary.name}</span>. The QR code may have been
+              tampered with or replaced with a fraudulent sticker.
+            </p>
+          ) : (
+            <p className="text-sm text-red-800">
+              The bank could not confirm who {upiData.payeeAddress} belongs to. The QR code may be fraudulent.
+            </p>
+          )}
+          <p className="text-sm text-red-800 mt-2">
+            Check with the merchant before you pay. Payments can&apos;t be reversed once made.
+          </p>
+          <label className="flex items-start mt-3 text-sm text-red-900">
+            <input
+              type="checkbox"
+              checked={payeeWarningAcknowledged}
+              onChange={(e) => setPayeeWarningAcknowledged(e.target.checked)}
+              className="mt-0.5 mr-2"
+            />
+            I have confirmed this is the right payee
+          </label>
+        </div>
+      )}
+
       {/* UPI Details */}
       <div className="bg-blue-50 rounded-xl p-4">
         <h3 className="font-semibold text-blue-900 mb-3 flex items-center">
@@ -150,6 +237,15 @@ export default function UPIPaymentFlow({ upiData, onBack, onSuccess }: UPIPaymen
             <span className="text-blue-700">UPI ID:</span>
             <span className="font-mono text-blue-900 text-xs">{upiData.payeeAddress}</span>
           </div>
+          {!paymentLink && (
+            <div className="flex justify-between">
+              <span className="text-blue-700">Registered name:</span>
+              <span className="font-medium text-blue-900 flex items-center">
+                {beneficiaryLoading ? 'Checking...' : beneficiary?.name || 'Unavailable'}
+                {nameMatches && <ShieldCheck className="w-4 h-4 ml-1 text-green-600" aria-label="Name matches QR code" />}
+              </span>
+            </div>
+          )}
           {upiData.merchantCode && (
             <div className="flex justify-between">
               <span className="text-blue-700">Merchant Code:</span>
@@ -168,29 +264,42 @@ export default function UPIPaymentFlow({ upiData, onBack, onSuccess }: UPIPaymen
       {/* Amount Input */}
       <div className="bg-white rounded-xl p-4 border border-gray-200">
         <label className="block text-sm font-medium text-gray-700 mb-2">
-          Amount (USDC)
+          Amount (INR)
         </label>
         <div className="relative">
           <input
             type="number"
             value={customAmount}
             onChange={(e) => setCustomAmount(e.target.value)}
+            readOnly={!!paymentLink}
             placeholder="Enter amount"
-            className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-lg"
+            className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-lg read-only:bg-gray-50"
             step="0.01"
             min="0"
           />
           <div className="absolute right-3 top-3 text-gray-500 font-medium">
-            USDC
+            INR
           </div>
         </div>
-        {upiData.amount && (
+        {upiData.amount && !paymentLink && (
           <p className="text-sm text-gray-600 mt-2">
             Original amount from QR: ₹{upiData.amount}
           </p>
         )}
       </div>
 
+      {/* Locked Quote */}
+      <QuoteSummary
+        quote={quote}
+        secondsLeft={secondsLeft}
+        loading={quoteLoading}
+        error={quoteError}
+        onRefresh={refreshQuote}
+      />
+
+      {/* Recent Rate Trend */}
+      <RateChart asset={PAYMENT_ASSET} lockedRate={quote?.rate} />
+
       {/* Wallet Info */}
       <div className="bg-green-50 rounded-xl p-4">
         <h3 className="font-semibold text-green-900 mb-3 flex items-center">
@@ -200,8 +309,14 @@ export default function UPIPaymentFlow({ upiData, onBack, onSuccess }: UPIPaymen
         <div className="space-y-2 text-sm">
           <div className="flex justify-between">
             <span className="text-green-700">Balance:</span>
-            <span className="font-medium text-green-900">{balance} USDC</span>
+            <span className="font-medium text-green-900">{balance} {PAYMENT_ASSET}</span>
           </div>
+          {assetRate !== undefined && (
+            <div className="flex justify-between">
+              <span className="text-green-700">≈ INR:</span>
+              <span className="text-green-900">₹{(balance * assetRate).toFixed(2)}</span>
+            </div>
+          )}
           <div className="flex justify-between">
             <span className="text-green-700">Address:</span>
             <span className="font-mono text-green-900 text-xs">
@@ -215,10 +330,13 @@ export default function UPIPaymentFlow({ upiData, onBack, onSuccess }: UPIPaymen
       <div className="space-y-3">
         <button
           onClick={handlePayment}
-          disabled={!account || !customAmount || parseFloat(customAmount) <= 0 || parseFloat(customAmount) > balance}
+          disabled={
+            !account || !quote || quoteLoading || secondsLeft === 0 || quote.cryptoAmount > balance ||
+            (payeeWarning && !payeeWarningAcknowledged)
+          }
           className="w-full bg-blue-600 text-white rounded-xl py-4 px-6 font-semibold hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors"
         >
-          Pay {customAmount} USDC
+          {quote ? `Pay ${quote.cryptoAmount} ${quote.fromCurrency}` : 'Pay'}
         </button>
         
         <button
@@ -250,7 +368,7 @@ export default function UPIPaymentFlow({ upiData, onBack, onSuccess }: UPIPaymen
           </div>
           <div className="flex justify-between">
             <span className="text-blue-700">Amount:</span>
-            <span className="font-medium text-blue-900">{customAmount} USDC</span>
+            <span className="font-medium text-blue-900">{quote?.cryptoAmount} {quote?.fromCurrency} (₹{quote?.amountINR})</span>
           </div>
           {transactionHash && (
             <div className="flex justify-between">
@@ -265,7 +383,31 @@ export default function UPIPaymentFlow({ upiData, onBack, onSuccess }: UPIPaymen
     </div>
   );
 
-  const renderSuccessStep = () => (
+  const renderTopUpStep = (payment: Payment) => (
+    <div className="text-center space-y-6">
+      <div className="w-16 h-16 bg-orange-100 rounded-full flex items-center justify-center mx-auto">
+        <AlertCircle className="w-8 h-8 text-orange-600" />
+      </div>
+
+      <div>
+        <h3 className="text-xl font-semibold text-gray-900 mb-2">Partial Payment Received</h3>
+        <p className="text-gray-600">Send the remaining amount to complete the payment to {upiData.payeeName}</p>
+      </div>
+
+      <div className="text-left">
+        <DepositSummary payment={payment} />
+      </div>
+
+      <button
+        onClick={handleTopUp}
+        className="w-full bg-blue-600 text-white rounded-xl py-4 px-6 font-semibold hover:bg-blue-700 transition-colors"
+      >
+        Send Remaining {Number((payment.stablecoinAmount - payment.amountReceived).toFixed(8))} {payment.asset}
+      </button>
+    </div>
+  );
+
+  const renderSuccessStep = () => settledPayment?.status === 'awaiting_topup' ? renderTopUpStep(settledPayment) : (
     <div className="text-center space-y-6">
       <div className="w-16 h-16 bg-green-100 rounded-full flex items-center justify-center mx-auto">
         <CheckCircle className="w-8 h-8 text-green-600" />
@@ -275,16 +417,25 @@ export default function UPIPaymentFlow({ upiData, onBack, onSuccess }: UPIPaymen
         <h3 className="text-xl font-semibold text-gray-900 mb-2">Payment Successful!</h3>
         <p className="text-gray-600">Your payment has been processed successfully</p>
       </div>
+
+      {settledPayment && (
+        <div className="text-left">
+          <DepositSummary payment={settledPayment} />
+        </div>
+      )}
       
       <div className="bg-green-50 rounded-xl p-4">
         <div className="space-y-2 text-sm">
           <div className="flex justify-between">
             <span className="text-green-700">Paid to:</span>
-            <span className="font-medium text-green-900">{upiData.payeeName}</span>
+            <span className="font-medium text-green-900 flex items-center">
+              {upiData.payeeName}
+              {merchantVerified && <ShieldCheck className="w-4 h-4 ml-1 text-green-600" aria-label="Verified merchant" />}
+            </span>
           </div>
           <div className="flex justify-between">
             <span className="text-green-700">Amount:</span>
-            <span className="font-medium text-green-900">{customAmount} USDC</span>
+            <span className="font-medium text-green-900">{quote?.cryptoAmount} {quote?.fromCurrency} (₹{quote?.amountINR})</span>
           </div>
           <div className="flex justify-between">
             <span className="text-green-700">Transaction:</span>
@@ -307,7 +458,7 @@ export default function UPIPaymentFlow({ upiData, onBack, onSuccess }: UPIPaymen
           onClick={onBack}
           className="w-full bg-gray-500 text-white rounded-xl py-3 px-6 font-semibold hover:bg-gray-600 transition-colors"
         >
-          Scan Another QR
+          {paymentLink ? 'Back to Checkout' : 'Scan Another QR'}
         </button>
       </div>
     </div>
@@ -354,7 +505,7 @@ export default function UPIPaymentFlow({ upiData, onBack, onSuccess }: UPIPaymen
           >
             <ArrowLeft className="w-6 h-6 text-gray-700" />
           </button>
-          <h1 className="text-2xl font-bold text-gray-900">UPI Payment</h1>
+          <h1 className="text-2xl font-bold text-gray-900">{paymentLink ? 'Checkout' : 'UPI Payment'}</h1>
         </div>
 
         {/* Content */}
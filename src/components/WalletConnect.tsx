@@ -1,18 +1,24 @@
 'use client';
 
-import { useState, useEffect } from 'react';
-import { Wallet, ChevronDown, LogOut } from 'lucide-react';
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { Wallet, ChevronDown, LogOut, ShieldCheck } from 'lucide-react';
 import { useWallet } from '@aptos-labs/wallet-adapter-react';
 import aptosService from '@/services/aptosService';
+import authService from '@/services/authService';
+
+type SignInStatus = 'signed_out' | 'signing_in' | 'signed_in' | 'failed';
 
 interface WalletConnectProps {
   className?: string;
 }
 
 export default function WalletConnect({ className = '' }: WalletConnectProps) {
-  const { connect, disconnect, account, connected, wallets } = useWallet();
+  const { connect, disconnect, account, connected, wallets, signMessage } = useWallet();
   const [isDropdownOpen, setIsDropdownOpen] = useState(false);
   const [balance, setBalance] = useState<string>('0.00');
+  const [signInStatus, setSignInStatus] = useState<SignInStatus>('signed_out');
+  // Address a sign-in was last started for, so reconnect renders don't prompt twice
+  const signInAttempted = useRef<string | null>(null);
 
   // Fetch wallet balance
   useEffect(() => {
@@ -23,6 +29,38 @@ export default function WalletConnect({ className = '' }: WalletConnectProps) {
     }
   }, [connected, account]);
 
+  const signIn = useCallback(async () => {
+    if (!account) return;
+
+    const addressString = account.address.toString();
+    signInAttempted.current = addressString;
+    setSignInStatus('signing_in');
+
+    try {
+      await authService.signIn(addressString, account.publicKey.toString(), signMessage);
+      setSignInStatus('signed_in');
+    } catch (error) {
+      console.error('Failed to sign in with wallet:', error);
+      setSignInStatus('failed');
+    }
+  }, [account, signMessage]);
+
+  // Sign in automatically once a wallet is connected
+  useEffect(() => {
+    if (!connected || !account) {
+      signInAttempted.current = null;
+      setSignInStatus('signed_out');
+      return;
+    }
+
+    const addressString = account.address.toString();
+    if (authService.getSession(addressString)) {
+      setSignInStatus('signed_in');
+    } else if (signInAttempted.current !== addressString) {
+      signIn();
+    }
+  }, [connected, account, signIn]);
+
   const fetchBalance = async () => {
     if (!account?.address) return;
     
@@ -47,6 +85,7 @@ export default function WalletConnect({ className = '' }: WalletConnectProps) {
 
   const handleDisconnect = async () => {
     try {
+      authService.signOut();
       await disconnect();
       setIsDropdownOpen(false);
     } catch (error) {
@@ -85,7 +124,11 @@ export default function WalletConnect({ className = '' }: WalletConnectProps) {
                   <p className="font-semibold text-gray-900">
                     {formatAddress(account.address)}
                   </p>
-                  <p className="text-sm text-gray-500">Connected</p>
+                  <p className="text-sm text-gray-500">
+                    {signInStatus === 'signed_in' && 'Signed in'}
+                    {signInStatus === 'signing_in' && 'Signing in...'}
+                    {(signInStatus === 'signed_out' || signInStatus === 'failed') && 'Connected'}
+                  </p>
                 </div>
               </div>
             </div>
@@ -102,6 +145,15 @@ export default function WalletConnect({ className = '' }: WalletConnectProps) {
             </div>
             
             <div className="p-2">
+              {signInStatus === 'failed' && (
+                <button
+                  onClick={signIn}
+                  className="w-full flex items-center space-x-2 px-3 py-2 text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+                >
+                  <ShieldCheck className="w-4 h-4" />
+                  <span>Sign in</span>
+                </button>
+              )}
               <button
                 onClick={handleDisconnect}
                 className="w-full flex items-center space-x-2 px-3 py-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
@@ -0,0 +1,78 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { paymentService, type Quote } from '@/services/paymentService';
+
+const REQUOTE_DEBOUNCE_MS = 400;
+
+/**
+ * Fetch a locked exchange-rate quote for an INR amount and keep it fresh:
+ * the quote is re-requested when the amount changes and when it expires.
+ * Pass `enabled = false` to freeze the current quote (e.g. while signing),
+ * and the payee's merchant id or VPA so that its fee schedule applies.
+ */
+export function useQuote(
+  amountINR: number,
+  walletAddress?: string,
+  enabled: boolean = true,
+  asset: string = 'USDC',
+  merchantId?: string
+) {
+  const [quote, setQuote] = useState<Quote | null>(null);
+  const [secondsLeft, setSecondsLeft] = useState<number>(0);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string>('');
+
+  const refresh = useCallback(async () => {
+    if (!amountINR || amountINR <= 0) {
+      setQuote(null);
+      return;
+    }
+
+    setLoading(true);
+    setError('');
+
+    try {
+      setQuote(await paymentService.getQuote(amountINR, walletAddress, asset, merchantId));
+    } catch (err) {
+      console.error('Failed to fetch quote:', err);
+      setQuote(null);
+      setError(err instanceof Error ? err.message : 'Failed to fetch quote');
+    } finally {
+      setLoading(false);
+    }
+  }, [amountINR, walletAddress, asset, merchantId]);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const timer = setTimeout(refresh, REQUOTE_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [enabled, refresh]);
+
+  // Count down to expiry and requote once the lock runs out
+  useEffect(() => {
+    if (!quote) {
+      setSecondsLeft(0);
+      return;
+    }
+
+    const expiresAt = new Date(quote.expiresAt).getTime();
+    const tick = () => {
+      const left = Math.max(0, Math.ceil((expiresAt - Date.now()) / 1000));
+      setSecondsLeft(left);
+
+      if (left === 0) {
+        clearInterval(interval);
+        if (enabled) refresh();
+      }
+    };
+
+    const interval = setInterval(tick, 1000);
+    tick();
+
+    return () => clearInterval(interval);
+  }, [quote, enabled, refresh]);
+
+  return { quote, secondsLeft, loading, error, refresh };
+}
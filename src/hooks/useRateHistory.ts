@@ -0,0 +1,39 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { paymentService, type RateCandle } from '@/services/paymentService';
+
+const HISTORY_REFRESH_MS = 5 * 60000;
+
+/**
+ * OHLC candles of an asset's INR rate over the last day, refreshed every
+ * few minutes.
+ */
+export function useRateHistory(asset: string, interval: string = '1h') {
+  const [candles, setCandles] = useState<RateCandle[]>([]);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string>('');
+
+  const refresh = useCallback(async () => {
+    setLoading(true);
+    setError('');
+
+    try {
+      setCandles((await paymentService.getRateHistory(asset, interval)).candles);
+    } catch (err) {
+      console.error('Failed to fetch rate history:', err);
+      setError(err instanceof Error ? err.message : 'Failed to fetch rate history');
+    } finally {
+      setLoading(false);
+    }
+  }, [asset, interval]);
+
+  useEffect(() => {
+    refresh();
+
+    const timer = setInterval(refresh, HISTORY_REFRESH_MS);
+    return () => clearInterval(timer);
+  }, [refresh]);
+
+  return { candles, loading, error, refresh };
+}
@@ -0,0 +1,44 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { paymentService, type RateStatus } from '@/services/paymentService';
+
+const RATES_REFRESH_MS = 60000;
+
+/**
+ * Live oracle rates for every supported asset against INR, refreshed every
+ * minute. `getRate` returns undefined for assets the oracle can't price.
+ */
+export function useRates() {
+  const [rates, setRates] = useState<RateStatus[]>([]);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string>('');
+
+  const refresh = useCallback(async () => {
+    setLoading(true);
+    setError('');
+
+    try {
+      setRates(await paymentService.getRates());
+    } catch (err) {
+      console.error('Failed to fetch rates:', err);
+      setError(err instanceof Error ? err.message : 'Failed to fetch rates');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+
+    const interval = setInterval(refresh, RATES_REFRESH_MS);
+    return () => clearInterval(interval);
+  }, [refresh]);
+
+  const getRate = useCallback((asset: string): number | undefined => {
+    const rate = rates.find(candidate => candidate.from === asset && candidate.to === 'INR');
+    return rate?.available ? rate.rate : undefined;
+  }, [rates]);
+
+  return { rates, loading, error, refresh, getRate };
+}
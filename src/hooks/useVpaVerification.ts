@@ -0,0 +1,125 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { paymentService, type VpaVerification } from '@/services/paymentService';
+
+// Set by the QR scanner when the code carries no payee name
+const PLACEHOLDER_NAMES = ['unknown merchant'];
+
+// Titles and company suffixes that registered names and QR names often differ by ("M/S" reads as "ms")
+const IGNORED_WORDS = new Set([
+  'mr', 'mrs', 'ms', 'dr', 'shri', 'sri', 'smt',
+  'pvt', 'private', 'ltd', 'limited', 'llp', 'inc', 'co', 'and', 'the'
+]);
+
+const tokenize = (name: string): string[] =>
+  name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/\//g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .split(' ')
+    .filter(word => word && !IGNORED_WORDS.has(word));
+
+const editDistance = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+};
+
+const similarity = (a: string, b: string): number =>
+  1 - editDistance(a, b) / Math.max(a.length, b.length, 1);
+
+// Initials match the word they abbreviate, and longer words survive a typo or two
+const wordsMatch = (a: string, b: string): boolean => {
+  if (a === b) return true;
+  if (a.length === 1 || b.length === 1) return a[0] === b[0];
+  return Math.min(a.length, b.length) >= 4 && similarity(a, b) >= 0.8;
+};
+
+/**
+ * Compare a QR code's payee name with the name registered for its VPA.
+ * Names match when most words of the shorter one appear in the other, or
+ * when they are close once spaces are removed ("TechStore" and "Tech
+ * Store"). Returns undefined when either name is missing.
+ */
+export function matchPayeeName(qrName: string, registeredName: string): boolean | undefined {
+  if (PLACEHOLDER_NAMES.includes(qrName.trim().toLowerCase())) {
+    return undefined;
+  }
+
+  const qrWords = tokenize(qrName);
+  const registeredWords = tokenize(registeredName);
+  if (qrWords.length === 0 || registeredWords.length === 0) {
+    return undefined;
+  }
+
+  const qrCompact = qrWords.join('');
+  const registeredCompact = registeredWords.join('');
+  if (similarity(qrCompact, registeredCompact) >= 0.8) {
+    return true;
+  }
+
+  const [shorter, longer] = qrWords.length <= registeredWords.length
+    ? [qrWords, registeredWords]
+    : [registeredWords, qrWords];
+  const matched = shorter.filter(word => longer.some(candidate => wordsMatch(word, candidate)));
+
+  // Shared initials alone aren't enough to call two names the same
+  return matched.some(word => word.length > 1) && matched.length / shorter.length >= 0.5;
+}
+
+/**
+ * Look up the name registered for a scanned VPA and check it against the
+ * payee name in the QR code. `nameMatches` is false when they differ, which
+ * is the tell of a QR sticker pasted over the merchant's own.
+ */
+export function useVpaVerification(vpa: string, qrName: string) {
+  const [beneficiary, setBeneficiary] = useState<VpaVerification | null>(null);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string>('');
+
+  useEffect(() => {
+    if (!vpa) {
+      setBeneficiary(null);
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+    setError('');
+
+    paymentService.verifyVpa(vpa)
+      .then(result => {
+        if (!cancelled) setBeneficiary(result);
+      })
+      .catch(err => {
+        console.error('Failed to verify UPI ID:', err);
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to verify UPI ID');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [vpa]);
+
+  const nameMatches = beneficiary?.name ? matchPayeeName(qrName, beneficiary.name) : undefined;
+
+  return { beneficiary, loading, error, nameMatches };
+}
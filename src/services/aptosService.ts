@@ -1,5 +1,8 @@
 import { Aptos, AptosConfig, Network, Account } from '@aptos-labs/ts-sdk';
 
+// Payments are sent with 0x1::coin::transfer, which moves APT
+export const PAYMENT_ASSET = 'APT';
+
 class AptosService {
   private aptos: Aptos;
   private config: AptosConfig;
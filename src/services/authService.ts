@@ -0,0 +1,118 @@
+'use client';
+
+import { AccountAddress } from '@aptos-labs/ts-sdk';
+
+interface WalletChallenge {
+  walletAddress: string;
+  nonce: string;
+  message: string;
+  expiresAt: string;
+}
+
+interface WalletSession {
+  token: string;
+  walletAddress: string;
+  expiresAt: string;
+}
+
+// What the wallet adapter's signMessage returns, reduced to what sign-in needs
+interface SignedMessage {
+  fullMessage: string;
+  signature: { toString(): string };
+}
+
+type SignMessage = (input: { message: string; nonce: string }) => Promise<SignedMessage>;
+
+const SESSION_STORAGE_KEY = 'aptupi:wallet-session';
+
+const normalizeAddress = (address: string): string => {
+  return AccountAddress.fromString(address, { maxMissingChars: 63 }).toStringLong();
+};
+
+class AuthService {
+  private baseURL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001/api';
+
+  /**
+   * Sign in by having the wallet sign a one-time challenge from the backend.
+   * The session is kept in localStorage until it expires or the wallet
+   * disconnects.
+   */
+  async signIn(walletAddress: string, publicKey: string, signMessage: SignMessage): Promise<WalletSession> {
+    const challengeResponse = await fetch(`${this.baseURL}/auth/challenge`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ walletAddress }),
+    });
+
+    if (!challengeResponse.ok) {
+      const error = await challengeResponse.json();
+      throw new Error(error.message || 'Failed to get sign-in challenge');
+    }
+
+    const challenge: WalletChallenge = (await challengeResponse.json()).data;
+    const signed = await signMessage({ message: challenge.message, nonce: challenge.nonce });
+
+    const verifyResponse = await fetch(`${this.baseURL}/auth/verify`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        walletAddress,
+        nonce: challenge.nonce,
+        publicKey,
+        signature: signed.signature.toString(),
+        fullMessage: signed.fullMessage,
+      }),
+    });
+
+    if (!verifyResponse.ok) {
+      const error = await verifyResponse.json();
+      throw new Error(error.message || 'Failed to sign in');
+    }
+
+    const session: WalletSession = (await verifyResponse.json()).data;
+    localStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(session));
+    return session;
+  }
+
+  signOut(): void {
+    localStorage.removeItem(SESSION_STORAGE_KEY);
+  }
+
+  // The stored session, if it is still valid and, when given, for this wallet
+  getSession(walletAddress?: string): WalletSession | null {
+    if (typeof window === 'undefined') {
+      return null;
+    }
+
+    const stored = localStorage.getItem(SESSION_STORAGE_KEY);
+    if (!stored) {
+      return null;
+    }
+
+    try {
+      const session: WalletSession = JSON.parse(stored);
+      if (new Date(session.expiresAt).getTime() <= Date.now()) {
+        return null;
+      }
+      if (walletAddress && normalizeAddress(walletAddress) !== session.walletAddress) {
+        return null;
+      }
+      return session;
+    } catch {
+      return null;
+    }
+  }
+
+  getAuthHeaders(): Record<string, string> {
+    const session = this.getSession();
+    return session ? { Authorization: `Bearer ${session.token}` } : {};
+  }
+}
+
+export type { WalletSession };
+export const authService = new AuthService();
+export default authService;
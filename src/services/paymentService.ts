@@ -1,10 +1,134 @@
 'use client';
 
+import authService from './authService';
+
 interface CreatePaymentData {
+  // Merchant id, or the payee VPA for scanned QR codes
   merchantId: string;
-  amountINR: number;
+  merchantName?: string;
+  quoteId: string;
   walletAddress: string;
-  merchantUpiId: string;
+  merchantUpiId?: string;
+  paymentLinkId?: string;
+}
+
+interface PaymentMerchant {
+  id: string;
+  name: string;
+  upiId: string;
+  verified: boolean;
+}
+
+type PaymentLinkStatus = 'open' | 'paid' | 'expired';
+
+interface PaymentLink {
+  id: string;
+  merchantId: string;
+  amountINR: number;
+  description?: string;
+  multiUse: boolean;
+  status: PaymentLinkStatus;
+  paidCount: number;
+  expiresAt?: string;
+  checkoutUrl: string;
+  merchant: PaymentMerchant | null;
+  createdAt: string;
+}
+
+interface QuoteFee {
+  type: string;
+  label: string;
+  amountINR: number;
+}
+
+interface Quote {
+  id: string;
+  pair: string;
+  fromCurrency: string;
+  toCurrency: string;
+  rate: number;
+  amountINR: number;
+  cryptoAmount: number;
+  fees: QuoteFee[];
+  merchantId?: string;
+  signature: string;
+  expiresAt: string;
+  createdAt: string;
+}
+
+interface RateStatus {
+  pair: string;
+  from: string;
+  to: string;
+  available: boolean;
+  rate?: number;
+  updatedAt?: string;
+  // When the oldest price behind the rate was observed
+  quotedAt?: string;
+  ageSeconds?: number;
+  sources?: string[];
+  error?: string;
+}
+
+// Name the payee's bank or PSP has registered for a VPA
+interface VpaVerification {
+  upiId: string;
+  name?: string;
+  verified: boolean;
+}
+
+interface RateCandle {
+  time: string;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  samples: number;
+}
+
+interface RateHistory {
+  pair: string;
+  interval: string;
+  from: string;
+  to: string;
+  candles: RateCandle[];
+}
+
+type RiskDecision = 'allow' | 'hold' | 'block';
+
+interface InitiatedPayment {
+  transactionId: string;
+  quoteId: string;
+  merchant: PaymentMerchant;
+  merchantVerified: boolean;
+  amountINR: number;
+  stablecoinAmount: number;
+  exchangeRate: number;
+  fees: QuoteFee[];
+  asset: string;
+  riskDecision: RiskDecision;
+  expiresAt: string;
+  escrowAddress?: string;
+}
+
+type PaymentStatus =
+  | 'pending'
+  | 'awaiting_topup'
+  | 'confirmed'
+  | 'payout_initiated'
+  | 'completed'
+  | 'failed'
+  | 'refunded'
+  | 'expired';
+
+interface PaymentTransition {
+  id: string;
+  previousStatus: PaymentStatus | null;
+  status: PaymentStatus;
+  actor: string;
+  reason?: string;
+  blockchainHash?: string;
+  createdAt: Date;
 }
 
 interface Payment {
@@ -13,30 +137,92 @@ interface Payment {
   amountINR: number;
   stablecoinAmount: number;
   exchangeRate: number;
+  fees: QuoteFee[];
   walletAddress: string;
   merchantUpiId: string;
-  status: 'pending' | 'confirmed' | 'completed' | 'failed';
+  asset: string;
+  status: PaymentStatus;
   aptosTransactionHash?: string;
   upiPayoutId?: string;
+  failureReason?: string;
+  merchantVerified?: boolean;
+  expiresAt?: string;
+  // Total deposited so far, which may differ from stablecoinAmount
+  amountReceived: number;
+  // Held payments are paid out once an operator has reviewed them
+  riskDecision: RiskDecision;
+  timeline?: PaymentTransition[];
   createdAt: Date;
   updatedAt: Date;
 }
 
-interface UPIPayoutData {
-  paymentId: string;
-  upiId: string;
-  amount: number;
-  merchantName: string;
-}
-
 class PaymentService {
   private baseURL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001/api';
 
-  async createPayment(data: CreatePaymentData): Promise<Payment> {
+  async getQuote(amountINR: number, walletAddress?: string, asset: string = 'USDC', merchantId?: string): Promise<Quote> {
+    const response = await fetch(`${this.baseURL}/payment/quote`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ amountINR, walletAddress, asset, merchantId }),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.message || 'Failed to get quote');
+    }
+
+    const result = await response.json();
+    return result.data;
+  }
+
+  async getRates(): Promise<RateStatus[]> {
+    const response = await fetch(`${this.baseURL}/rates`);
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.message || 'Failed to get rates');
+    }
+
+    const result = await response.json();
+    return result.data;
+  }
+
+  async getRateHistory(asset: string, interval: string = '1h', from?: Date, to?: Date): Promise<RateHistory> {
+    const params = new URLSearchParams({ pair: `${asset}-INR`, interval });
+    if (from) params.set('from', from.toISOString());
+    if (to) params.set('to', to.toISOString());
+
+    const response = await fetch(`${this.baseURL}/rates/history?${params}`);
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.message || 'Failed to get rate history');
+    }
+
+    const result = await response.json();
+    return result.data;
+  }
+
+  async verifyVpa(vpa: string): Promise<VpaVerification> {
+    const response = await fetch(`${this.baseURL}/upi/verify/${encodeURIComponent(vpa)}`);
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.message || 'Failed to verify UPI ID');
+    }
+
+    const result = await response.json();
+    return result.data;
+  }
+
+  async createPayment(data: CreatePaymentData, idempotencyKey?: string): Promise<InitiatedPayment> {
     const response = await fetch(`${this.baseURL}/payment/initiate`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
+        ...(idempotencyKey && { 'Idempotency-Key': idempotencyKey }),
       },
       body: JSON.stringify(data),
     });
@@ -51,7 +237,9 @@ class PaymentService {
   }
 
   async getPaymentById(id: string): Promise<Payment | null> {
-    const response = await fetch(`${this.baseURL}/payment/status/${id}`);
+    const response = await fetch(`${this.baseURL}/payment/status/${id}`, {
+      headers: authService.getAuthHeaders(),
+    });
 
     if (!response.ok) {
       if (response.status === 404) {
@@ -74,6 +262,7 @@ class PaymentService {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
+        ...authService.getAuthHeaders(),
       },
       body: JSON.stringify({
         transactionId: id,
@@ -91,22 +280,15 @@ class PaymentService {
     return result.data;
   }
 
-  async initiateUPIPayout(data: UPIPayoutData): Promise<unknown> {
-    const response = await fetch(`${this.baseURL}/upi/payout`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        transactionId: data.paymentId,
-        merchantUpiId: data.upiId,
-        amountINR: data.amount,
-      }),
-    });
+  async getPaymentLink(linkId: string): Promise<PaymentLink | null> {
+    const response = await fetch(`${this.baseURL}/payment-links/${linkId}`);
 
     if (!response.ok) {
+      if (response.status === 404) {
+        return null;
+      }
       const error = await response.json();
-      throw new Error(error.message || 'Failed to initiate UPI payout');
+      throw new Error(error.message || 'Failed to get payment link');
     }
 
     const result = await response.json();
@@ -116,7 +298,8 @@ class PaymentService {
   async getPaymentHistory(
     walletAddress: string,
     page: number = 1,
-    limit: number = 10
+    limit: number = 10,
+    includeExpired: boolean = false
   ): Promise<{
     payments: Payment[];
     total: number;
@@ -124,7 +307,8 @@ class PaymentService {
     totalPages: number;
   }> {
     const response = await fetch(
-      `${this.baseURL}/payment/history/${walletAddress}?page=${page}&limit=${limit}`
+      `${this.baseURL}/payment/history/${walletAddress}?page=${page}&limit=${limit}&includeExpired=${includeExpired}`,
+      { headers: authService.getAuthHeaders() }
     );
 
     if (!response.ok) {
@@ -137,5 +321,21 @@ class PaymentService {
   }
 }
 
+export type {
+  InitiatedPayment,
+  Payment,
+  PaymentLink,
+  PaymentLinkStatus,
+  PaymentMerchant,
+  PaymentStatus,
+  PaymentTransition,
+  Quote,
+  QuoteFee,
+  RateCandle,
+  RateHistory,
+  RateStatus,
+  RiskDecision,
+  VpaVerification
+};
 export const paymentService = new PaymentService();
 export default paymentService;
\ No newline at end of file